@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "Vault" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "Vault_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Memory" ADD COLUMN "vaultId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Entity" ADD COLUMN "vaultId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Relationship" ADD COLUMN "vaultId" TEXT;
+
+-- DropIndex
+DROP INDEX "Entity_userId_name_type_key";
+
+-- CreateIndex: NULLS NOT DISTINCT so entities outside any vault still deduplicate per user
+CREATE UNIQUE INDEX "Entity_userId_vaultId_name_type_key" ON "Entity"("userId", "vaultId", "name", "type") NULLS NOT DISTINCT;
+
+-- CreateIndex
+CREATE INDEX "Vault_userId_isDeleted_idx" ON "Vault"("userId", "isDeleted");
+
+-- CreateIndex
+CREATE INDEX "Memory_userId_vaultId_idx" ON "Memory"("userId", "vaultId");
+
+-- CreateIndex
+CREATE INDEX "Entity_userId_vaultId_idx" ON "Entity"("userId", "vaultId");
+
+-- CreateIndex
+CREATE INDEX "Relationship_userId_vaultId_idx" ON "Relationship"("userId", "vaultId");
+
+-- AddForeignKey
+ALTER TABLE "Vault" ADD CONSTRAINT "Vault_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Memory" ADD CONSTRAINT "Memory_vaultId_fkey" FOREIGN KEY ("vaultId") REFERENCES "Vault"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Entity" ADD CONSTRAINT "Entity_vaultId_fkey" FOREIGN KEY ("vaultId") REFERENCES "Vault"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Relationship" ADD CONSTRAINT "Relationship_vaultId_fkey" FOREIGN KEY ("vaultId") REFERENCES "Vault"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Memory" ADD COLUMN "documentId" TEXT,
+ADD COLUMN "chunkIndex" INTEGER,
+ADD COLUMN "chunkCount" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Memory_documentId_chunkIndex_idx" ON "Memory"("documentId", "chunkIndex");
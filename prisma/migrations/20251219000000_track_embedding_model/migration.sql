@@ -0,0 +1,22 @@
+-- Allow vectors of any dimension; the producing model is tracked per row
+ALTER TABLE "Memory" ALTER COLUMN "embedding" TYPE vector;
+ALTER TABLE "Entity" ALTER COLUMN "embedding" TYPE vector;
+
+-- AlterTable
+ALTER TABLE "Memory" ADD COLUMN "embeddingModel" TEXT,
+ADD COLUMN "embeddingDimensions" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Entity" ADD COLUMN "embeddingModel" TEXT,
+ADD COLUMN "embeddingDimensions" INTEGER;
+
+-- Backfill dimensions; the model of existing vectors is unknown and stays NULL
+-- (searchable while dimensions match, replaced by the admin re-embedding job)
+UPDATE "Memory" SET "embeddingDimensions" = vector_dims("embedding") WHERE "embedding" IS NOT NULL;
+UPDATE "Entity" SET "embeddingDimensions" = vector_dims("embedding") WHERE "embedding" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Memory_embeddingModel_idx" ON "Memory"("embeddingModel");
+
+-- CreateIndex
+CREATE INDEX "Entity_embeddingModel_idx" ON "Entity"("embeddingModel");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "Ontology" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "entityTypes" JSONB NOT NULL,
+    "predicates" JSONB NOT NULL,
+    "strict" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Ontology_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Ontology_userId_key" ON "Ontology"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Ontology" ADD CONSTRAINT "Ontology_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,63 @@
+-- CreateTable
+CREATE TABLE "EntityAlias" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "vaultId" TEXT,
+    "entityId" TEXT NOT NULL,
+    "alias" TEXT NOT NULL,
+    "normalizedAlias" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EntityAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EntityMergeCandidate" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "vaultId" TEXT,
+    "entityId" TEXT NOT NULL,
+    "candidateId" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "nameScore" DOUBLE PRECISION NOT NULL,
+    "embeddingScore" DOUBLE PRECISION NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EntityMergeCandidate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex: NULLS NOT DISTINCT so aliases outside any vault still deduplicate per user
+CREATE UNIQUE INDEX "EntityAlias_userId_vaultId_normalizedAlias_type_key" ON "EntityAlias"("userId", "vaultId", "normalizedAlias", "type") NULLS NOT DISTINCT;
+
+-- CreateIndex
+CREATE INDEX "EntityAlias_entityId_idx" ON "EntityAlias"("entityId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EntityMergeCandidate_entityId_candidateId_key" ON "EntityMergeCandidate"("entityId", "candidateId");
+
+-- CreateIndex
+CREATE INDEX "EntityMergeCandidate_userId_vaultId_status_idx" ON "EntityMergeCandidate"("userId", "vaultId", "status");
+
+-- AddForeignKey
+ALTER TABLE "EntityAlias" ADD CONSTRAINT "EntityAlias_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EntityAlias" ADD CONSTRAINT "EntityAlias_vaultId_fkey" FOREIGN KEY ("vaultId") REFERENCES "Vault"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EntityAlias" ADD CONSTRAINT "EntityAlias_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "Entity"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EntityMergeCandidate" ADD CONSTRAINT "EntityMergeCandidate_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EntityMergeCandidate" ADD CONSTRAINT "EntityMergeCandidate_vaultId_fkey" FOREIGN KEY ("vaultId") REFERENCES "Vault"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EntityMergeCandidate" ADD CONSTRAINT "EntityMergeCandidate_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "Entity"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EntityMergeCandidate" ADD CONSTRAINT "EntityMergeCandidate_candidateId_fkey" FOREIGN KEY ("candidateId") REFERENCES "Entity"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "EntityMention" (
+    "memoryId" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EntityMention_pkey" PRIMARY KEY ("memoryId","entityId")
+);
+
+-- CreateIndex
+CREATE INDEX "EntityMention_entityId_idx" ON "EntityMention"("entityId");
+
+-- AddForeignKey
+ALTER TABLE "EntityMention" ADD CONSTRAINT "EntityMention_memoryId_fkey" FOREIGN KEY ("memoryId") REFERENCES "Memory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EntityMention" ADD CONSTRAINT "EntityMention_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "Entity"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Entity" ADD COLUMN "isManual" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Relationship" ADD COLUMN "isManual" BOOLEAN NOT NULL DEFAULT false;
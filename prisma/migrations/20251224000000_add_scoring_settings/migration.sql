@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ScoringSettings" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "profile" TEXT NOT NULL DEFAULT 'default',
+    "weights" JSONB,
+    "halfLifeHours" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScoringSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScoringSettings_userId_key" ON "ScoringSettings"("userId");
+
+-- AddForeignKey
+ALTER TABLE "ScoringSettings" ADD CONSTRAINT "ScoringSettings_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
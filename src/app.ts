@@ -15,15 +15,20 @@ import graphRAGRoutes from './routes/graphRAGRoutes';
 import webhookRoutes from './routes/webhookRoutes';
 import publicStripeRoutes from './routes/publicStripeRoutes';
 import userRoutes from './routes/userRoutes';
+import vaultRoutes from './routes/vaultRoutes';
+import ontologyRoutes from './routes/ontologyRoutes';
+import graphRoutes from './routes/graphRoutes';
+import scoringRoutes from './routes/scoringRoutes';
 import { MemoryController } from './controllers/memoryController';
 import { SessionController } from './controllers/sessionController';
 import { HealthController } from './controllers/healthController';
 import { AdminController } from './controllers/adminController';
 import { EmbeddingProvider } from './services/embeddings/EmbeddingProvider';
+import { MemoryService } from './services/memoryService';
 import stripeRoutes from './routes/stripeRoutes';
 
 export interface AppDependencies {
-  memoryService: any; // Legacy - not used in GraphRAG architecture
+  memoryService: MemoryService;
   embeddingProvider?: EmbeddingProvider;
 }
 
@@ -63,6 +68,8 @@ export const createApp = ({ memoryService, embeddingProvider }: AppDependencies)
     })
   );
   
+  // Repository sync posts whole documentation trees in one request
+  app.use('/api/memory/async', express.json({ limit: '10mb' }));
   app.use(express.json({ limit: '1mb' }));
   app.use(requestLogger);
   app.use(rateLimiter);
@@ -70,7 +77,7 @@ export const createApp = ({ memoryService, embeddingProvider }: AppDependencies)
   const memoryController = new MemoryController(memoryService);
   const sessionController = new SessionController(memoryService);
   const healthController = new HealthController(embeddingProvider);
-  const adminController = new AdminController(memoryService);
+  const adminController = new AdminController(memoryService, embeddingProvider);
 
   app.get('/health', healthController.health);
 
@@ -88,6 +95,10 @@ export const createApp = ({ memoryService, embeddingProvider }: AppDependencies)
   apiRouter.use('/admin', adminRoutes(adminController));
   apiRouter.use('/stripe', stripeRoutes); // Stripe Billing Portal
   apiRouter.use('/user', userRoutes); // User management (me, api-keys)
+  apiRouter.use('/vaults', vaultRoutes); // Memory namespaces per user
+  apiRouter.use('/ontology', ontologyRoutes); // Graph extraction labels per user
+  apiRouter.use('/graph', graphRoutes); // Knowledge graph browsing, editing and maintenance
+  apiRouter.use('/scoring', scoringRoutes); // Memory ranking profile per user
   apiRouter.use(healthRoutes(healthController));
 
   app.use('/api', apiRouter);
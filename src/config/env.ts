@@ -13,10 +13,16 @@ const envSchema = z.object({
   
   // Embedding settings
   ENABLE_EMBEDDINGS: z.string().optional(),
-  EMBEDDING_PROVIDER: z.enum(['openai', 'ollama']).default('openai'),
+  EMBEDDING_PROVIDER: z.enum(['openai', 'ollama', 'local']).default('openai'), // local = offline feature hashing
   OPENAI_API_KEY: z.string().optional(),
   OLLAMA_URL: z.string().url().default('http://127.0.0.1:11434'),
   OLLAMA_MODEL: z.string().default('nomic-embed-text'),
+  OPENAI_EMBEDDING_MODEL: z.string().default('text-embedding-3-small'),
+  OPENAI_EMBEDDING_DIMENSIONS: z.coerce.number().int().positive().default(768),
+  EMBEDDING_BATCH_SIZE: z.coerce.number().default(96), // Max texts per provider request
+  EMBEDDING_BATCH_MAX_CHARS: z.coerce.number().default(100000), // Max total chars per provider request
+  EMBEDDING_CACHE_ENABLED: z.string().optional(),
+  EMBEDDING_CACHE_TTL_SECONDS: z.coerce.number().default(7 * 24 * 3600),
 
   // Redis settings (Traditional)
   REDIS_HOST: z.string().optional(),
@@ -28,8 +34,8 @@ const envSchema = z.object({
   UPSTASH_REDIS_REST_TOKEN: z.string().optional(),
 
   // LLM for Graph Extraction
-  LLM_PROVIDER: z.enum(['openai']).default('openai'),
-  LLM_MODEL: z.string().default('gpt-4o-mini'),
+  LLM_PROVIDER: z.enum(['openai', 'ollama']).default('openai'), // ollama = self-hosted chat via OLLAMA_URL
+  LLM_MODEL: z.string().optional(),
 
   // Cost Guard
   COST_PER_1K_TOKENS: z.coerce.number().default(0.0001), // $0.0001 per 1k tokens
@@ -46,6 +52,11 @@ const envSchema = z.object({
   MIN_SIMILARITY_SCORE: z.coerce.number().default(0.5),
   
   MAX_TEXT_LENGTH: z.coerce.number().default(4000),
+
+  // Chunking for long documents (async ingestion)
+  CHUNK_MAX_CHARS: z.coerce.number().default(2000),
+  CHUNK_OVERLAP: z.coerce.number().default(200),
+  MAX_DOCUMENT_LENGTH: z.coerce.number().default(200000),
   ADMIN_API_KEY: z.string().optional(),
   
   // Pruning settings
@@ -53,6 +64,11 @@ const envSchema = z.object({
   PRUNE_INACTIVE_DAYS: z.coerce.number().default(30),
   PRUNE_IMPORTANCE_THRESHOLD: z.coerce.number().default(0.3),
 
+  // Access reinforcement (retrieval bumps lastAccessedAt and importance)
+  ACCESS_FLUSH_INTERVAL_MS: z.coerce.number().default(5000), // How long accesses are buffered before one batched write
+  ACCESS_REINFORCEMENT_RATE: z.coerce.number().min(0).max(1).default(0.1), // Share of the remaining headroom gained per recall
+  ACCESS_SPACING_HOURS: z.coerce.number().positive().default(24), // Gap after which a recall counts fully
+
   // Stripe Configuration
   STRIPE_PUBLISHABLE_KEY: z.string().optional(),
   STRIPE_SECRET_KEY: z.string().optional(),
@@ -89,6 +105,16 @@ export const env = {
   openAiApiKey: raw.OPENAI_API_KEY,
   ollamaUrl: raw.OLLAMA_URL,
   ollamaModel: raw.OLLAMA_MODEL,
+  openAiEmbeddingModel: raw.OPENAI_EMBEDDING_MODEL,
+  openAiEmbeddingDimensions: raw.OPENAI_EMBEDDING_DIMENSIONS,
+  embeddingBatch: {
+    maxItems: raw.EMBEDDING_BATCH_SIZE,
+    maxChars: raw.EMBEDDING_BATCH_MAX_CHARS
+  },
+  embeddingCache: {
+    enabled: raw.EMBEDDING_CACHE_ENABLED?.toLowerCase() !== 'false', // On unless explicitly disabled
+    ttlSeconds: raw.EMBEDDING_CACHE_TTL_SECONDS
+  },
 
   // Redis (Traditional)
   redisHost: raw.REDIS_HOST,
@@ -101,7 +127,7 @@ export const env = {
 
   // LLM
   llmProvider: raw.LLM_PROVIDER,
-  llmModel: raw.LLM_MODEL,
+  llmModel: raw.LLM_MODEL ?? (raw.LLM_PROVIDER === 'ollama' ? 'llama3.1' : 'gpt-4o-mini'),
 
   // Cost Guard
   costPer1kTokens: raw.COST_PER_1K_TOKENS,
@@ -123,12 +149,22 @@ export const env = {
   },
   minSimilarityScore: raw.MIN_SIMILARITY_SCORE,
   maxTextLength: raw.MAX_TEXT_LENGTH,
+  chunking: {
+    maxChars: raw.CHUNK_MAX_CHARS,
+    overlap: raw.CHUNK_OVERLAP,
+    maxDocumentLength: raw.MAX_DOCUMENT_LENGTH
+  },
   adminApiKey: raw.ADMIN_API_KEY,
   prune: {
     maxAgeDays: raw.PRUNE_MAX_AGE_DAYS,
     inactiveDays: raw.PRUNE_INACTIVE_DAYS,
     importanceThreshold: raw.PRUNE_IMPORTANCE_THRESHOLD
   },
+  access: {
+    flushIntervalMs: raw.ACCESS_FLUSH_INTERVAL_MS,
+    reinforcementRate: raw.ACCESS_REINFORCEMENT_RATE,
+    spacingHours: raw.ACCESS_SPACING_HOURS
+  },
   
   // Stripe
   stripePublishableKey: raw.STRIPE_PUBLISHABLE_KEY,
@@ -1,13 +1,18 @@
 import { Queue } from 'bullmq';
 import { redisForBullMQ } from './redis';
 import { UserContext } from '../types/billing';
+import { ImportanceHint } from '../types/memory';
 
 export interface AddMemoryJobData {
   userId: string;
+  vaultId?: string; // Omitted = the user's default space
   text: string;
   metadata?: Record<string, unknown>;
   userContext: UserContext; // CRITICAL: Include billing context in job
   enableGraphExtraction?: boolean; // Can be disabled for RapidAPI users
+  chunking?: { maxChars?: number; overlap?: number }; // Overrides for long documents
+  batchId?: string; // Set for items enqueued via /api/memory/add/batch
+  importanceHint?: ImportanceHint; // Tilts the computed importanceScore
 }
 
 export const memoryProcessingQueue = new Queue<AddMemoryJobData>('memory-processing', {
@@ -31,3 +36,55 @@ export const memoryProcessingQueue = new Queue<AddMemoryJobData>('memory-process
 memoryProcessingQueue.on('error', (err) => {
   console.error('Memory queue error:', err);
 });
+
+export type ReembedTarget = 'memories' | 'entities' | 'all';
+
+export interface ReembedJobData {
+  model: string; // Embedding model the rows are migrated to
+  target: ReembedTarget;
+  userId?: string; // Omitted = every user
+}
+
+export const reembeddingQueue = new Queue<ReembedJobData>('reembedding', {
+  connection: redisForBullMQ,
+  defaultJobOptions: {
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 10000
+    },
+    removeOnComplete: {
+      age: 7 * 24 * 3600 // Keep status queryable for a week
+    },
+    removeOnFail: {
+      count: 100
+    }
+  }
+});
+
+reembeddingQueue.on('error', (err) => {
+  console.error('Re-embedding queue error:', err);
+});
+
+export interface EntityResolutionJobData {
+  userId?: string; // Omitted = every user
+  vaultId?: string | null; // With userId: one vault (null = the user's default space)
+  autoApply: boolean; // false = only record merge candidates
+}
+
+export const entityResolutionQueue = new Queue<EntityResolutionJobData>('entity-resolution', {
+  connection: redisForBullMQ,
+  defaultJobOptions: {
+    attempts: 1, // Merges aren't undone on failure; a rerun picks up where this one stopped
+    removeOnComplete: {
+      age: 7 * 24 * 3600 // Keep status queryable for a week
+    },
+    removeOnFail: {
+      count: 100
+    }
+  }
+});
+
+entityResolutionQueue.on('error', (err) => {
+  console.error('Entity resolution queue error:', err);
+});
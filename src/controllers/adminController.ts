@@ -1,13 +1,34 @@
 import { Request, Response, NextFunction } from 'express';
 import { ConsolidationService } from '../services/consolidationService';
+import { MemoryService } from '../services/memoryService';
+import { EmbeddingProvider } from '../services/embeddings/EmbeddingProvider';
+import { CachedEmbeddingProvider } from '../services/embeddings/CachedEmbeddingProvider';
+import { ReembeddingService } from '../services/reembeddingService';
+import { EntityResolutionService } from '../services/entityResolutionService';
+import { ApiError } from '../types/errors';
 import { z } from 'zod';
 
 const consolidateSchema = z.object({
+  userId: z.string().optional(),
+  vaultId: z.string().optional()
+});
+
+const entityResolutionSchema = z.object({
+  userId: z.string().optional(),
+  vaultId: z.string().nullable().optional(),
+  autoApply: z.boolean().default(true)
+});
+
+const reembedSchema = z.object({
+  target: z.enum(['memories', 'entities', 'all']).default('all'),
   userId: z.string().optional()
 });
 
 export class AdminController {
-  constructor(private memoryService: any) {} // Legacy parameter, not used
+  constructor(
+    private memoryService: MemoryService,
+    private embeddingProvider?: EmbeddingProvider
+  ) {}
 
   prune = async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -24,6 +45,7 @@ export class AdminController {
    * 
    * Body (optional):
    * - userId: string - Consolidate specific user (if omitted, consolidates all eligible users)
+   * - vaultId: string - Vault of that user to consolidate (default: the user's default space)
    */
   consolidate = async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -31,7 +53,7 @@ export class AdminController {
 
       if (data.userId) {
         // Consolidate specific user
-        const result = await ConsolidationService.consolidateUser(data.userId);
+        const result = await ConsolidationService.consolidateUser(data.userId, data.vaultId ?? null);
         res.json({
           message: 'User consolidation completed',
           result
@@ -51,4 +73,91 @@ export class AdminController {
       next(err);
     }
   };
+
+  /**
+   * GET /api/admin/embedding-cache
+   * Embedding cache hit/miss metrics (this process and all processes)
+   */
+  embeddingCacheStats = async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!(this.embeddingProvider instanceof CachedEmbeddingProvider)) {
+        res.json({ enabled: false });
+        return;
+      }
+
+      res.json({ enabled: true, ...(await this.embeddingProvider.getStats()) });
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * POST /api/admin/reembed
+   * Queue a background job re-embedding rows stored with another embedding model
+   *
+   * Body (optional):
+   * - target: 'memories' | 'entities' | 'all' (default: 'all')
+   * - userId: string - Only this user's rows (default: every user)
+   */
+  reembed = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const data = reembedSchema.parse(req.body ?? {});
+
+      if (!this.embeddingProvider) {
+        throw new ApiError({
+          code: 'EMBEDDING_PROVIDER_DISABLED',
+          status: 500,
+          message: 'No embedding provider configured'
+        });
+      }
+
+      const status = await ReembeddingService.enqueue(this.embeddingProvider, data.target, data.userId);
+      res.status(202).json(status);
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * GET /api/admin/reembed/:jobId
+   * Progress of a re-embedding job
+   */
+  reembedStatus = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(await ReembeddingService.getStatus(req.params.jobId));
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * POST /api/admin/entity-resolution
+   * Queue a background entity resolution pass (merge near-duplicate entities)
+   *
+   * Body (optional):
+   * - userId: string - Only this user (default: every user)
+   * - vaultId: string | null - With userId, only this vault (default: the user's default space)
+   * - autoApply: boolean (default: true) - false records every match as a merge candidate
+   */
+  resolveEntities = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const data = entityResolutionSchema.parse(req.body ?? {});
+      const status = await EntityResolutionService.enqueueBatch(data);
+      res.status(202).json(status);
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  /**
+   * GET /api/admin/entity-resolution/:jobId
+   * Progress of an entity resolution job
+   */
+  entityResolutionStatus = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(await EntityResolutionService.getBatchStatus(req.params.jobId));
+    } catch (err) {
+      next(err);
+    }
+  };
 }
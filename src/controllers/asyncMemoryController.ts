@@ -1,13 +1,64 @@
+import { randomUUID } from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import { memoryProcessingQueue } from '../config/queue';
 import { z } from 'zod';
 import { ApiError } from '../types/errors';
+import { env } from '../config';
 import { AuthenticatedRequest } from '../middleware/hybridAuth';
+import { VaultService } from '../services/vaultService';
+import { RepoSyncService } from '../services/repoSyncService';
+import { IngestionBatchService } from '../services/ingestionBatchService';
+import { CostGuard } from '../services/hybridCostGuard';
+import { chunkText } from '../utils/chunking';
 
 const addMemorySchema = z.object({
   userId: z.string().min(1, 'userId is required'),
-  text: z.string().min(1, 'text is required').max(10000, 'text too long'),
+  vaultId: z.string().min(1).optional(),
+  text: z.string().min(1, 'text is required').max(env.chunking.maxDocumentLength, 'text too long'),
   metadata: z.record(z.unknown()).optional(),
+  enableGraphExtraction: z.boolean().optional(),
+  importanceHint: z.enum(['low', 'medium', 'high']).optional(),
+  chunking: z
+    .object({
+      maxChars: z.number().int().min(200).max(8000).optional(),
+      overlap: z.number().int().min(0).max(2000).optional()
+    })
+    .refine((c) => (c.overlap ?? 0) < (c.maxChars ?? env.chunking.maxChars), 'overlap must be smaller than maxChars')
+    .optional()
+});
+
+const addBatchSchema = z.object({
+  userId: z.string().min(1, 'userId is required'),
+  vaultId: z.string().min(1).optional(),
+  enableGraphExtraction: z.boolean().optional(),
+  items: z
+    .array(
+      z.object({
+        text: z.string().min(1, 'text is required').max(env.chunking.maxDocumentLength, 'text too long'),
+        metadata: z.record(z.unknown()).optional(),
+        importanceHint: z.enum(['low', 'medium', 'high']).optional()
+      })
+    )
+    .min(1, 'items must not be empty')
+    .max(500, 'too many items (max 500)')
+});
+
+const repoSyncSchema = z.object({
+  vaultId: z.string().min(1).optional(),
+  repo: z.object({
+    owner: z.string().min(1, 'repo.owner is required'),
+    name: z.string().min(1, 'repo.name is required'),
+    branch: z.string().min(1, 'repo.branch is required'),
+    commit: z.string().min(1, 'repo.commit is required')
+  }),
+  files: z
+    .array(
+      z.object({
+        path: z.string().min(1).max(1024),
+        content: z.string().max(1_000_000, 'file too large')
+      })
+    )
+    .max(2000, 'too many files'),
   enableGraphExtraction: z.boolean().optional()
 });
 
@@ -15,6 +66,7 @@ export class AsyncMemoryController {
   /**
    * POST /api/memory/add
    * Enqueues a memory for async processing. Returns 202 Accepted immediately.
+   * Long texts are split by the worker into linked chunks (one Memory each).
    */
   async addMemory(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -38,13 +90,20 @@ export class AsyncMemoryController {
         });
       }
 
+      if (data.vaultId) {
+        await VaultService.getVault(data.userId, data.vaultId);
+      }
+
       // Enqueue the job with user context
       const job = await memoryProcessingQueue.add('process-memory', {
         userId: data.userId,
+        vaultId: data.vaultId,
         text: data.text,
         metadata: data.metadata,
         userContext: req.userContext, // CRITICAL: Pass billing context
-        enableGraphExtraction: data.enableGraphExtraction
+        enableGraphExtraction: data.enableGraphExtraction,
+        chunking: data.chunking,
+        importanceHint: data.importanceHint
       }, {
         jobId: `${data.userId}-${Date.now()}` // Unique job ID for tracking
       });
@@ -53,6 +112,91 @@ export class AsyncMemoryController {
         message: 'Memory queued for processing',
         jobId: job.id,
         userId: data.userId,
+        vaultId: data.vaultId ?? null,
+        source: req.userContext.source,
+        graphExtractionEnabled: req.userContext.source === 'DIRECT' && data.enableGraphExtraction !== false
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(new ApiError({
+          code: 'VALIDATION_ERROR',
+          status: 400,
+          message: 'Invalid request data',
+          details: { errors: error.errors } as Record<string, unknown>
+        }));
+      } else {
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * POST /api/memory/add/batch
+   * Enqueues many memories with a single bulk add. Returns 202 with per-item job IDs
+   * and a batchId for polling aggregate progress.
+   */
+  async addMemoryBatch(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = addBatchSchema.parse(req.body);
+
+      if (!req.userContext) {
+        throw new ApiError({
+          code: 'UNAUTHORIZED',
+          status: 401,
+          message: 'User context not found'
+        });
+      }
+
+      if (data.userId !== req.userContext.userId) {
+        throw new ApiError({
+          code: 'FORBIDDEN',
+          status: 403,
+          message: 'Cannot add memory for different user'
+        });
+      }
+
+      if (data.vaultId) {
+        await VaultService.getVault(data.userId, data.vaultId);
+      }
+
+      // Check the whole batch up front, priced like the worker bills it (per chunk)
+      const willExtractGraph = req.userContext.source === 'DIRECT' && data.enableGraphExtraction !== false;
+      const estimatedCost = data.items.reduce((total, item) => {
+        const chunks = item.text.length > env.chunking.maxChars ? chunkText(item.text) : [item.text];
+        return chunks.reduce(
+          (sum, chunk) => sum + CostGuard.calculateEstimatedCost(Math.ceil(chunk.length / 4), true, willExtractGraph),
+          total
+        );
+      }, 0);
+      await CostGuard.checkAccess(data.userId, req.userContext, estimatedCost);
+
+      const batchId = randomUUID();
+      await IngestionBatchService.createBatch(batchId, data.userId, data.vaultId ?? null, data.items.length);
+
+      const jobs = await memoryProcessingQueue.addBulk(
+        data.items.map((item, index) => ({
+          name: 'process-memory',
+          data: {
+            userId: data.userId,
+            vaultId: data.vaultId,
+            text: item.text,
+            metadata: item.metadata,
+            userContext: req.userContext!,
+            enableGraphExtraction: data.enableGraphExtraction,
+            importanceHint: item.importanceHint,
+            batchId
+          },
+          opts: { jobId: `${batchId}-${index}` }
+        }))
+      );
+
+      res.status(202).json({
+        message: 'Memories queued for processing',
+        batchId,
+        userId: data.userId,
+        vaultId: data.vaultId ?? null,
+        count: jobs.length,
+        jobIds: jobs.map((job) => job.id),
         source: req.userContext.source,
         graphExtractionEnabled: req.userContext.source === 'DIRECT' && data.enableGraphExtraction !== false
       });
@@ -70,6 +214,69 @@ export class AsyncMemoryController {
     }
   }
 
+  /**
+   * GET /api/memory/batch/:batchId
+   * Aggregate progress of a batch
+   */
+  async getBatchStatus(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.userContext) {
+        throw new ApiError({
+          code: 'UNAUTHORIZED',
+          status: 401,
+          message: 'User context not found'
+        });
+      }
+
+      const status = await IngestionBatchService.getStatus(req.userContext.userId, req.params.batchId);
+      res.json(status);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/memory/async
+   * Syncs a repository snapshot (memvault-sync GitHub Action).
+   * Only new or changed chunks are enqueued; returns 202 with the sync plan.
+   */
+  async syncRepository(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = repoSyncSchema.parse(req.body);
+
+      if (!req.userContext) {
+        throw new ApiError({
+          code: 'UNAUTHORIZED',
+          status: 401,
+          message: 'User context not found'
+        });
+      }
+
+      if (data.vaultId) {
+        await VaultService.getVault(req.userContext.userId, data.vaultId);
+      }
+
+      const result = await RepoSyncService.sync(req.userContext, data);
+
+      res.status(202).json({
+        message: 'Repository sync queued for processing',
+        userId: req.userContext.userId,
+        ...result
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(new ApiError({
+          code: 'VALIDATION_ERROR',
+          status: 400,
+          message: 'Invalid request data',
+          details: { errors: error.errors } as Record<string, unknown>
+        }));
+      } else {
+        next(error);
+      }
+    }
+  }
+
   /**
    * GET /api/memory/job/:jobId
    * Check the status of a queued job
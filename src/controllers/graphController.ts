@@ -0,0 +1,308 @@
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { EntityResolutionService } from '../services/entityResolutionService';
+import { GraphBrowserService } from '../services/graphBrowserService';
+import { GraphEditService } from '../services/graphEditService';
+import { CostGuard } from '../services/hybridCostGuard';
+import { VaultService } from '../services/vaultService';
+import { AuthenticatedRequest } from '../middleware/hybridAuth';
+import { ApiError } from '../types/errors';
+import { UserContext } from '../types/billing';
+
+const paginationSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const listEntitiesSchema = paginationSchema.extend({
+  vaultId: z.string().min(1).optional(),
+  type: z.string().trim().min(1).max(100).optional(),
+  q: z.string().trim().min(1).max(200).optional(),
+  sort: z.enum(['importance', 'name', 'recent']).default('importance')
+});
+
+const listRelationshipsSchema = paginationSchema.extend({
+  vaultId: z.string().min(1).optional(),
+  predicate: z.string().trim().min(1).max(100).optional(),
+  entityId: z.string().min(1).optional()
+});
+
+const neighborhoodSchema = paginationSchema.extend({
+  depth: z.coerce.number().int().min(1).max(3).default(1)
+});
+
+const label = z.string().trim().min(1).max(100);
+const score = z.number().min(0).max(1);
+
+const createEntitySchema = z.object({
+  vaultId: z.string().min(1).optional(),
+  name: z.string().trim().min(1, 'name is required').max(200),
+  type: label,
+  description: z.string().max(2000).nullable().optional(),
+  confidence: score.optional()
+});
+
+const updateEntitySchema = createEntitySchema
+  .omit({ vaultId: true })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, 'Nothing to update');
+
+const createRelationshipSchema = z.object({
+  fromEntityId: z.string().min(1),
+  toEntityId: z.string().min(1),
+  predicate: label,
+  confidence: score.optional(),
+  weight: z.number().min(0).max(10).optional(),
+  metadata: z.record(z.unknown()).nullable().optional()
+});
+
+const updateRelationshipSchema = createRelationshipSchema
+  .pick({ predicate: true, confidence: true, weight: true, metadata: true })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, 'Nothing to update');
+
+const listCandidatesSchema = z.object({
+  vaultId: z.string().min(1).optional(),
+  status: z.enum(['PENDING', 'REJECTED']).default('PENDING')
+});
+
+export class GraphController {
+  /**
+   * GET /api/graph/entities
+   */
+  async listEntities(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      const { vaultId, ...query } = listEntitiesSchema.parse(req.query);
+
+      if (vaultId) {
+        await VaultService.getVault(userId, vaultId);
+      }
+
+      const page = await GraphBrowserService.listEntities(userId, vaultId ?? null, query);
+      res.json({ entities: page.items, pagination: page.pagination });
+    } catch (error) {
+      this.handleError(error, next);
+    }
+  }
+
+  /**
+   * GET /api/graph/entities/:entityId
+   */
+  async getEntity(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      const page = paginationSchema.parse(req.query);
+      res.json(await GraphBrowserService.getEntity(userId, req.params.entityId, page));
+    } catch (error) {
+      this.handleError(error, next);
+    }
+  }
+
+  /**
+   * POST /api/graph/entities
+   */
+  async createEntity(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const context = this.requireContext(req);
+      const data = createEntitySchema.parse(req.body);
+
+      if (data.vaultId) {
+        await VaultService.getVault(context.userId, data.vaultId);
+      }
+
+      // Billed like a memory store: the new entity is embedded
+      const cost = await this.checkAccess(context);
+      const entity = await GraphEditService.createEntity(context.userId, data);
+      await CostGuard.deduct(context.userId, context, cost);
+      res.status(201).json(entity);
+    } catch (error) {
+      this.handleError(error, next);
+    }
+  }
+
+  /**
+   * PUT /api/graph/entities/:entityId
+   */
+  async updateEntity(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const context = this.requireContext(req);
+      const data = updateEntitySchema.parse(req.body);
+
+      // Only name or description edits re-embed the entity
+      const reembeds = data.name !== undefined || data.description !== undefined;
+      const cost = reembeds ? await this.checkAccess(context) : 0;
+      const entity = await GraphEditService.updateEntity(context.userId, req.params.entityId, data);
+      if (reembeds) {
+        await CostGuard.deduct(context.userId, context, cost);
+      }
+      res.json(entity);
+    } catch (error) {
+      this.handleError(error, next);
+    }
+  }
+
+  /**
+   * DELETE /api/graph/entities/:entityId
+   */
+  async deleteEntity(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      const result = await GraphEditService.deleteEntity(userId, req.params.entityId);
+      res.json({ message: 'Entity deleted', ...result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/graph/entities/:entityId/neighborhood
+   */
+  async getNeighborhood(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      const { depth, ...page } = neighborhoodSchema.parse(req.query);
+      res.json(await GraphBrowserService.getNeighborhood(userId, req.params.entityId, depth, page));
+    } catch (error) {
+      this.handleError(error, next);
+    }
+  }
+
+  /**
+   * GET /api/graph/relationships
+   */
+  async listRelationships(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      const { vaultId, ...query } = listRelationshipsSchema.parse(req.query);
+
+      if (vaultId) {
+        await VaultService.getVault(userId, vaultId);
+      }
+
+      const page = await GraphBrowserService.listRelationships(userId, vaultId ?? null, query);
+      res.json({ relationships: page.items, pagination: page.pagination });
+    } catch (error) {
+      this.handleError(error, next);
+    }
+  }
+
+  /**
+   * POST /api/graph/relationships
+   */
+  async createRelationship(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      const data = createRelationshipSchema.parse(req.body);
+      const relationship = await GraphEditService.createRelationship(userId, data);
+      res.status(201).json(relationship);
+    } catch (error) {
+      this.handleError(error, next);
+    }
+  }
+
+  /**
+   * PUT /api/graph/relationships/:relationshipId
+   */
+  async updateRelationship(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      const data = updateRelationshipSchema.parse(req.body);
+      res.json(await GraphEditService.updateRelationship(userId, req.params.relationshipId, data));
+    } catch (error) {
+      this.handleError(error, next);
+    }
+  }
+
+  /**
+   * DELETE /api/graph/relationships/:relationshipId
+   */
+  async deleteRelationship(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      const result = await GraphEditService.deleteRelationship(userId, req.params.relationshipId);
+      res.json({ message: 'Relationship deleted', ...result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/graph/merge-candidates
+   */
+  async listMergeCandidates(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      const query = listCandidatesSchema.parse(req.query);
+
+      if (query.vaultId) {
+        await VaultService.getVault(userId, query.vaultId);
+      }
+
+      const candidates = await EntityResolutionService.listCandidates(userId, query.vaultId ?? null, query.status);
+      res.json({ candidates });
+    } catch (error) {
+      this.handleError(error, next);
+    }
+  }
+
+  /**
+   * POST /api/graph/merge-candidates/:candidateId/accept
+   */
+  async acceptMergeCandidate(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      const result = await EntityResolutionService.acceptCandidate(userId, req.params.candidateId);
+      res.json({ message: 'Entities merged', ...result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/graph/merge-candidates/:candidateId/reject
+   */
+  async rejectMergeCandidate(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      await EntityResolutionService.rejectCandidate(userId, req.params.candidateId);
+      res.json({ message: 'Merge candidate rejected' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private requireUserId(req: AuthenticatedRequest): string {
+    return this.requireContext(req).userId;
+  }
+
+  private requireContext(req: AuthenticatedRequest): UserContext {
+    if (!req.userContext) {
+      throw new ApiError({
+        code: 'UNAUTHORIZED',
+        status: 401,
+        message: 'User context not found'
+      });
+    }
+    return req.userContext;
+  }
+
+  private async checkAccess(context: UserContext): Promise<number> {
+    const cost = CostGuard.calculateApiCallCost();
+    await CostGuard.checkAccess(context.userId, context, cost);
+    return cost;
+  }
+
+  private handleError(error: unknown, next: NextFunction): void {
+    if (error instanceof z.ZodError) {
+      next(new ApiError({
+        code: 'VALIDATION_ERROR',
+        status: 400,
+        message: 'Invalid request data',
+        details: { errors: error.errors } as Record<string, unknown>
+      }));
+    } else {
+      next(error);
+    }
+  }
+}
@@ -1,15 +1,48 @@
-import { Request, Response, NextFunction } from 'express';
+import { Response, NextFunction } from 'express';
 import { GraphRAGService } from '../services/graphRAGService';
 import { z } from 'zod';
 import { ApiError } from '../types/errors';
+import { AuthenticatedRequest } from '../middleware/hybridAuth';
+import { CostGuard } from '../services/hybridCostGuard';
+import { LlmUsage } from '../services/llm/LlmProvider';
+import { metadataFilterSchema } from '../utils/metadataFilter';
+import { VaultService } from '../services/vaultService';
+import { scoringOverridesSchema, scoringProfileNameSchema } from '../utils/scoring';
+import { normalizeLabel } from '../utils/ontology';
+
+// Predicate / entity type filters; a label with no letters or digits would match nothing
+const labelListSchema = z
+  .array(z.string().min(1).max(100).refine((label) => normalizeLabel(label) !== '', 'label needs a letter or digit'))
+  .max(50);
 
 const retrieveSchema = z.object({
   userId: z.string().min(1, 'userId is required'),
+  vaultId: z.string().min(1).optional(),
   query: z.string().min(1, 'query is required'),
   maxMemories: z.number().int().min(1).max(20).optional(),
   maxEntities: z.number().int().min(1).max(20).optional(),
   graphDepth: z.number().int().min(1).max(5).optional(),
-  minSimilarity: z.number().min(0).max(1).optional()
+  minSimilarity: z.number().min(0).max(1).optional(),
+  mode: z.enum(['vector', 'keyword', 'hybrid']).optional(),
+  filter: metadataFilterSchema.optional(),
+  neighborWindow: z.number().int().min(0).max(3).optional(),
+  graphDirection: z.enum(['outgoing', 'incoming', 'both']).optional(),
+  hopDecay: z.number().min(0).max(1).optional(),
+  minPathScore: z.number().min(0).max(1).optional(),
+  maxGraphNodes: z.number().int().min(1).max(200).optional(),
+  includePredicates: labelListSchema.optional(),
+  excludePredicates: labelListSchema.optional(),
+  entityTypes: labelListSchema.optional(),
+  maxTokens: z.number().int().min(100).max(100000).optional(),
+  rerank: z.enum(['none', 'blend', 'llm']).optional(),
+  scoringProfile: scoringProfileNameSchema.optional(),
+  scoring: scoringOverridesSchema.optional(),
+  mmrLambda: z.number().min(0).max(1).optional()
+});
+
+// Same options as retrieval, asked as a question
+const askSchema = retrieveSchema.omit({ query: true }).extend({
+  question: z.string().min(1, 'question is required').max(2000, 'question too long')
 });
 
 export class GraphRAGController {
@@ -19,24 +52,62 @@ export class GraphRAGController {
    * POST /api/graphrag/retrieve
    * Perform GraphRAG retrieval with multi-hop reasoning
    */
-  async retrieve(req: Request, res: Response, next: NextFunction): Promise<void> {
+  async retrieve(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const options = retrieveSchema.parse(req.body);
 
+      if (!req.userContext) {
+        throw new ApiError({
+          code: 'UNAUTHORIZED',
+          status: 401,
+          message: 'User context not found'
+        });
+      }
+
+      if (options.userId !== req.userContext.userId) {
+        throw new ApiError({
+          code: 'FORBIDDEN',
+          status: 403,
+          message: 'Cannot query memories of a different user'
+        });
+      }
+
+      if (options.vaultId) {
+        await VaultService.getVault(options.userId, options.vaultId);
+      }
+
+      // LLM reranking is billed like a question (one LLM call over the candidates)
+      if (options.rerank === 'llm') {
+        const estimatedCost = CostGuard.calculateEstimatedCost(Math.ceil(options.query.length / 4) + 1000, true, false);
+        await CostGuard.checkAccess(options.userId, req.userContext, estimatedCost);
+      }
+
       const startTime = Date.now();
       const result = await this.graphRAGService.retrieve(options);
       const duration = Date.now() - startTime;
 
+      let cost = 0;
+      if (result.usage) {
+        cost = CostGuard.calculateEstimatedCost(result.usage.total_tokens, true, false);
+        await CostGuard.deduct(options.userId, req.userContext, cost);
+      }
+
       res.json({
         query: options.query,
         userId: options.userId,
+        vaultId: options.vaultId ?? null,
         
         // Statistics
         stats: {
+          mode: options.mode ?? 'vector',
+          rerank: options.rerank ?? 'none',
+          mmrLambda: options.mmrLambda ?? null,
           memoriesFound: result.memories.length,
           entitiesFound: result.entities.length,
           graphNodesTraversed: result.graphNodes.length,
           totalTokens: result.totalTokens,
+          llmTokens: result.usage?.total_tokens ?? 0,
+          cost,
           durationMs: duration
         },
 
@@ -46,7 +117,8 @@ export class GraphRAGController {
         graphNodes: result.graphNodes,
         
         // Synthesized context for LLM
-        context: result.contextSummary
+        context: result.contextSummary,
+        contextReport: result.contextReport
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -61,4 +133,111 @@ export class GraphRAGController {
       }
     }
   }
+
+  /**
+   * POST /api/graphrag/ask
+   * Answer a question using GraphRAG context and the configured LLM
+   */
+  async ask(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const options = askSchema.parse(req.body);
+
+      if (!req.userContext) {
+        throw new ApiError({
+          code: 'UNAUTHORIZED',
+          status: 401,
+          message: 'User context not found'
+        });
+      }
+
+      if (options.userId !== req.userContext.userId) {
+        throw new ApiError({
+          code: 'FORBIDDEN',
+          status: 403,
+          message: 'Cannot query memories of a different user'
+        });
+      }
+
+      if (options.vaultId) {
+        await VaultService.getVault(options.userId, options.vaultId);
+      }
+
+      // Pre-flight cost check (question + synthesized context + answer), plus the
+      // reranking call when rerank is 'llm'
+      const estimatedTokens = Math.ceil(options.question.length / 4) + 1000;
+      const llmCalls = options.rerank === 'llm' ? 2 : 1;
+      const estimatedCost = llmCalls * CostGuard.calculateEstimatedCost(estimatedTokens, true, false);
+      await CostGuard.checkAccess(options.userId, req.userContext, estimatedCost);
+
+      const startTime = Date.now();
+      const result = await this.graphRAGService.ask(options);
+      const duration = Date.now() - startTime;
+
+      // Bill the LLM call (skipped when no context was found)
+      let cost = 0;
+      if (result.usage) {
+        cost = CostGuard.calculateEstimatedCost(result.usage.total_tokens, true, false);
+        await CostGuard.deduct(options.userId, req.userContext, cost);
+      }
+
+      const citedMemoryIds = new Set(result.citedMemoryIds);
+      const citedEntityIds = new Set(result.citedEntityIds);
+
+      res.json({
+        question: options.question,
+        userId: options.userId,
+        vaultId: options.vaultId ?? null,
+        answer: result.answer,
+        confidence: result.confidence,
+
+        // Citations
+        citations: {
+          memoryIds: result.citedMemoryIds,
+          entityIds: result.citedEntityIds
+        },
+        sources: result.retrieval.memories.filter(m => citedMemoryIds.has(m.id)),
+        entities: result.retrieval.entities.filter(e => citedEntityIds.has(e.id)),
+        reasoningPath: result.reasoningPath,
+        reasoning: result.reasoningPath.join('\n'),
+
+        // Statistics
+        stats: {
+          memoriesFound: result.retrieval.memories.length,
+          entitiesFound: result.retrieval.entities.length,
+          graphNodesTraversed: result.retrieval.graphNodes.length,
+          contextTokens: result.retrieval.totalTokens,
+          llmTokens: result.usage?.total_tokens ?? 0,
+          cost,
+          durationMs: duration
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        next(new ApiError({
+          code: 'VALIDATION_ERROR',
+          status: 400,
+          message: 'Invalid request data',
+          details: { errors: error.errors } as Record<string, unknown>
+        }));
+      } else {
+        await this.billFailedAsk(req, error).catch((billingError) =>
+          console.error('Failed to bill tokens of a failed ask:', billingError)
+        );
+        next(error);
+      }
+    }
+  }
+
+  /**
+   * Bill the LLM tokens an ask spent before failing (attached as details.usage)
+   */
+  private async billFailedAsk(req: AuthenticatedRequest, error: unknown): Promise<void> {
+    const usage = error instanceof ApiError ? (error.details?.usage as LlmUsage | null | undefined) : null;
+    if (!usage || !req.userContext) {
+      return;
+    }
+
+    const cost = CostGuard.calculateEstimatedCost(usage.total_tokens, true, false);
+    await CostGuard.deduct(req.userContext.userId, req.userContext, cost);
+  }
 }
@@ -1,33 +1,75 @@
-import { Request, Response, NextFunction } from 'express';
-// Legacy controller - keeping for backward compatibility but using GraphRAG architecture internally
+import { Response, NextFunction } from 'express';
+import { MemoryService } from '../services/memoryService';
+import { CostGuard } from '../services/hybridCostGuard';
+import { VaultService } from '../services/vaultService';
+import { AuthenticatedRequest } from '../middleware/hybridAuth';
+import { ApiError } from '../types/errors';
+import { UserContext } from '../types/billing';
 
+/**
+ * Synchronous memory endpoints (/api/memory/store, /retrieve, /search, /clear)
+ * Scoped to the authenticated user; sessionId is an optional sub-scope.
+ */
 export class MemoryController {
-  constructor(private memoryService: any) {} // Legacy parameter, not used
+  constructor(private memoryService: MemoryService) {}
 
-  store = async (req: Request, res: Response, next: NextFunction) => {
+  store = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-      const result = await this.memoryService.storeMemory(req.body);
+      const context = this.requireContext(req);
+      await this.checkVault(context, req.body.vaultId);
+      const cost = await this.checkAccess(context);
+      const result = await this.memoryService.storeMemory(context.userId, req.body);
+      await CostGuard.deduct(context.userId, context, cost);
       res.status(201).json(result);
     } catch (err) {
       next(err);
     }
   };
 
-  retrieve = async (req: Request, res: Response, next: NextFunction) => {
+  retrieve = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-      const result = await this.memoryService.retrieveMemories(req.body);
+      const context = this.requireContext(req);
+      await this.checkVault(context, req.body.vaultId);
+      const cost = await this.checkAccess(context);
+      const result = await this.memoryService.retrieveMemories(context.userId, req.body);
+      await CostGuard.deduct(context.userId, context, cost);
       res.json(result);
     } catch (err) {
       next(err);
     }
   };
 
-  clear = async (req: Request, res: Response, next: NextFunction) => {
+  clear = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-      const result = await this.memoryService.clearMemories(req.body);
+      const context = this.requireContext(req);
+      await this.checkVault(context, req.body.vaultId);
+      const result = await this.memoryService.clearMemories(context.userId, req.body);
       res.json(result);
     } catch (err) {
       next(err);
     }
   };
+
+  private requireContext(req: AuthenticatedRequest): UserContext {
+    if (!req.userContext) {
+      throw new ApiError({
+        code: 'UNAUTHORIZED',
+        status: 401,
+        message: 'User context not found'
+      });
+    }
+    return req.userContext;
+  }
+
+  private async checkVault(context: UserContext, vaultId?: string): Promise<void> {
+    if (vaultId) {
+      await VaultService.getVault(context.userId, vaultId);
+    }
+  }
+
+  private async checkAccess(context: UserContext): Promise<number> {
+    const cost = CostGuard.calculateApiCallCost();
+    await CostGuard.checkAccess(context.userId, context, cost);
+    return cost;
+  }
 }
@@ -0,0 +1,105 @@
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { OntologyService } from '../services/ontologyService';
+import { AuthenticatedRequest } from '../middleware/hybridAuth';
+import { ApiError } from '../types/errors';
+import { normalizeLabel } from '../utils/ontology';
+
+const label = z
+  .string()
+  .trim()
+  .min(1)
+  .max(100)
+  .refine((value) => normalizeLabel(value).length > 0, 'Label must contain a letter or digit');
+
+const termSchema = z.object({
+  name: label,
+  synonyms: z.array(label).max(50).optional()
+});
+
+// A label may appear only once across names and synonyms, or it would map to two terms
+const termsSchema = z
+  .array(termSchema)
+  .min(1)
+  .max(200)
+  .superRefine((terms, ctx) => {
+    const seen = new Set<string>();
+    for (const term of terms) {
+      const name = normalizeLabel(term.name);
+      for (const value of new Set([name, ...(term.synonyms ?? []).map(normalizeLabel)])) {
+        if (seen.has(value)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Label ${value} is used more than once` });
+        }
+        seen.add(value);
+      }
+    }
+  });
+
+const ontologySchema = z.object({
+  entityTypes: termsSchema,
+  predicates: termsSchema,
+  strict: z.boolean().default(true)
+});
+
+export class OntologyController {
+  /**
+   * GET /api/ontology
+   */
+  async get(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      res.json(await OntologyService.getOntologyView(userId));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/ontology
+   */
+  async update(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      const data = ontologySchema.parse(req.body);
+      res.json(await OntologyService.setOntology(userId, data));
+    } catch (error) {
+      this.handleError(error, next);
+    }
+  }
+
+  /**
+   * DELETE /api/ontology
+   */
+  async reset(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      res.json(await OntologyService.resetOntology(userId));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private requireUserId(req: AuthenticatedRequest): string {
+    if (!req.userContext) {
+      throw new ApiError({
+        code: 'UNAUTHORIZED',
+        status: 401,
+        message: 'User context not found'
+      });
+    }
+    return req.userContext.userId;
+  }
+
+  private handleError(error: unknown, next: NextFunction): void {
+    if (error instanceof z.ZodError) {
+      next(new ApiError({
+        code: 'VALIDATION_ERROR',
+        status: 400,
+        message: 'Invalid request data',
+        details: { errors: error.errors } as Record<string, unknown>
+      }));
+    } else {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { ScoringProfileService } from '../services/scoringProfileService';
+import { AuthenticatedRequest } from '../middleware/hybridAuth';
+import { ApiError } from '../types/errors';
+import { scoringOverridesSchema, scoringProfileNameSchema } from '../utils/scoring';
+
+const scoringSettingsSchema = scoringOverridesSchema.extend({
+  profile: scoringProfileNameSchema.default('default')
+});
+
+export class ScoringController {
+  /**
+   * GET /api/scoring
+   */
+  async get(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      res.json(await ScoringProfileService.getSettingsView(userId));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/scoring
+   */
+  async update(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      const data = scoringSettingsSchema.parse(req.body);
+      res.json(await ScoringProfileService.setSettings(userId, data));
+    } catch (error) {
+      this.handleError(error, next);
+    }
+  }
+
+  /**
+   * DELETE /api/scoring
+   */
+  async reset(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      res.json(await ScoringProfileService.resetSettings(userId));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private requireUserId(req: AuthenticatedRequest): string {
+    if (!req.userContext) {
+      throw new ApiError({
+        code: 'UNAUTHORIZED',
+        status: 401,
+        message: 'User context not found'
+      });
+    }
+    return req.userContext.userId;
+  }
+
+  private handleError(error: unknown, next: NextFunction): void {
+    if (error instanceof z.ZodError) {
+      next(new ApiError({
+        code: 'VALIDATION_ERROR',
+        status: 400,
+        message: 'Invalid request data',
+        details: { errors: error.errors } as Record<string, unknown>
+      }));
+    } else {
+      next(error);
+    }
+  }
+}
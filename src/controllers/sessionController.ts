@@ -1,13 +1,29 @@
-import { Request, Response, NextFunction } from 'express';
-// Legacy controller - keeping for backward compatibility
+import { Response, NextFunction } from 'express';
+import { MemoryService } from '../services/memoryService';
+import { AuthenticatedRequest } from '../middleware/hybridAuth';
+import { VaultService } from '../services/vaultService';
+import { ApiError } from '../types/errors';
 
 export class SessionController {
-  constructor(private memoryService: any) {} // Legacy parameter, not used
+  constructor(private memoryService: MemoryService) {}
 
-  getSession = async (req: Request, res: Response, next: NextFunction) => {
+  getSession = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
+      if (!req.userContext) {
+        throw new ApiError({
+          code: 'UNAUTHORIZED',
+          status: 401,
+          message: 'User context not found'
+        });
+      }
+
       const { sessionId } = req.params;
-      const summary = await this.memoryService.sessionSummary(sessionId);
+      const vaultId = typeof req.query.vaultId === 'string' && req.query.vaultId ? req.query.vaultId : undefined;
+      if (vaultId) {
+        await VaultService.getVault(req.userContext.userId, vaultId);
+      }
+
+      const summary = await this.memoryService.sessionSummary(req.userContext.userId, sessionId, vaultId);
       res.json(summary);
     } catch (err) {
       next(err);
@@ -0,0 +1,107 @@
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { VaultService } from '../services/vaultService';
+import { AuthenticatedRequest } from '../middleware/hybridAuth';
+import { ApiError } from '../types/errors';
+
+const createVaultSchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(100),
+  description: z.string().max(1000).nullable().optional()
+});
+
+const updateVaultSchema = createVaultSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, 'Nothing to update');
+
+export class VaultController {
+  /**
+   * GET /api/vaults
+   */
+  async list(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      const vaults = await VaultService.listVaults(userId);
+      res.json({ vaults });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/vaults
+   */
+  async create(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      const data = createVaultSchema.parse(req.body);
+      const vault = await VaultService.createVault(userId, data);
+      res.status(201).json(vault);
+    } catch (error) {
+      this.handleError(error, next);
+    }
+  }
+
+  /**
+   * GET /api/vaults/:vaultId
+   */
+  async get(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      const vault = await VaultService.getVault(userId, req.params.vaultId);
+      res.json(vault);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/vaults/:vaultId
+   */
+  async update(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      const data = updateVaultSchema.parse(req.body);
+      const vault = await VaultService.updateVault(userId, req.params.vaultId, data);
+      res.json(vault);
+    } catch (error) {
+      this.handleError(error, next);
+    }
+  }
+
+  /**
+   * DELETE /api/vaults/:vaultId
+   */
+  async remove(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req);
+      const result = await VaultService.deleteVault(userId, req.params.vaultId);
+      res.json({ message: 'Vault deleted', ...result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private requireUserId(req: AuthenticatedRequest): string {
+    if (!req.userContext) {
+      throw new ApiError({
+        code: 'UNAUTHORIZED',
+        status: 401,
+        message: 'User context not found'
+      });
+    }
+    return req.userContext.userId;
+  }
+
+  private handleError(error: unknown, next: NextFunction): void {
+    if (error instanceof z.ZodError) {
+      next(new ApiError({
+        code: 'VALIDATION_ERROR',
+        status: 400,
+        message: 'Invalid request data',
+        details: { errors: error.errors } as Record<string, unknown>
+      }));
+    } else {
+      next(error);
+    }
+  }
+}
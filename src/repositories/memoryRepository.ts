@@ -0,0 +1,232 @@
+import { Memory, Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { EmbeddingSpace, cosineSimilarity } from '../utils/embeddingSpace';
+
+export interface MemoryCreateInput {
+  userId: string;
+  vaultId?: string | null;
+  text: string;
+  compressedText: string;
+  metadata?: Prisma.InputJsonValue;
+  importanceScore: number;
+  recencyScore?: number | null;
+  embedding?: number[];
+  embeddingModel?: string; // Model that produced `embedding`
+}
+
+export interface SimilarMemoryQuery {
+  userId: string;
+  vaultId?: string | null; // null/undefined = the user's default space
+  embedding: number[];
+  embeddingModel: string; // Only memories embedded by this model are compared
+  limit: number;
+  minSimilarity: number;
+  sessionId?: string; // Legacy session scope (stored in metadata.sessionId)
+  metadata?: Record<string, unknown>; // JSONB containment filter
+}
+
+export type MemoryWithSimilarity = Memory & { similarity: number };
+
+export interface IMemoryRepository {
+  create(data: MemoryCreateInput): Promise<Memory>;
+  findById(id: string): Promise<Memory | null>;
+  findSimilarMemories(query: SimilarMemoryQuery): Promise<MemoryWithSimilarity[]>;
+  findEmbeddings(ids: string[]): Promise<Map<string, number[]>>;
+  findDuplicate(
+    userId: string,
+    vaultId: string | null,
+    embedding: number[],
+    embeddingModel: string,
+    sessionId?: string
+  ): Promise<{ id: string } | null>;
+  updateLastAccessed(ids: string[] | string, timestamp: Date): Promise<void>;
+  softDelete(userId: string, vaultId: string | null, memoryIds?: string[], sessionId?: string): Promise<number>;
+  softDeleteByIds(ids: string[]): Promise<number>;
+  findPrunable(params: {
+    createdBefore: Date;
+    lastAccessedBefore: Date;
+    maxImportance: number;
+    take?: number;
+  }): Promise<Memory[]>;
+  countActive(userId: string, vaultId: string | null, sessionId?: string): Promise<number>;
+  latestAccessed(userId: string, vaultId: string | null, sessionId?: string): Promise<Date | null>;
+}
+
+const DUPLICATE_SIMILARITY_THRESHOLD = 0.95;
+
+const toVector = (embedding: number[]) => `[${embedding.join(',')}]`;
+
+const toSpace = (embedding: number[], model: string): EmbeddingSpace => ({ model, dimensions: embedding.length });
+
+const sessionWhere = (sessionId?: string): Prisma.MemoryWhereInput =>
+  sessionId ? { metadata: { path: ['sessionId'], equals: sessionId } } : {};
+
+/**
+ * Prisma-backed repository for the GraphRAG Memory model
+ * Vector columns are not supported by the Prisma client, so those paths use raw SQL
+ */
+export class PrismaMemoryRepository implements IMemoryRepository {
+  async create(data: MemoryCreateInput): Promise<Memory> {
+    const embedding = data.embedding && data.embedding.length > 0 ? toVector(data.embedding) : null;
+
+    const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+      INSERT INTO "Memory" (
+        id, "userId", "vaultId", text, "compressedText", metadata,
+        embedding, "embeddingModel", "embeddingDimensions", "importanceScore", "recencyScore", confidence, "createdAt", "lastAccessedAt"
+      )
+      VALUES (
+        gen_random_uuid(), ${data.userId}, ${data.vaultId ?? null}, ${data.text}, ${data.compressedText},
+        ${JSON.stringify(data.metadata ?? {})}::jsonb,
+        ${embedding}::vector, ${embedding ? data.embeddingModel ?? null : null},
+        ${embedding ? data.embedding!.length : null}, ${data.importanceScore}, ${data.recencyScore ?? null}, 1.0, NOW(), NOW()
+      )
+      RETURNING id
+    `;
+
+    return prisma.memory.findUniqueOrThrow({ where: { id: rows[0].id } });
+  }
+
+  async findById(id: string): Promise<Memory | null> {
+    return prisma.memory.findFirst({ where: { id, isDeleted: false } });
+  }
+
+  async findSimilarMemories(query: SimilarMemoryQuery): Promise<MemoryWithSimilarity[]> {
+    const similarity = cosineSimilarity(toVector(query.embedding), toSpace(query.embedding, query.embeddingModel));
+    const sessionFilter = query.sessionId
+      ? Prisma.sql`AND metadata->>'sessionId' = ${query.sessionId}`
+      : Prisma.empty;
+    const metadataFilter = query.metadata
+      ? Prisma.sql`AND metadata @> ${JSON.stringify(query.metadata)}::jsonb`
+      : Prisma.empty;
+
+    return prisma.$queryRaw<MemoryWithSimilarity[]>`
+      SELECT
+        id, "userId", "vaultId", text, "compressedText", metadata,
+        "documentId", "chunkIndex", "chunkCount",
+        "importanceScore", "recencyScore", confidence,
+        "embeddingModel", "embeddingDimensions",
+        "createdAt", "lastAccessedAt", "isDeleted", "isConsolidated", "sourceEntityId",
+        ${similarity} as similarity
+      FROM "Memory"
+      WHERE
+        "userId" = ${query.userId} AND
+        "vaultId" IS NOT DISTINCT FROM ${query.vaultId ?? null} AND
+        "isDeleted" = false AND
+        embedding IS NOT NULL AND
+        ${similarity} >= ${query.minSimilarity}
+        ${sessionFilter}
+        ${metadataFilter}
+      ORDER BY similarity DESC
+      LIMIT ${query.limit}
+    `;
+  }
+
+  async findEmbeddings(ids: string[]): Promise<Map<string, number[]>> {
+    if (ids.length === 0) return new Map();
+    // pgvector's text form is a JSON array
+    const rows = await prisma.$queryRaw<Array<{ id: string; embedding: string }>>`
+      SELECT id, embedding::text AS embedding
+      FROM "Memory"
+      WHERE id = ANY(${ids}::text[]) AND embedding IS NOT NULL
+    `;
+    return new Map(rows.map((row) => [row.id, JSON.parse(row.embedding) as number[]]));
+  }
+
+  async findDuplicate(
+    userId: string,
+    vaultId: string | null,
+    embedding: number[],
+    embeddingModel: string,
+    sessionId?: string
+  ): Promise<{ id: string } | null> {
+    const similarity = cosineSimilarity(toVector(embedding), toSpace(embedding, embeddingModel));
+    // A duplicate in another session would stay invisible to this one
+    const sessionFilter = sessionId
+      ? Prisma.sql`AND metadata->>'sessionId' = ${sessionId}`
+      : Prisma.empty;
+    const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT id
+      FROM "Memory"
+      WHERE
+        "userId" = ${userId} AND
+        "vaultId" IS NOT DISTINCT FROM ${vaultId} AND
+        "isDeleted" = false AND
+        embedding IS NOT NULL AND
+        ${similarity} >= ${DUPLICATE_SIMILARITY_THRESHOLD}
+        ${sessionFilter}
+      ORDER BY ${similarity} DESC
+      LIMIT 1
+    `;
+    return rows[0] ?? null;
+  }
+
+  async updateLastAccessed(ids: string[] | string, timestamp: Date): Promise<void> {
+    const idList = Array.isArray(ids) ? ids : [ids];
+    if (idList.length === 0) return;
+    await prisma.memory.updateMany({
+      where: { id: { in: idList } },
+      data: { lastAccessedAt: timestamp }
+    });
+  }
+
+  async softDelete(userId: string, vaultId: string | null, memoryIds?: string[], sessionId?: string): Promise<number> {
+    const result = await prisma.memory.updateMany({
+      where: {
+        userId,
+        vaultId,
+        isDeleted: false,
+        ...(memoryIds ? { id: { in: memoryIds } } : {}),
+        ...sessionWhere(sessionId)
+      },
+      data: { isDeleted: true }
+    });
+    return result.count;
+  }
+
+  async softDeleteByIds(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    const result = await prisma.memory.updateMany({
+      where: { id: { in: ids }, isDeleted: false },
+      data: { isDeleted: true }
+    });
+    return result.count;
+  }
+
+  async findPrunable({
+    createdBefore,
+    lastAccessedBefore,
+    maxImportance,
+    take = 200
+  }: {
+    createdBefore: Date;
+    lastAccessedBefore: Date;
+    maxImportance: number;
+    take?: number;
+  }): Promise<Memory[]> {
+    return prisma.memory.findMany({
+      where: {
+        isDeleted: false,
+        createdAt: { lt: createdBefore },
+        lastAccessedAt: { lt: lastAccessedBefore },
+        importanceScore: { lte: maxImportance }
+      },
+      orderBy: [{ importanceScore: 'asc' }, { lastAccessedAt: 'asc' }],
+      take
+    });
+  }
+
+  async countActive(userId: string, vaultId: string | null, sessionId?: string): Promise<number> {
+    return prisma.memory.count({
+      where: { userId, vaultId, isDeleted: false, ...sessionWhere(sessionId) }
+    });
+  }
+
+  async latestAccessed(userId: string, vaultId: string | null, sessionId?: string): Promise<Date | null> {
+    const latest = await prisma.memory.findFirst({
+      where: { userId, vaultId, isDeleted: false, ...sessionWhere(sessionId) },
+      orderBy: { lastAccessedAt: 'desc' },
+      select: { lastAccessedAt: true }
+    });
+    return latest?.lastAccessedAt ?? null;
+  }
+}
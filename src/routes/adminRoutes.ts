@@ -26,8 +26,52 @@ export const adminRoutes = (controller: AdminController) => {
    * 
    * Body (optional):
    * - userId: string - Consolidate specific user
+   * - vaultId: string - Vault of that user (default: the user's default space)
    */
   router.post('/admin/consolidate', adminAuth, controller.consolidate);
 
+  /**
+   * GET /api/admin/embedding-cache
+   * Embedding cache hit/miss metrics
+   */
+  router.get('/admin/embedding-cache', adminAuth, controller.embeddingCacheStats);
+
+  /**
+   * POST /api/admin/reembed
+   * Re-embed rows stored with a different embedding model (background job)
+   *
+   * Body (optional):
+   * - target: 'memories' | 'entities' | 'all' (default: 'all')
+   * - userId: string - Restrict to one user
+   *
+   * Returns 202 with the job status; poll GET /api/admin/reembed/:jobId
+   */
+  router.post('/admin/reembed', adminAuth, controller.reembed);
+
+  /**
+   * GET /api/admin/reembed/:jobId
+   * Re-embedding job state, progress and per-table counts
+   */
+  router.get('/admin/reembed/:jobId', adminAuth, controller.reembedStatus);
+
+  /**
+   * POST /api/admin/entity-resolution
+   * Merge near-duplicate entities ("John" / "John Doe" / "J. Doe") in the background
+   *
+   * Body (optional):
+   * - userId: string - Restrict to one user
+   * - vaultId: string | null - With userId, restrict to one vault
+   * - autoApply: boolean (default: true) - false only records merge candidates
+   *
+   * Returns 202 with the job status; poll GET /api/admin/entity-resolution/:jobId
+   */
+  router.post('/admin/entity-resolution', adminAuth, controller.resolveEntities);
+
+  /**
+   * GET /api/admin/entity-resolution/:jobId
+   * Entity resolution job state, progress and merge/proposal counts
+   */
+  router.get('/admin/entity-resolution/:jobId', adminAuth, controller.entityResolutionStatus);
+
   return router;
 };
@@ -9,9 +9,45 @@ const controller = new AsyncMemoryController();
  * POST /api/memory/add
  * Enqueue memory for async processing
  * Requires authentication (RapidAPI or Direct)
+ *
+ * Body: { userId, text, vaultId?, metadata?, enableGraphExtraction?, importanceHint?: 'low' | 'medium' | 'high',
+ *   chunking?: { maxChars?, overlap? } }
+ * Texts longer than chunking.maxChars become several Memory rows sharing a documentId.
+ * importanceScore is computed per chunk from text heuristics, importanceHint and, when graph
+ * extraction runs, the LLM's own rating of the chunk.
  */
 router.post('/add', hybridAuth, controller.addMemory.bind(controller));
 
+/**
+ * POST /api/memory/add/batch
+ * Enqueue up to 500 memories in one request (single BullMQ bulk add)
+ * Requires authentication
+ *
+ * Body: { userId, vaultId?, enableGraphExtraction?, items: [{ text, metadata?, importanceHint? }] }
+ * Response: 202 with batchId and per-item jobIds (in item order);
+ * 402 if the balance can't cover the whole batch (nothing is enqueued)
+ */
+router.post('/add/batch', hybridAuth, controller.addMemoryBatch.bind(controller));
+
+/**
+ * GET /api/memory/batch/:batchId
+ * Aggregate batch progress (total, completed, failed, pending)
+ * Requires authentication
+ */
+router.get('/batch/:batchId', hybridAuth, controller.getBatchStatus.bind(controller));
+
+/**
+ * POST /api/memory/async
+ * Sync repository files (used by the memvault-sync GitHub Action)
+ * Requires authentication
+ *
+ * Body: { vaultId?, repo: { owner, name, branch, commit }, files: [{ path, content }] }
+ * Files are chunked and deduplicated by content hash per repo/branch/path;
+ * memories of files missing from the snapshot are soft-deleted, together with the
+ * entities and relationships extracted only from them.
+ */
+router.post('/async', hybridAuth, controller.syncRepository.bind(controller));
+
 /**
  * GET /api/memory/job/:jobId
  * Get job status
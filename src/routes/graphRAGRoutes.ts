@@ -19,11 +19,40 @@ const graphRAGController = new GraphRAGController(graphRAGService);
  * 
  * Body:
  * - userId: string (required)
+ * - vaultId: string (optional) - restrict to one vault (default: the user's default space)
  * - query: string (required)
  * - maxMemories: number (optional, default 10, max 20)
  * - maxEntities: number (optional, default 10, max 20)
  * - graphDepth: number (optional, default 2, max 5)
  * - minSimilarity: number (optional, default 0.7)
+ * - mode: 'vector' | 'keyword' | 'hybrid' (optional, default 'vector')
+ *   keyword uses full-text search (exact names, IDs, error codes); hybrid fuses both
+ * - filter: object (optional) - metadata filter, e.g.
+ *   { "repo.name": "api", "source": { "$in": ["github"] }, "createdAt": { "$gte": "2025-01-01T00:00:00Z" } }
+ *   Operators: $eq, $ne, $in, $nin, $exists, $gt, $gte, $lt, $lte
+ * - neighborWindow: number (optional, default 0, max 3) - for chunked documents,
+ *   also return up to N chunks before/after each matched chunk
+ * - graphDirection: 'outgoing' | 'incoming' | 'both' (optional, default 'both') - edges to follow
+ * - hopDecay: number (optional, default 0.7) - path score multiplier per hop
+ * - minPathScore: number (optional, default 0.02) - weaker branches are not expanded
+ * - maxGraphNodes: number (optional, default 50, max 200)
+ *   Graph nodes are ranked by path score: anchor similarity x edge confidence x
+ *   weight / (weight + 1) x hopDecay per hop (edge weight 1 = 0.5, 3 = 0.75, 10 = 0.91)
+ * - includePredicates: string[] (optional) - only follow these predicates, e.g. ["WORKS_AT", "LIVES_IN"]
+ * - excludePredicates: string[] (optional) - never follow these predicates
+ * - entityTypes: string[] (optional) - only traverse into entities of these types, e.g. ["ORGANIZATION"]
+ *   Labels are matched in normalized form ("works at" = WORKS_AT); filters apply to every hop
+ * - maxTokens: number (optional, 100-100000) - token budget for `context`. Split across memories
+ *   (50%), entities (20%) and graph paths (30%); unused shares flow to the rest. Lower-ranked
+ *   items are shortened or dropped and listed in `contextReport`
+ * - rerank: 'none' | 'blend' | 'llm' (optional, default 'none') - fetch 4x maxMemories candidates
+ *   and keep the best after reranking: blend = similarity/recency/importance score,
+ *   llm = the configured LLM grades each candidate (billed per request)
+ * - scoringProfile, scoring (optional) - weights for rerank 'blend', see /api/scoring;
+ *   default: the user's stored profile
+ * - mmrLambda: number (optional, 0-1) - diversify memories with maximal marginal relevance over
+ *   their stored embeddings: 1 = relevance only, lower values skip near-duplicates in favour of
+ *   distinct facts. Over-fetches 4x maxMemories candidates like rerank
  * 
  * Response: 200 OK with memories, entities, graph nodes, and synthesized context
  */
@@ -31,4 +60,25 @@ router.post('/retrieve', hybridAuth, blockRapidApi, (req, res, next) =>
   graphRAGController.retrieve(req, res, next)
 );
 
+/**
+ * POST /api/graphrag/ask
+ * Answer a question from the knowledge graph using the configured LLM
+ * 
+ * NOTE: RapidAPI users are BLOCKED from this endpoint (LLM call on every request)
+ * 
+ * Body:
+ * - userId: string (required)
+ * - question: string (required, max 2000 chars)
+ * - maxMemories, maxEntities, graphDepth, vaultId, minSimilarity, mode, filter, neighborWindow,
+ *   graphDirection, hopDecay, minPathScore, maxGraphNodes, includePredicates, excludePredicates,
+ *   entityTypes, maxTokens, rerank, scoringProfile, scoring, mmrLambda: same as /retrieve
+ * 
+ * Response: 200 OK with answer, confidence, cited memory/entity IDs and reasoning path;
+ * 502 LLM_INVALID_RESPONSE when the LLM's JSON is unusable even after one repair attempt
+ * (the tokens spent on it are still billed)
+ */
+router.post('/ask', hybridAuth, blockRapidApi, (req, res, next) =>
+  graphRAGController.ask(req, res, next)
+);
+
 export default router;
@@ -0,0 +1,142 @@
+import { Router } from 'express';
+import { GraphController } from '../controllers/graphController';
+import { hybridAuth, blockRapidApi } from '../middleware/hybridAuth';
+
+const router = Router();
+const controller = new GraphController();
+
+/**
+ * NOTE: RapidAPI users are BLOCKED from every graph route, like /api/graphrag:
+ * ingestion never extracts a graph for them, so there is nothing to browse or edit.
+ *
+ * Read routes are paginated with `limit` (1-100, default 25) and `offset` (default 0);
+ * responses include { limit, offset, total, hasMore }.
+ */
+
+/**
+ * GET /api/graph/entities
+ * List or search entities
+ * 
+ * Query:
+ * - vaultId: string (optional) - default: the user's default space
+ * - type: string (optional) - e.g. PERSON
+ * - q: string (optional) - case-insensitive match on name or alias
+ * - sort: 'importance' | 'name' | 'recent' (optional, default 'importance')
+ * - limit, offset
+ */
+router.get('/entities', hybridAuth, blockRapidApi, controller.listEntities.bind(controller));
+
+/**
+ * GET /api/graph/entities/:entityId
+ * One entity with its aliases, incoming/outgoing relationships and the memories
+ * it was extracted from (limit/offset page both lists)
+ */
+router.get('/entities/:entityId', hybridAuth, blockRapidApi, controller.getEntity.bind(controller));
+
+/**
+ * GET /api/graph/entities/:entityId/neighborhood
+ * Entities within k hops (edges followed in both directions)
+ * 
+ * Query:
+ * - depth: number (optional, default 1, max 3)
+ * - limit, offset - page through neighbors ordered by hop distance, then name
+ */
+router.get('/entities/:entityId/neighborhood', hybridAuth, blockRapidApi, controller.getNeighborhood.bind(controller));
+
+/**
+ * GET /api/graph/relationships
+ * List relationships
+ * 
+ * Query:
+ * - vaultId: string (optional) - default: the user's default space
+ * - predicate: string (optional) - e.g. WORKS_AT
+ * - entityId: string (optional) - only edges touching this entity
+ * - limit, offset
+ */
+router.get('/relationships', hybridAuth, blockRapidApi, controller.listRelationships.bind(controller));
+
+/**
+ * Manual edits. Entities and relationships written here are flagged isManual:
+ * ingestion and consolidation no longer overwrite them, and entity resolution
+ * only proposes merges involving them.
+ */
+
+/**
+ * POST /api/graph/entities
+ * Create an entity
+ * 
+ * Body:
+ * - name: string (required)
+ * - type: string (required) - normalized to upper snake case
+ * - vaultId: string (optional) - default: the user's default space
+ * - description: string | null (optional)
+ * - confidence: number 0-1 (optional, default 1)
+ *
+ * The entity is embedded, billed as one API call (402 if the balance can't cover it).
+ */
+router.post('/entities', hybridAuth, blockRapidApi, controller.createEntity.bind(controller));
+
+/**
+ * PUT /api/graph/entities/:entityId
+ * Rename, retype or edit an entity (any subset of name, type, description, confidence).
+ * Name or description changes re-embed the entity, billed as one API call; the old
+ * name is kept as an alias.
+ */
+router.put('/entities/:entityId', hybridAuth, blockRapidApi, controller.updateEntity.bind(controller));
+
+/**
+ * DELETE /api/graph/entities/:entityId
+ * Soft-delete an entity and its relationships
+ */
+router.delete('/entities/:entityId', hybridAuth, blockRapidApi, controller.deleteEntity.bind(controller));
+
+/**
+ * POST /api/graph/relationships
+ * Add an edge between two entities of the same vault
+ * 
+ * Body:
+ * - fromEntityId, toEntityId: string (required)
+ * - predicate: string (required) - e.g. WORKS_AT
+ * - confidence: number 0-1 (optional, default 1)
+ * - weight: number 0-10 (optional, default 1, like extracted edges) - traversal strength is
+ *   weight / (weight + 1), so 3 = 0.75 and 10 = 0.91 against 0.5 for an extracted edge
+ * - metadata: object | null (optional)
+ */
+router.post('/relationships', hybridAuth, blockRapidApi, controller.createRelationship.bind(controller));
+
+/**
+ * PUT /api/graph/relationships/:relationshipId
+ * Edit an edge (any subset of predicate, confidence, weight, metadata)
+ */
+router.put('/relationships/:relationshipId', hybridAuth, blockRapidApi, controller.updateRelationship.bind(controller));
+
+/**
+ * DELETE /api/graph/relationships/:relationshipId
+ * Soft-delete an edge
+ */
+router.delete('/relationships/:relationshipId', hybridAuth, blockRapidApi, controller.deleteRelationship.bind(controller));
+
+/**
+ * GET /api/graph/merge-candidates
+ * Entity pairs that entity resolution thinks are the same thing, awaiting review
+ * 
+ * Query:
+ * - vaultId: string (optional) - default: the user's default space
+ * - status: 'PENDING' | 'REJECTED' (optional, default 'PENDING')
+ */
+router.get('/merge-candidates', hybridAuth, blockRapidApi, controller.listMergeCandidates.bind(controller));
+
+/**
+ * POST /api/graph/merge-candidates/:candidateId/accept
+ * Merge the candidate into the entity: relationships and memories are re-pointed,
+ * and the candidate's name becomes an alias of the entity
+ */
+router.post('/merge-candidates/:candidateId/accept', hybridAuth, blockRapidApi, controller.acceptMergeCandidate.bind(controller));
+
+/**
+ * POST /api/graph/merge-candidates/:candidateId/reject
+ * Keep both entities; the pair won't be proposed again
+ */
+router.post('/merge-candidates/:candidateId/reject', hybridAuth, blockRapidApi, controller.rejectMergeCandidate.bind(controller));
+
+export default router;
@@ -2,7 +2,9 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { MemoryController } from '../controllers/memoryController';
 import { validate } from '../middleware/validate';
+import { hybridAuth } from '../middleware/hybridAuth';
 import { env } from '../config';
+import { scoringOverridesSchema, scoringProfileNameSchema } from '../utils/scoring';
 
 export const memoryRoutes = (controller: MemoryController) => {
   const router = Router();
@@ -10,7 +12,8 @@ export const memoryRoutes = (controller: MemoryController) => {
   // Schema för att spara minnen
   const storeSchema = z.object({
     body: z.object({
-      sessionId: z.string().min(1),
+      vaultId: z.string().min(1).optional(),
+      sessionId: z.string().min(1).optional(),
       text: z.string().min(1).max(env.maxTextLength),
       metadata: z.record(z.any()).optional(),
       importanceHint: z.enum(['low', 'medium', 'high']).optional()
@@ -20,17 +23,24 @@ export const memoryRoutes = (controller: MemoryController) => {
   // Schema för att hämta/söka minnen
   const retrieveSchema = z.object({
     body: z.object({
-      sessionId: z.string().min(1),
+      vaultId: z.string().min(1).optional(),
+      sessionId: z.string().min(1).optional(),
       query: z.string().min(1).max(env.maxTextLength),
       limit: z.number().int().positive().max(50).optional(),
-      metadata: z.record(z.any()).optional()
+      minScore: z.number().min(0).max(1).optional(),
+      maxTokens: z.number().int().positive().max(8000).optional(),
+      metadata: z.record(z.any()).optional(),
+      scoringProfile: scoringProfileNameSchema.optional(),
+      scoring: scoringOverridesSchema.optional(),
+      mmrLambda: z.number().min(0).max(1).optional()
     })
   });
 
   // Schema för att radera minnen
   const clearSchema = z.object({
     body: z.object({
-      sessionId: z.string().min(1),
+      vaultId: z.string().min(1).optional(),
+      sessionId: z.string().min(1).optional(),
       memoryIds: z.array(z.string().min(1)).optional()
     })
   });
@@ -38,16 +48,17 @@ export const memoryRoutes = (controller: MemoryController) => {
   // --- DEFINIERA RUTTER ---
   
   // POST /api/memory/store
-  router.post('/store', validate(storeSchema), controller.store);
+  router.post('/store', hybridAuth, validate(storeSchema), controller.store);
 
-  // POST /api/memory/retrieve
-  router.post('/retrieve', validate(retrieveSchema), controller.retrieve);
+  // POST /api/memory/retrieve (scoringProfile / scoring override the user's /api/scoring settings;
+  // mmrLambda 0-1 diversifies near-duplicate results)
+  router.post('/retrieve', hybridAuth, validate(retrieveSchema), controller.retrieve);
 
   // POST /api/memory/search (Alias för retrieve, för att matcha din frontend)
-  router.post('/search', validate(retrieveSchema), controller.retrieve);
+  router.post('/search', hybridAuth, validate(retrieveSchema), controller.retrieve);
 
   // POST /api/memory/clear
-  router.post('/clear', validate(clearSchema), controller.clear);
+  router.post('/clear', hybridAuth, validate(clearSchema), controller.clear);
 
   return router;
 };
@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { OntologyController } from '../controllers/ontologyController';
+import { hybridAuth } from '../middleware/hybridAuth';
+
+const router = Router();
+const controller = new OntologyController();
+
+/**
+ * GET /api/ontology
+ * The ontology applied to graph extraction (custom, or the built-in default)
+ */
+router.get('/', hybridAuth, controller.get.bind(controller));
+
+/**
+ * PUT /api/ontology
+ * Replace the user's ontology
+ * 
+ * Body:
+ * - entityTypes: [{ name: string, synonyms?: string[] }] (required)
+ * - predicates: [{ name: string, synonyms?: string[] }] (required)
+ * - strict: boolean (default: true) - Drop off-ontology entities/relationships
+ *   instead of keeping them
+ * 
+ * Labels are stored as UPPER_SNAKE_CASE; synonyms are mapped onto their
+ * canonical name during extraction (e.g. PURCHASED -> BOUGHT).
+ * Applies to memories ingested afterwards.
+ */
+router.put('/', hybridAuth, controller.update.bind(controller));
+
+/**
+ * DELETE /api/ontology
+ * Remove the custom ontology and fall back to the built-in default
+ */
+router.delete('/', hybridAuth, controller.reset.bind(controller));
+
+export default router;
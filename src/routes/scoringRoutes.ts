@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { ScoringController } from '../controllers/scoringController';
+import { hybridAuth } from '../middleware/hybridAuth';
+
+const router = Router();
+const controller = new ScoringController();
+
+/**
+ * GET /api/scoring
+ * The user's memory ranking settings, the effective weights/half-life and
+ * the built-in profiles
+ */
+router.get('/', hybridAuth, controller.get.bind(controller));
+
+/**
+ * PUT /api/scoring
+ * Store the user's scoring profile
+ * 
+ * Body:
+ * - profile: 'default' | 'chat-recent' | 'knowledge-base' | 'long-horizon' (default: 'default')
+ *   default follows the server's WEIGHT_* settings with a 24h half-life; chat-recent
+ *   favours the last hours (6h), knowledge-base relevance (30d), long-horizon
+ *   importance over months (180d)
+ * - weights: { similarity?, recency?, importance? } (optional, each 0-1) - replace
+ *   individual profile weights
+ * - halfLifeHours: number (optional) - replace the profile's recency half-life
+ * 
+ * Applies to /api/memory/retrieve and GraphRAG `rerank: "blend"` unless a request
+ * names another profile (`scoringProfile`) or passes its own `scoring` adjustments.
+ */
+router.put('/', hybridAuth, controller.update.bind(controller));
+
+/**
+ * DELETE /api/scoring
+ * Remove stored settings and fall back to the 'default' profile
+ */
+router.delete('/', hybridAuth, controller.reset.bind(controller));
+
+export default router;
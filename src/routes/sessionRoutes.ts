@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { SessionController } from '../controllers/sessionController';
+import { hybridAuth } from '../middleware/hybridAuth';
 
 export const sessionRoutes = (controller: SessionController) => {
   const router = Router();
-  router.get('/sessions/:sessionId', controller.getSession);
+  // GET /api/session/sessions/:sessionId?vaultId= (omitted = the user's default space)
+  router.get('/sessions/:sessionId', hybridAuth, controller.getSession);
   return router;
 };
@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { VaultController } from '../controllers/vaultController';
+import { hybridAuth } from '../middleware/hybridAuth';
+
+const router = Router();
+const controller = new VaultController();
+
+/**
+ * GET /api/vaults
+ * List the authenticated user's vaults (with memory counts)
+ */
+router.get('/', hybridAuth, controller.list.bind(controller));
+
+/**
+ * POST /api/vaults
+ * Create a vault
+ * 
+ * Body:
+ * - name: string (required, unique per user)
+ * - description: string (optional)
+ */
+router.post('/', hybridAuth, controller.create.bind(controller));
+
+/**
+ * GET /api/vaults/:vaultId
+ * Get a single vault
+ */
+router.get('/:vaultId', hybridAuth, controller.get.bind(controller));
+
+/**
+ * PUT /api/vaults/:vaultId
+ * Rename a vault or change its description
+ */
+router.put('/:vaultId', hybridAuth, controller.update.bind(controller));
+
+/**
+ * DELETE /api/vaults/:vaultId
+ * Soft-delete a vault along with its memories, entities and relationships
+ */
+router.delete('/:vaultId', hybridAuth, controller.remove.bind(controller));
+
+export default router;
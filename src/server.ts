@@ -2,14 +2,17 @@ import { createServer } from 'http';
 import { createApp } from './app';
 import { env, logger, prisma } from './config';
 import { getEmbeddingProvider } from './services/embeddings';
+import { MemoryService } from './services/memoryService';
+import { PrismaMemoryRepository } from './repositories/memoryRepository';
+import { ScoringProfileService } from './services/scoringProfileService';
 import { CronScheduler } from './config/cron';
+import { accessRecorder } from './services/accessRecorder';
 
 const bootstrap = async () => {
   const embeddingProvider = getEmbeddingProvider();
 
-  // Note: Using null for memoryService since we now use GraphRAG architecture
-  // with direct Prisma calls in controllers/services
-  const app = createApp({ memoryService: null as any, embeddingProvider });
+  const memoryService = new MemoryService(new PrismaMemoryRepository(), embeddingProvider, ScoringProfileService);
+  const app = createApp({ memoryService, embeddingProvider });
   const server = createServer(app);
 
   // Initialize cron jobs (consolidation, pruning, health checks)
@@ -29,6 +32,7 @@ bootstrap().catch((err) => {
 process.on('SIGINT', async () => {
   logger.info('Shutting down gracefully...');
   CronScheduler.stop();
+  await accessRecorder.flush();
   await prisma.$disconnect();
   process.exit(0);
 });
@@ -36,6 +40,7 @@ process.on('SIGINT', async () => {
 process.on('SIGTERM', async () => {
   logger.info('Shutting down gracefully...');
   CronScheduler.stop();
+  await accessRecorder.flush();
   await prisma.$disconnect();
   process.exit(0);
 });
@@ -0,0 +1,146 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { env } from '../config';
+import { ReinforcementParams, reinforcedImportance } from '../utils/reinforcement';
+
+export type AccessKind = 'memory' | 'entity';
+
+export interface AccessState {
+  id: string;
+  importance: number;
+  lastAccessedAt: Date;
+}
+
+export interface AccessUpdate {
+  id: string;
+  importance: number;
+  accessedAt: Date;
+}
+
+/**
+ * Where access state is read from and written to (Prisma in production, a fake in tests)
+ */
+export interface AccessStore {
+  load(kind: AccessKind, ids: string[]): Promise<AccessState[]>;
+  save(kind: AccessKind, updates: AccessUpdate[]): Promise<void>;
+}
+
+// Memory and Entity name their importance column differently
+const TABLES: Record<AccessKind, { table: Prisma.Sql; importance: Prisma.Sql }> = {
+  memory: { table: Prisma.raw('"Memory"'), importance: Prisma.raw('"importanceScore"') },
+  entity: { table: Prisma.raw('"Entity"'), importance: Prisma.raw('importance') }
+};
+
+export class PrismaAccessStore implements AccessStore {
+  async load(kind: AccessKind, ids: string[]): Promise<AccessState[]> {
+    const { table, importance } = TABLES[kind];
+    return prisma.$queryRaw<AccessState[]>`
+      SELECT id, ${importance} AS importance, "lastAccessedAt"
+      FROM ${table}
+      WHERE id = ANY(${ids}::text[]) AND "isDeleted" = false
+    `;
+  }
+
+  async save(kind: AccessKind, updates: AccessUpdate[]): Promise<void> {
+    if (updates.length === 0) return;
+    const { table, importance } = TABLES[kind];
+    // One statement per batch; the guard keeps a slower, older flush from winding time back
+    await prisma.$executeRaw`
+      UPDATE ${table} AS t
+      SET ${importance} = u.importance, "lastAccessedAt" = u."accessedAt"
+      FROM unnest(
+        ${updates.map((u) => u.id)}::text[],
+        ${updates.map((u) => u.importance)}::float8[],
+        ${updates.map((u) => u.accessedAt)}::timestamp[]
+      ) AS u(id, importance, "accessedAt")
+      WHERE t.id = u.id AND t."lastAccessedAt" < u."accessedAt"
+    `;
+  }
+}
+
+export interface AccessRecorderOptions extends ReinforcementParams {
+  flushIntervalMs: number;
+}
+
+/**
+ * AccessRecorder - Records which memories and entities retrieval returned
+ *
+ * Accesses are buffered in memory and written in one batch per kind after
+ * flushIntervalMs, off the request path. Each flush moves lastAccessedAt forward
+ * and reinforces importance (see utils/reinforcement), so memories that keep being
+ * recalled rank higher and stay above the pruning threshold.
+ */
+export class AccessRecorder {
+  private pending: Record<AccessKind, Map<string, Date>> = { memory: new Map(), entity: new Map() };
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<void> = Promise.resolve();
+
+  constructor(
+    private store: AccessStore = new PrismaAccessStore(),
+    private options: AccessRecorderOptions = {
+      flushIntervalMs: env.access.flushIntervalMs,
+      rate: env.access.reinforcementRate,
+      spacingHours: env.access.spacingHours
+    }
+  ) {}
+
+  /**
+   * Note an access; returns immediately, the write happens on the next flush
+   */
+  record(kind: AccessKind, ids: string[], accessedAt: Date = new Date()): void {
+    if (ids.length === 0) return;
+    for (const id of ids) {
+      this.pending[kind].set(id, accessedAt);
+    }
+    if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.options.flushIntervalMs);
+      this.timer.unref(); // Never keeps the process alive; shutdown flushes explicitly
+    }
+  }
+
+  /**
+   * Write everything recorded so far. Failures are logged, not thrown: access
+   * tracking must never fail a retrieval.
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const batch = this.pending;
+    this.pending = { memory: new Map(), entity: new Map() };
+
+    // Flushes run one after another so two batches never race on the same rows
+    this.inFlight = this.inFlight.then(async () => {
+      for (const kind of Object.keys(batch) as AccessKind[]) {
+        if (batch[kind].size === 0) continue;
+        try {
+          await this.apply(kind, batch[kind]);
+        } catch (error) {
+          logger.warn('Failed to record access', { kind, count: batch[kind].size, error: String(error) });
+        }
+      }
+    });
+    return this.inFlight;
+  }
+
+  private async apply(kind: AccessKind, accesses: Map<string, Date>): Promise<void> {
+    const rows = await this.store.load(kind, [...accesses.keys()]);
+    const updates = rows
+      .filter((row) => accesses.get(row.id)! > row.lastAccessedAt)
+      .map((row) => {
+        const accessedAt = accesses.get(row.id)!;
+        return {
+          id: row.id,
+          importance: reinforcedImportance(row.importance, row.lastAccessedAt, accessedAt, this.options),
+          accessedAt
+        };
+      });
+    await this.store.save(kind, updates);
+  }
+}
+
+// Shared by the API process; server shutdown flushes it
+export const accessRecorder = new AccessRecorder();
@@ -14,13 +14,13 @@ import { prisma } from '../config/prisma';
 import { logger } from '../config/logger';
 import { CostGuard } from './hybridCostGuard';
 import { UserContext } from '../types/billing';
-import OpenAI from 'openai';
-import { env } from '../config';
-
-const openai = new OpenAI({ apiKey: env.openAiApiKey });
+import { getEmbeddingProvider } from './embeddings';
+import { getLlmProvider } from './llm';
+import { LlmUsage } from './llm/LlmProvider';
 
 interface ConsolidationResult {
   userId: string;
+  vaultId: string | null;
   memoriesProcessed: number;
   entitiesUpdated: number;
   coreFacts: string[];
@@ -46,10 +46,11 @@ export class ConsolidationService {
    * Run consolidation for a specific user
    * 
    * @param userId - User to consolidate memories for
+   * @param vaultId - Vault to consolidate (null = the user's default space)
    * @returns Consolidation result
    */
-  static async consolidateUser(userId: string): Promise<ConsolidationResult> {
-    logger.info('Starting consolidation cycle', { userId });
+  static async consolidateUser(userId: string, vaultId: string | null = null): Promise<ConsolidationResult> {
+    logger.info('Starting consolidation cycle', { userId, vaultId });
 
     try {
       // Get user context for cost guard
@@ -61,6 +62,7 @@ export class ConsolidationService {
       if (!user || !user.billing) {
         return {
           userId,
+          vaultId,
           memoriesProcessed: 0,
           entitiesUpdated: 0,
           coreFacts: [],
@@ -82,6 +84,7 @@ export class ConsolidationService {
         logger.info('Skipping consolidation for RapidAPI user', { userId });
         return {
           userId,
+          vaultId,
           memoriesProcessed: 0,
           entitiesUpdated: 0,
           coreFacts: [],
@@ -91,8 +94,22 @@ export class ConsolidationService {
         };
       }
 
+      // Consolidation needs an LLM; without one (e.g. embeddings-only setups) it is skipped
+      if (!getLlmProvider().isEnabled()) {
+        return {
+          userId,
+          vaultId,
+          memoriesProcessed: 0,
+          entitiesUpdated: 0,
+          coreFacts: [],
+          cost: 0,
+          skipped: true,
+          reason: 'No LLM configured for consolidation'
+        };
+      }
+
       // Fetch unconsolidated memories
-      const memories = await this.fetchUnconsolidatedMemories(userId);
+      const memories = await this.fetchUnconsolidatedMemories(userId, vaultId);
 
       if (memories.length < this.MIN_MEMORIES_FOR_CONSOLIDATION) {
         logger.info('Not enough memories to consolidate', { 
@@ -102,6 +119,7 @@ export class ConsolidationService {
         });
         return {
           userId,
+          vaultId,
           memoriesProcessed: 0,
           entitiesUpdated: 0,
           coreFacts: [],
@@ -115,8 +133,8 @@ export class ConsolidationService {
       const estimatedTokens = memories.length * this.ESTIMATED_TOKENS_PER_MEMORY;
       const estimatedCost = CostGuard.calculateEstimatedCost(
         estimatedTokens,
-        false, // No embedding generation
-        true   // Complex LLM task (summarization)
+        true, // Updated entities are re-embedded
+        true  // Complex LLM task (summarization)
       );
 
       logger.info('Estimated consolidation cost', { 
@@ -139,6 +157,7 @@ export class ConsolidationService {
           });
           return {
             userId,
+            vaultId,
             memoriesProcessed: 0,
             entitiesUpdated: 0,
             coreFacts: [],
@@ -151,6 +170,7 @@ export class ConsolidationService {
         logger.error('Cost guard check failed', { userId, error: error.message });
         return {
           userId,
+          vaultId,
           memoriesProcessed: 0,
           entitiesUpdated: 0,
           coreFacts: [],
@@ -170,7 +190,7 @@ export class ConsolidationService {
       });
 
       // UPDATE: Apply facts to entities
-      const entitiesUpdated = await this.applyFactsToEntities(userId, coreFacts);
+      const entitiesUpdated = await this.applyFactsToEntities(userId, vaultId, coreFacts);
 
       // MARK: Flag memories as consolidated
       await this.markAsConsolidated(memories.map(m => m.id));
@@ -178,7 +198,7 @@ export class ConsolidationService {
       // DEDUCT: Charge for the consolidation
       const actualCost = CostGuard.calculateEstimatedCost(
         usage?.total_tokens || estimatedTokens,
-        false,
+        entitiesUpdated > 0,
         true
       );
 
@@ -193,6 +213,7 @@ export class ConsolidationService {
 
       return {
         userId,
+        vaultId,
         memoriesProcessed: memories.length,
         entitiesUpdated,
         coreFacts: coreFacts.map(f => f.fact),
@@ -213,13 +234,14 @@ export class ConsolidationService {
   /**
    * Fetch unconsolidated memories from the last 24 hours
    */
-  private static async fetchUnconsolidatedMemories(userId: string) {
+  private static async fetchUnconsolidatedMemories(userId: string, vaultId: string | null) {
     const cutoffDate = new Date();
     cutoffDate.setHours(cutoffDate.getHours() - this.CONSOLIDATION_WINDOW_HOURS);
 
     return prisma.memory.findMany({
       where: {
         userId,
+        vaultId,
         isConsolidated: false,
         isDeleted: false,
         createdAt: {
@@ -245,7 +267,7 @@ export class ConsolidationService {
   private static async extractCoreFacts(
     userId: string, 
     memories: Array<{ id: string; text: string; importanceScore: number }>
-  ): Promise<{ coreFacts: CoreFact[]; usage: any }> {
+  ): Promise<{ coreFacts: CoreFact[]; usage: LlmUsage | null }> {
     const memoryTexts = memories.map((m, idx) => 
       `[${idx + 1}] (importance: ${m.importanceScore.toFixed(2)}) ${m.text}`
     ).join('\n');
@@ -277,23 +299,21 @@ ${memoryTexts}
 Extract lasting facts about entities. Focus on important information (importance > 0.6).`;
 
     try {
-      const response = await openai.chat.completions.create({
-        model: env.llmModel,
+      const { content, usage } = await getLlmProvider().complete({
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
         ],
         temperature: 0.3,
-        response_format: { type: 'json_object' }
+        json: true
       });
 
-      const content = response.choices[0].message.content || '{"facts": []}';
       const parsed = JSON.parse(content);
       const coreFacts: CoreFact[] = parsed.facts || parsed.coreFacts || parsed;
 
       return {
         coreFacts: Array.isArray(coreFacts) ? coreFacts : [],
-        usage: response.usage
+        usage
       };
     } catch (error: any) {
       logger.error('Failed to extract core facts', { 
@@ -309,9 +329,10 @@ Extract lasting facts about entities. Focus on important information (importance
    */
   private static async applyFactsToEntities(
     userId: string, 
+    vaultId: string | null,
     coreFacts: CoreFact[]
   ): Promise<number> {
-    let updatedCount = 0;
+    const updated = new Map<string, { name: string; type: string; description: string }>();
 
     for (const fact of coreFacts) {
       try {
@@ -319,13 +340,20 @@ Extract lasting facts about entities. Focus on important information (importance
         const entity = await prisma.entity.findFirst({
           where: {
             userId,
+            vaultId,
             name: fact.entityName,
             type: fact.entityType,
             isDeleted: false
           }
         });
 
-        if (entity) {
+        if (entity?.isManual) {
+          // The user curated this entity; consolidation doesn't rewrite it
+          logger.debug('Entity edited manually - skipping fact', {
+            userId,
+            entityName: fact.entityName
+          });
+        } else if (entity) {
           // Update existing entity description
           const currentDesc = entity.description || '';
           const newDesc = this.mergeDescriptions(currentDesc, fact.fact);
@@ -340,7 +368,7 @@ Extract lasting facts about entities. Focus on important information (importance
             }
           });
 
-          updatedCount++;
+          updated.set(entity.id, { name: entity.name, type: entity.type, description: newDesc });
           logger.debug('Updated entity with consolidation fact', { 
             userId,
             entityName: fact.entityName,
@@ -362,7 +390,49 @@ Extract lasting facts about entities. Focus on important information (importance
       }
     }
 
-    return updatedCount;
+    await this.reembedEntities(userId, updated);
+
+    return updated.size;
+  }
+
+  /**
+   * Refresh embeddings of entities whose description changed (one batched provider call)
+   * Best effort: a failure leaves the previous embedding in place.
+   */
+  private static async reembedEntities(
+    userId: string,
+    entities: Map<string, { name: string; type: string; description: string }>
+  ): Promise<void> {
+    const embeddingProvider = getEmbeddingProvider();
+    if (entities.size === 0 || !embeddingProvider.isEnabled()) return;
+
+    const ids = [...entities.keys()];
+
+    try {
+      const embeddings = await embeddingProvider.generateEmbeddings(
+        ids.map(id => {
+          const e = entities.get(id)!;
+          return `${e.name} (${e.type}): ${e.description}`;
+        })
+      );
+
+      await prisma.$transaction(
+        ids.map((id, i) => prisma.$executeRaw`
+          UPDATE "Entity"
+          SET
+            embedding = ${`[${embeddings[i].join(',')}]`}::vector,
+            "embeddingModel" = ${embeddingProvider.model},
+            "embeddingDimensions" = ${embeddings[i].length}
+          WHERE id = ${id}
+        `)
+      );
+    } catch (error: any) {
+      logger.error('Failed to re-embed consolidated entities', {
+        userId,
+        count: ids.length,
+        error: error.message
+      });
+    }
   }
 
   /**
@@ -400,15 +470,15 @@ Extract lasting facts about entities. Focus on important information (importance
   }
 
   /**
-   * Run consolidation for all eligible users
+   * Run consolidation for all eligible users (each vault is consolidated separately)
    * (Called by cron job)
    */
   static async consolidateAllUsers(): Promise<ConsolidationResult[]> {
     logger.info('Starting batch consolidation for all users');
 
-    // Find users with unconsolidated memories
+    // Find user vaults with unconsolidated memories
     const usersWithMemories = await prisma.memory.groupBy({
-      by: ['userId'],
+      by: ['userId', 'vaultId'],
       where: {
         isConsolidated: false,
         isDeleted: false,
@@ -428,18 +498,19 @@ Extract lasting facts about entities. Focus on important information (importance
       }
     });
 
-    logger.info(`Found ${usersWithMemories.length} users eligible for consolidation`);
+    logger.info(`Found ${usersWithMemories.length} user vaults eligible for consolidation`);
 
     const results: ConsolidationResult[] = [];
 
-    for (const { userId } of usersWithMemories) {
+    for (const { userId, vaultId } of usersWithMemories) {
       try {
-        const result = await this.consolidateUser(userId);
+        const result = await this.consolidateUser(userId, vaultId);
         results.push(result);
       } catch (error: any) {
-        logger.error('User consolidation failed', { userId, error: error.message });
+        logger.error('User consolidation failed', { userId, vaultId, error: error.message });
         results.push({
           userId,
+          vaultId,
           memoriesProcessed: 0,
           entitiesUpdated: 0,
           coreFacts: [],
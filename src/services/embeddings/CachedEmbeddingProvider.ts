@@ -0,0 +1,159 @@
+import { createHash } from 'crypto';
+import { env, logger, redis } from '../../config';
+import { EmbeddingProvider } from './EmbeddingProvider';
+
+export interface EmbeddingCacheCounts {
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+export interface EmbeddingCacheStats {
+  model: string;
+  ttlSeconds: number;
+  process: EmbeddingCacheCounts; // This process since startup
+  total: EmbeddingCacheCounts; // All processes (API + workers), from Redis
+}
+
+/**
+ * Minimal key/value surface shared by ioredis and the Upstash REST client
+ */
+export interface EmbeddingCacheStore {
+  mget(...keys: string[]): Promise<Array<unknown>>;
+  setex(key: string, seconds: number, value: string): Promise<unknown>;
+  incrby(key: string, increment: number): Promise<unknown>;
+}
+
+const METRIC_HITS_KEY = 'embcache:metrics:hits';
+const METRIC_MISSES_KEY = 'embcache:metrics:misses';
+
+const toCounts = (hits: number, misses: number): EmbeddingCacheCounts => ({
+  hits,
+  misses,
+  hitRate: hits + misses > 0 ? hits / (hits + misses) : 0
+});
+
+// Vectors are stored as base64 float32 (pgvector keeps float4 anyway), ~4x smaller than JSON
+const encode = (embedding: number[]): string =>
+  Buffer.from(new Float32Array(embedding).buffer).toString('base64');
+
+const decode = (value: string): number[] => {
+  const buffer = Buffer.from(value, 'base64');
+  return Array.from(new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4));
+};
+
+/**
+ * CachedEmbeddingProvider - Redis cache in front of any EmbeddingProvider
+ *
+ * Keyed by model + SHA-256 of the text, so switching models never serves stale vectors.
+ * Cache failures are logged and fall through to the provider.
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private provider: EmbeddingProvider,
+    private store: EmbeddingCacheStore = redis,
+    private ttlSeconds = env.embeddingCache.ttlSeconds
+  ) {}
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  isEnabled(): boolean {
+    return this.provider.isEnabled();
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    return embedding;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const keys = texts.map((text) => this.cacheKey(text));
+    const cached = await this.readCache(keys);
+
+    const missing = texts
+      .map((text, i) => ({ text, i }))
+      .filter(({ i }) => cached[i] === null);
+
+    this.recordMetrics(texts.length - missing.length, missing.length);
+
+    if (missing.length === 0) {
+      return cached as number[][];
+    }
+
+    // Identical texts within one call only need one provider round trip
+    const uniqueTexts = [...new Set(missing.map((m) => m.text))];
+    const fresh = await this.provider.generateEmbeddings(uniqueTexts);
+    const byText = new Map(uniqueTexts.map((text, i) => [text, fresh[i]]));
+
+    const result = [...cached];
+    missing.forEach(({ text, i }) => {
+      result[i] = byText.get(text)!;
+    });
+
+    await this.writeCache(uniqueTexts.map((text) => [this.cacheKey(text), byText.get(text)!]));
+
+    return result as number[][];
+  }
+
+  async getStats(): Promise<EmbeddingCacheStats> {
+    let total = toCounts(0, 0);
+    try {
+      const [hits, misses] = await this.store.mget(METRIC_HITS_KEY, METRIC_MISSES_KEY);
+      total = toCounts(Number(hits ?? 0), Number(misses ?? 0));
+    } catch (error) {
+      logger.warn('Failed to read embedding cache metrics', { error: String(error) });
+    }
+
+    return {
+      model: this.model,
+      ttlSeconds: this.ttlSeconds,
+      process: toCounts(this.hits, this.misses),
+      total
+    };
+  }
+
+  private cacheKey(text: string): string {
+    const hash = createHash('sha256').update(text).digest('hex');
+    return `embcache:${this.model}:${hash}`;
+  }
+
+  private async readCache(keys: string[]): Promise<Array<number[] | null>> {
+    try {
+      const values = await this.store.mget(...keys);
+      return values.map((value) => (typeof value === 'string' && value.length > 0 ? decode(value) : null));
+    } catch (error) {
+      logger.warn('Embedding cache read failed', { error: String(error) });
+      return keys.map(() => null);
+    }
+  }
+
+  private async writeCache(entries: Array<[string, number[]]>): Promise<void> {
+    try {
+      await Promise.all(
+        entries
+          .filter(([, embedding]) => embedding.length > 0)
+          .map(([key, embedding]) => this.store.setex(key, this.ttlSeconds, encode(embedding)))
+      );
+    } catch (error) {
+      logger.warn('Embedding cache write failed', { error: String(error) });
+    }
+  }
+
+  private recordMetrics(hits: number, misses: number): void {
+    this.hits += hits;
+    this.misses += misses;
+
+    // Shared counters are best effort and never block the embedding path
+    Promise.all([
+      hits > 0 ? this.store.incrby(METRIC_HITS_KEY, hits) : null,
+      misses > 0 ? this.store.incrby(METRIC_MISSES_KEY, misses) : null
+    ]).catch((error) => logger.warn('Failed to record embedding cache metrics', { error: String(error) }));
+  }
+}
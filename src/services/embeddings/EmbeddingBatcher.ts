@@ -0,0 +1,71 @@
+import { env } from '../../config/env';
+import { EmbeddingProvider } from './EmbeddingProvider';
+
+interface PendingEmbedding {
+  text: string;
+  resolve: (embedding: number[]) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * EmbeddingBatcher - Coalesces concurrent generateEmbedding() calls
+ *
+ * Wraps a provider so that texts requested within `windowMs` of each other
+ * (e.g. by concurrently running worker jobs) go out as one batched provider call.
+ */
+export class EmbeddingBatcher implements EmbeddingProvider {
+  private pending: PendingEmbedding[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private provider: EmbeddingProvider,
+    private maxBatchSize = env.embeddingBatch.maxItems,
+    private windowMs = 25
+  ) {}
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  isEnabled(): boolean {
+    return this.provider.isEnabled();
+  }
+
+  generateEmbedding(text: string): Promise<number[]> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ text, resolve, reject });
+
+      if (this.pending.length >= this.maxBatchSize) {
+        void this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => void this.flush(), this.windowMs);
+      }
+    });
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map((text) => this.generateEmbedding(text)));
+  }
+
+  private async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const batch = this.pending.splice(0, this.maxBatchSize);
+    if (batch.length === 0) return;
+
+    // Anything left over (more than one batch queued) goes in the next call
+    if (this.pending.length > 0) {
+      this.timer = setTimeout(() => void this.flush(), 0);
+    }
+
+    try {
+      const embeddings = await this.provider.generateEmbeddings(batch.map((p) => p.text));
+      batch.forEach((p, i) => p.resolve(embeddings[i]));
+    } catch (error) {
+      batch.forEach((p) => p.reject(error));
+    }
+  }
+}
@@ -1,4 +1,8 @@
 export interface EmbeddingProvider {
+  // Identifies the embedding space (model + dimensions); vectors from different models aren't comparable
+  readonly model: string;
   generateEmbedding(text: string): Promise<number[]>;
+  // Batched variant; results are in input order
+  generateEmbeddings(texts: string[]): Promise<number[][]>;
   isEnabled(): boolean;
 }
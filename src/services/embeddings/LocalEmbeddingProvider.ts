@@ -0,0 +1,79 @@
+import { env } from '../../config';
+import { EmbeddingProvider } from './EmbeddingProvider';
+
+// Matches the vector(768) columns
+export const LOCAL_EMBEDDING_DIMENSIONS = 768;
+
+/**
+ * FNV-1a 32-bit hash (seeded) - stable across processes and platforms
+ */
+const fnv1a = (value: string, seed = 0x811c9dc5): number => {
+  let hash = seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+/**
+ * Word unigrams and bigrams, plus character trigrams so that
+ * inflections and typos ("embedding" / "embeddings") still overlap
+ */
+const extractFeatures = (text: string): Map<string, number> => {
+  const features = new Map<string, number>();
+  const add = (feature: string, weight: number) =>
+    features.set(feature, (features.get(feature) ?? 0) + weight);
+
+  const tokens = tokenize(text);
+  tokens.forEach((token, i) => {
+    add(`w:${token}`, 1);
+    if (i > 0) add(`b:${tokens[i - 1]}_${token}`, 0.5);
+
+    const padded = `^${token}$`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.slice(j, j + 3)}`, 0.25);
+    }
+  });
+
+  return features;
+};
+
+/**
+ * LocalEmbeddingProvider - Deterministic feature-hashing embeddings, no network
+ *
+ * Not semantically strong, but stable and lexically meaningful: texts sharing words
+ * land close together. Meant for CI, local development and offline demos.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model = `local/feature-hashing@${LOCAL_EMBEDDING_DIMENSIONS}`;
+
+  isEnabled(): boolean {
+    return env.embeddingProvider === 'local' && env.embeddingsEnabled;
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const vector = new Array<number>(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+
+    extractFeatures(text).forEach((count, feature) => {
+      const index = fnv1a(feature) % LOCAL_EMBEDDING_DIMENSIONS;
+      const sign = fnv1a(feature, 0x9e3779b9) & 1 ? 1 : -1; // Second hash decorrelates collisions
+      vector[index] += sign * Math.log1p(count);
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    if (norm === 0) {
+      // No word characters: fixed unit vector (a zero vector has no cosine distance)
+      vector[0] = 1;
+      return vector;
+    }
+    return vector.map((v) => v / norm);
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map((text) => this.generateEmbedding(text)));
+  }
+}
@@ -1,7 +1,9 @@
 import { env, logger } from '../../config';
 import { EmbeddingProvider } from './EmbeddingProvider';
+import { splitIntoBatches } from './batching';
 
 export class OllamaProvider implements EmbeddingProvider {
+  readonly model = `ollama/${env.ollamaModel}`;
   private ollamaUrl = env.ollamaUrl;
   private ollamaModel = env.ollamaModel;
 
@@ -10,19 +12,33 @@ export class OllamaProvider implements EmbeddingProvider {
   }
 
   async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    return embedding;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
     if (!this.isEnabled()) {
       throw new Error('Ollama embedding provider is not enabled.');
     }
 
+    const embeddings: number[][] = [];
+    for (const batch of splitIntoBatches(texts)) {
+      embeddings.push(...(await this.requestEmbeddings(batch)));
+    }
+    return embeddings;
+  }
+
+  private async requestEmbeddings(texts: string[]): Promise<number[][]> {
     try {
-      const response = await fetch(`${this.ollamaUrl}/api/embeddings`, {
+      // /api/embed accepts a list of inputs (the legacy /api/embeddings takes one prompt)
+      const response = await fetch(`${this.ollamaUrl}/api/embed`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           model: this.ollamaModel,
-          prompt: text
+          input: texts
         })
       });
 
@@ -31,13 +47,17 @@ export class OllamaProvider implements EmbeddingProvider {
       }
 
       const data = await response.json();
-      const embedding = data?.embedding;
+      const embeddings = data?.embeddings;
 
-      if (!embedding || !Array.isArray(embedding)) {
+      if (
+        !Array.isArray(embeddings) ||
+        embeddings.length !== texts.length ||
+        embeddings.some((embedding: unknown) => !Array.isArray(embedding))
+      ) {
         throw new Error('Invalid embedding response from Ollama');
       }
 
-      return embedding;
+      return embeddings;
     } catch (error) {
       logger.error('Ollama embedding error', { error: String(error) });
       throw new Error(`Failed to generate embedding using Ollama: ${error instanceof Error ? error.message : String(error)}`);
@@ -1,8 +1,11 @@
 import axios from 'axios';
 import { env, logger } from '../../config';
 import { EmbeddingProvider } from './EmbeddingProvider';
+import { splitIntoBatches } from './batching';
 
 export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  // Stored alongside every vector; changing model or dimensions makes existing rows stale
+  readonly model = `openai/${env.openAiEmbeddingModel}@${env.openAiEmbeddingDimensions}`;
   private apiKey?: string;
 
   constructor(apiKey?: string) {
@@ -14,17 +17,30 @@ export class OpenAIEmbeddingProvider implements EmbeddingProvider {
   }
 
   async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    return embedding;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
     if (!this.isEnabled()) {
       throw new Error('Embedding provider disabled');
     }
 
+    const embeddings: number[][] = [];
+    for (const batch of splitIntoBatches(texts)) {
+      embeddings.push(...(await this.requestEmbeddings(batch)));
+    }
+    return embeddings;
+  }
+
+  private async requestEmbeddings(texts: string[]): Promise<number[][]> {
     try {
       const response = await axios.post(
         'https://api.openai.com/v1/embeddings',
         {
-          input: text,
-          model: 'text-embedding-3-small',
-          dimensions: 768
+          input: texts,
+          model: env.openAiEmbeddingModel,
+          dimensions: env.openAiEmbeddingDimensions
         },
         {
           headers: {
@@ -35,11 +51,11 @@ export class OpenAIEmbeddingProvider implements EmbeddingProvider {
         }
       );
 
-      const embedding = response.data?.data?.[0]?.embedding;
-      if (!embedding || !Array.isArray(embedding)) {
+      const data: Array<{ index: number; embedding: number[] }> = response.data?.data ?? [];
+      if (data.length !== texts.length || data.some((d) => !Array.isArray(d.embedding))) {
         throw new Error('Invalid embedding response');
       }
-      return embedding;
+      return [...data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
     } catch (error) {
       logger.error('OpenAI embedding error', { error: String(error) });
       throw new Error('Failed to generate embedding');
@@ -0,0 +1,30 @@
+import { env } from '../../config';
+
+export interface BatchLimits {
+  maxItems: number;
+  maxChars: number;
+}
+
+/**
+ * Split texts into consecutive request-sized batches.
+ * A single text longer than maxChars still gets a batch of its own.
+ */
+export const splitIntoBatches = (texts: string[], limits: BatchLimits = env.embeddingBatch): string[][] => {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  let currentChars = 0;
+
+  for (const text of texts) {
+    const full = current.length >= limits.maxItems || currentChars + text.length > limits.maxChars;
+    if (current.length > 0 && full) {
+      batches.push(current);
+      current = [];
+      currentChars = 0;
+    }
+    current.push(text);
+    currentChars += text.length;
+  }
+
+  if (current.length > 0) batches.push(current);
+  return batches;
+};
@@ -2,18 +2,50 @@ import { env } from '../../config';
 import { EmbeddingProvider } from './EmbeddingProvider';
 import { OllamaProvider } from './OllamaProvider';
 import { OpenAIEmbeddingProvider } from './OpenAIEmbeddingProvider';
+import { CachedEmbeddingProvider } from './CachedEmbeddingProvider';
+import { LocalEmbeddingProvider } from './LocalEmbeddingProvider';
 
 class NoOpEmbeddingProvider implements EmbeddingProvider {
+  readonly model = 'none';
   isEnabled(): boolean {
     return false;
   }
   generateEmbedding(): Promise<number[]> {
     return Promise.resolve([]);
   }
+  generateEmbeddings(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map(() => []));
+  }
 }
 
 let provider: EmbeddingProvider | null = null;
 
+/**
+ * Construct the configured provider (uncached, no enablement check)
+ */
+export function createEmbeddingProvider(name = env.embeddingProvider): EmbeddingProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider();
+    case 'ollama':
+      return new OllamaProvider();
+    case 'local':
+      return new LocalEmbeddingProvider();
+    default:
+      throw new Error(`Invalid embedding provider: ${name}`);
+  }
+}
+
+/**
+ * Construct the configured provider behind the Redis cache, when the cache applies
+ */
+export function createCachedEmbeddingProvider(name = env.embeddingProvider): EmbeddingProvider {
+  const uncached = createEmbeddingProvider(name);
+
+  // Local vectors are cheaper to compute than to fetch from Redis
+  return env.embeddingCache.enabled && name !== 'local' ? new CachedEmbeddingProvider(uncached) : uncached;
+}
+
 export function getEmbeddingProvider(): EmbeddingProvider {
   if (provider) {
     return provider;
@@ -24,16 +56,6 @@ export function getEmbeddingProvider(): EmbeddingProvider {
     return provider;
   }
 
-  switch (env.embeddingProvider) {
-    case 'openai':
-      provider = new OpenAIEmbeddingProvider();
-      break;
-    case 'ollama':
-      provider = new OllamaProvider();
-      break;
-    default:
-      throw new Error(`Invalid embedding provider: ${env.embeddingProvider}`);
-  }
-
+  provider = createCachedEmbeddingProvider();
   return provider;
 }
@@ -0,0 +1,438 @@
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { EntityResolutionJobData, entityResolutionQueue } from '../config/queue';
+import { ApiError } from '../types/errors';
+import {
+  MergeScore,
+  ResolutionEntity,
+  decideMerge,
+  normalizeEntityName,
+  pickCanonical,
+  scoreMerge,
+  typesCompatible
+} from '../utils/entityResolution';
+
+export interface ResolutionSummary {
+  entitiesChecked: number;
+  merged: number;
+  proposed: number;
+}
+
+export interface EntityResolutionStatus {
+  jobId: string;
+  state: string;
+  progress: number;
+  userId: string | null;
+  vaultId: string | null;
+  autoApply: boolean;
+  result: ResolutionSummary | null;
+  failedReason: string | null;
+}
+
+export interface MergeResult {
+  targetId: string;
+  sourceId: string;
+  relationshipsMoved: number; // Re-pointed from the source to the target, or restored on it
+  relationshipsDropped: number; // Soft-deleted: duplicates of a target edge, or self-loops after the merge
+  memoriesRepointed: number;
+}
+
+interface CandidateRow extends ResolutionEntity {
+  isManual: boolean;
+  embeddingScore: number;
+}
+
+// Nearest neighbours scored per entity
+const CANDIDATES_PER_ENTITY = 5;
+// Below this, even identical names can't reach the proposal threshold
+const MIN_EMBEDDING_SIMILARITY = 0.4;
+
+const GENERIC_TYPE_SQL = Prisma.sql`('CONCEPT', 'ENTITY', 'THING', 'OTHER', 'UNKNOWN')`;
+
+/**
+ * EntityResolutionService - Merges entities that name the same thing
+ *
+ * ("John", "John Doe", "J. Doe"). Candidates come from entity embeddings, are
+ * scored on name similarity and type compatibility, then either merged right
+ * away or recorded as EntityMergeCandidate rows for review. Merging re-points
+ * relationships, mentions and Memory.sourceEntityId, and keeps the merged-away name as
+ * an EntityAlias so ingestion maps it onto the surviving entity.
+ */
+export class EntityResolutionService {
+  /**
+   * Resolve the given entities (or every entity in the vault) against their neighbours
+   */
+  static async resolveEntities(
+    userId: string,
+    vaultId: string | null,
+    entityIds?: string[],
+    { autoApply = true }: { autoApply?: boolean } = {}
+  ): Promise<ResolutionSummary> {
+    const ids = entityIds ?? (
+      await prisma.entity.findMany({
+        where: { userId, vaultId, isDeleted: false },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true }
+      })
+    ).map((e) => e.id);
+
+    const summary: ResolutionSummary = { entitiesChecked: 0, merged: 0, proposed: 0 };
+    const mergedAway = new Set<string>();
+
+    for (const id of ids) {
+      if (mergedAway.has(id)) continue;
+
+      const entity = await prisma.entity.findFirst({
+        where: { id, userId, isDeleted: false },
+        select: { id: true, name: true, type: true, importance: true, createdAt: true, isManual: true }
+      });
+      if (!entity) continue;
+      summary.entitiesChecked++;
+
+      for (const candidate of await this.findCandidates(entity.id)) {
+        if (mergedAway.has(candidate.id) || !typesCompatible(entity.type, candidate.type)) continue;
+
+        const score = scoreMerge(entity.name, candidate.name, candidate.embeddingScore);
+        const decision = decideMerge(score);
+        if (decision === 'ignore') continue;
+
+        const { target, source } = pickCanonical<ResolutionEntity>(entity, candidate);
+
+        // Entities the user edited are only ever proposed, never merged automatically
+        if (decision === 'merge' && autoApply && !entity.isManual && !candidate.isManual) {
+          await this.mergeEntities(userId, target.id, source.id);
+          mergedAway.add(source.id);
+          summary.merged++;
+          if (source.id === entity.id) break; // This entity no longer exists
+        } else if (await this.recordCandidate(userId, vaultId, target.id, source.id, score)) {
+          summary.proposed++;
+        }
+      }
+    }
+
+    if (summary.merged > 0 || summary.proposed > 0) {
+      logger.info('Entity resolution finished', { userId, vaultId, ...summary });
+    }
+
+    return summary;
+  }
+
+  /**
+   * Merge `sourceId` into `targetId`. Nothing is hard-deleted: the source entity
+   * and the edges the target already has are soft-deleted.
+   */
+  static async mergeEntities(userId: string, targetId: string, sourceId: string): Promise<MergeResult> {
+    if (targetId === sourceId) {
+      throw new ApiError({ code: 'INVALID_MERGE', status: 400, message: 'Cannot merge an entity into itself' });
+    }
+
+    const [target, source] = await Promise.all([
+      prisma.entity.findFirst({ where: { id: targetId, userId, isDeleted: false } }),
+      prisma.entity.findFirst({ where: { id: sourceId, userId, isDeleted: false } })
+    ]);
+
+    if (!target || !source) {
+      throw new ApiError({ code: 'ENTITY_NOT_FOUND', status: 404, message: 'Entity not found' });
+    }
+    if (target.vaultId !== source.vaultId) {
+      throw new ApiError({ code: 'INVALID_MERGE', status: 400, message: 'Entities belong to different vaults' });
+    }
+
+    // The source's live edges with the source swapped for the target
+    const movedEdges = Prisma.sql`
+      SELECT
+        r.id, r."userId", r.predicate, r.confidence, r.weight,
+        CASE WHEN r."fromEntityId" = ${sourceId} THEN ${targetId} ELSE r."fromEntityId" END AS "fromEntityId",
+        CASE WHEN r."toEntityId" = ${sourceId} THEN ${targetId} ELSE r."toEntityId" END AS "toEntityId"
+      FROM "Relationship" r
+      WHERE (r."fromEntityId" = ${sourceId} OR r."toEntityId" = ${sourceId}) AND r."isDeleted" = false
+    `;
+
+    const result = await prisma.$transaction(async (tx) => {
+      // 1. A soft-deleted target edge the source still asserts comes back, unless the
+      //    user deleted it (isManual)
+      const restored = await tx.$executeRaw`
+        UPDATE "Relationship" t
+        SET "isDeleted" = false, confidence = GREATEST(t.confidence, m.confidence),
+          weight = GREATEST(t.weight, m.weight), "updatedAt" = NOW()
+        FROM (${movedEdges}) m
+        WHERE t."userId" = m."userId" AND t."fromEntityId" = m."fromEntityId" AND t."toEntityId" = m."toEntityId"
+          AND t.predicate = m.predicate AND t."isDeleted" = true AND t."isManual" = false
+          AND m."fromEntityId" <> m."toEntityId"
+      `;
+
+      // 2. Source edges the target already has (live or user-deleted), and the
+      //    self-loops "John Doe KNOWS J. Doe" would become, are soft-deleted
+      const superseded = await tx.$executeRaw`
+        UPDATE "Relationship" r
+        SET "isDeleted" = true, "updatedAt" = NOW()
+        FROM (${movedEdges}) m
+        WHERE r.id = m.id AND (
+          m."fromEntityId" = m."toEntityId" OR EXISTS (
+            SELECT 1 FROM "Relationship" t
+            WHERE t."userId" = m."userId" AND t."fromEntityId" = m."fromEntityId"
+              AND t."toEntityId" = m."toEntityId" AND t.predicate = m.predicate AND t.id <> m.id
+          )
+        )
+      `;
+
+      // 3. The rest are re-pointed
+      const moved = await tx.$executeRaw`
+        UPDATE "Relationship" r
+        SET "fromEntityId" = m."fromEntityId", "toEntityId" = m."toEntityId", "updatedAt" = NOW()
+        FROM (${movedEdges}) m
+        WHERE r.id = m.id
+      `;
+
+      // 4. Memories extracted from the source entity, and the ones it was extracted from
+      const memories = await tx.memory.updateMany({
+        where: { sourceEntityId: sourceId },
+        data: { sourceEntityId: targetId }
+      });
+      await tx.$executeRaw`
+        INSERT INTO "EntityMention" ("memoryId", "entityId", "createdAt")
+        SELECT "memoryId", ${targetId}, "createdAt" FROM "EntityMention" WHERE "entityId" = ${sourceId}
+        ON CONFLICT DO NOTHING
+      `;
+
+      // 5. The source's aliases, and its own name, now point at the target. The name
+      //    always becomes an alias: extracting it again must not land on the deleted source
+      await tx.entityAlias.updateMany({ where: { entityId: sourceId }, data: { entityId: targetId } });
+      await tx.entityAlias.createMany({
+        data: [{
+          userId,
+          vaultId: source.vaultId,
+          entityId: targetId,
+          alias: source.name,
+          normalizedAlias: normalizeEntityName(source.name),
+          type: source.type
+        }],
+        skipDuplicates: true
+      });
+
+      // 6. Keep the stronger signals, soft-delete the source and settle its merge proposals
+      await tx.entity.update({
+        where: { id: targetId },
+        data: {
+          description: target.description || source.description,
+          importance: Math.max(target.importance, source.importance),
+          confidence: Math.max(target.confidence, source.confidence),
+          isManual: target.isManual || source.isManual,
+          lastAccessedAt: target.lastAccessedAt > source.lastAccessedAt ? target.lastAccessedAt : source.lastAccessedAt
+        }
+      });
+      await tx.entity.update({ where: { id: sourceId }, data: { isDeleted: true } });
+      await tx.entityMergeCandidate.deleteMany({
+        where: { OR: [{ entityId: sourceId }, { candidateId: sourceId }] }
+      });
+
+      return {
+        targetId,
+        sourceId,
+        relationshipsMoved: moved + restored,
+        relationshipsDropped: superseded - restored,
+        memoriesRepointed: memories.count
+      };
+    });
+
+    logger.info('Entities merged', { userId, target: target.name, source: source.name, ...result });
+    return result;
+  }
+
+  /**
+   * Map extracted names onto existing entities through the alias table
+   *
+   * @returns normalized name + type -> entity ID, for aliases with a compatible type
+   */
+  static async lookupAliases(
+    userId: string,
+    vaultId: string | null,
+    entities: Array<{ name: string; type: string }>
+  ): Promise<Map<string, string>> {
+    const resolved = new Map<string, string>();
+    if (entities.length === 0) return resolved;
+
+    const aliases = await prisma.entityAlias.findMany({
+      where: {
+        userId,
+        vaultId,
+        normalizedAlias: { in: [...new Set(entities.map((e) => normalizeEntityName(e.name)))] },
+        entity: { isDeleted: false }
+      },
+      select: { normalizedAlias: true, type: true, entityId: true }
+    });
+
+    for (const entity of entities) {
+      const key = normalizeEntityName(entity.name);
+      const match =
+        aliases.find((a) => a.normalizedAlias === key && a.type === entity.type) ??
+        aliases.find((a) => a.normalizedAlias === key && typesCompatible(a.type, entity.type));
+      if (match) resolved.set(`${key}|${entity.type}`, match.entityId);
+    }
+
+    return resolved;
+  }
+
+  static async listCandidates(userId: string, vaultId: string | null, status: 'PENDING' | 'REJECTED' = 'PENDING') {
+    return prisma.entityMergeCandidate.findMany({
+      where: { userId, vaultId, status },
+      orderBy: { score: 'desc' },
+      include: {
+        entity: { select: { id: true, name: true, type: true, description: true } },
+        candidate: { select: { id: true, name: true, type: true, description: true } }
+      }
+    });
+  }
+
+  /**
+   * Accept a proposed merge (the candidate is merged into the entity)
+   */
+  static async acceptCandidate(userId: string, candidateId: string): Promise<MergeResult> {
+    const proposal = await this.getCandidate(userId, candidateId);
+    return this.mergeEntities(userId, proposal.entityId, proposal.candidateId);
+  }
+
+  /**
+   * Reject a proposed merge; the pair is not proposed again
+   */
+  static async rejectCandidate(userId: string, candidateId: string): Promise<void> {
+    await this.getCandidate(userId, candidateId);
+    await prisma.entityMergeCandidate.update({
+      where: { id: candidateId },
+      data: { status: 'REJECTED' }
+    });
+  }
+
+  static async enqueueBatch(data: EntityResolutionJobData): Promise<EntityResolutionStatus> {
+    const job = await entityResolutionQueue.add('resolve', data, { jobId: `resolve-${randomUUID()}` });
+    logger.info('Entity resolution job enqueued', { jobId: job.id, ...data });
+    return this.getBatchStatus(job.id!);
+  }
+
+  static async getBatchStatus(jobId: string): Promise<EntityResolutionStatus> {
+    const job = await entityResolutionQueue.getJob(jobId);
+    if (!job) {
+      throw new ApiError({
+        code: 'RESOLUTION_JOB_NOT_FOUND',
+        status: 404,
+        message: 'Entity resolution job not found'
+      });
+    }
+
+    return {
+      jobId,
+      state: await job.getState(),
+      progress: typeof job.progress === 'number' ? job.progress : 0,
+      userId: job.data.userId ?? null,
+      vaultId: job.data.vaultId ?? null,
+      autoApply: job.data.autoApply,
+      result: (job.returnvalue as ResolutionSummary | null) ?? null,
+      failedReason: job.failedReason ?? null
+    };
+  }
+
+  /**
+   * Executed by the worker: resolve one user/vault, or every space that has entities
+   */
+  static async runBatch(
+    data: EntityResolutionJobData,
+    onProgress: (progress: number) => Promise<void>
+  ): Promise<ResolutionSummary> {
+    const spaces = data.userId
+      ? [{ userId: data.userId, vaultId: data.vaultId ?? null }]
+      : await prisma.entity.findMany({
+          where: { isDeleted: false },
+          distinct: ['userId', 'vaultId'],
+          select: { userId: true, vaultId: true }
+        });
+
+    const total: ResolutionSummary = { entitiesChecked: 0, merged: 0, proposed: 0 };
+    for (let i = 0; i < spaces.length; i++) {
+      const summary = await this.resolveEntities(spaces[i].userId, spaces[i].vaultId, undefined, {
+        autoApply: data.autoApply
+      });
+      total.entitiesChecked += summary.entitiesChecked;
+      total.merged += summary.merged;
+      total.proposed += summary.proposed;
+      await onProgress(Math.round(((i + 1) / spaces.length) * 100));
+    }
+
+    return total;
+  }
+
+  /**
+   * Nearest entities of the same user/vault by embedding. Only vectors of the
+   * same model and dimensions are compared; the CASE keeps pgvector from ever
+   * seeing a dimension mismatch.
+   */
+  private static async findCandidates(entityId: string): Promise<CandidateRow[]> {
+    const rows = await prisma.$queryRaw<CandidateRow[]>`
+      SELECT * FROM (
+        SELECT
+          c.id, c.name, c.type, c.importance, c."createdAt", c."isManual",
+          CASE
+            WHEN c."embeddingModel" IS NOT DISTINCT FROM e."embeddingModel"
+              AND c."embeddingDimensions" = e."embeddingDimensions"
+            THEN 1 - (c.embedding <=> e.embedding)
+          END AS "embeddingScore"
+        FROM "Entity" e
+        JOIN "Entity" c ON
+          c."userId" = e."userId" AND
+          c."vaultId" IS NOT DISTINCT FROM e."vaultId" AND
+          c.id <> e.id AND
+          c."isDeleted" = false AND
+          c.embedding IS NOT NULL AND
+          (c.type = e.type OR c.type IN ${GENERIC_TYPE_SQL} OR e.type IN ${GENERIC_TYPE_SQL})
+        WHERE e.id = ${entityId} AND e.embedding IS NOT NULL
+      ) candidates
+      WHERE "embeddingScore" >= ${MIN_EMBEDDING_SIMILARITY}
+      ORDER BY "embeddingScore" DESC
+      LIMIT ${CANDIDATES_PER_ENTITY}
+    `;
+
+    return rows.map((row) => ({ ...row, embeddingScore: Number(row.embeddingScore) }));
+  }
+
+  /**
+   * @returns true when a new pending candidate was stored (rejected pairs stay rejected)
+   */
+  private static async recordCandidate(
+    userId: string,
+    vaultId: string | null,
+    entityId: string,
+    candidateId: string,
+    score: MergeScore
+  ): Promise<boolean> {
+    const existing = await prisma.entityMergeCandidate.findFirst({
+      where: {
+        OR: [
+          { entityId, candidateId },
+          { entityId: candidateId, candidateId: entityId }
+        ]
+      },
+      select: { id: true }
+    });
+    if (existing) return false;
+
+    await prisma.entityMergeCandidate.create({
+      data: { userId, vaultId, entityId, candidateId, ...score }
+    });
+    return true;
+  }
+
+  private static async getCandidate(userId: string, candidateId: string) {
+    const proposal = await prisma.entityMergeCandidate.findFirst({
+      where: { id: candidateId, userId }
+    });
+    if (!proposal) {
+      throw new ApiError({
+        code: 'MERGE_CANDIDATE_NOT_FOUND',
+        status: 404,
+        message: 'Merge candidate not found'
+      });
+    }
+    return proposal;
+  }
+}
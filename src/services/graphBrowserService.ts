@@ -0,0 +1,297 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { ApiError } from '../types/errors';
+import { normalizeLabel } from '../utils/ontology';
+
+export interface PageParams {
+  limit: number;
+  offset: number;
+}
+
+export interface Pagination extends PageParams {
+  total: number;
+  hasMore: boolean;
+}
+
+export interface Page<T> {
+  items: T[];
+  pagination: Pagination;
+}
+
+export interface EntityListQuery extends PageParams {
+  type?: string;
+  q?: string; // Case-insensitive match on name or alias
+  sort?: 'importance' | 'name' | 'recent';
+}
+
+export interface RelationshipListQuery extends PageParams {
+  predicate?: string;
+  entityId?: string; // Edges touching this entity
+}
+
+const toPage = <T>(items: T[], total: number, { limit, offset }: PageParams): Page<T> => ({
+  items,
+  pagination: { limit, offset, total, hasMore: offset + items.length < total }
+});
+
+// Prisma's client never returns the vector column, so a plain select is enough
+const entitySummary = {
+  id: true,
+  name: true,
+  type: true,
+  description: true,
+  importance: true,
+  confidence: true,
+  createdAt: true,
+  updatedAt: true,
+  lastAccessedAt: true
+} satisfies Prisma.EntitySelect;
+
+const entityRef = { id: true, name: true, type: true } satisfies Prisma.EntitySelect;
+
+const relationshipSummary = {
+  id: true,
+  fromEntityId: true,
+  toEntityId: true,
+  predicate: true,
+  confidence: true,
+  weight: true,
+  metadata: true,
+  createdAt: true,
+  updatedAt: true
+} satisfies Prisma.RelationshipSelect;
+
+const activeEdge = { isDeleted: false, fromEntity: { isDeleted: false }, toEntity: { isDeleted: false } };
+
+/**
+ * GraphBrowserService - Read access to the knowledge graph for UIs and debugging
+ *
+ * Everything is scoped to the user; entities and relationships never cross vaults.
+ */
+export class GraphBrowserService {
+  // Hard caps for neighborhood expansion, whatever the requested depth
+  private static readonly MAX_NEIGHBORHOOD_NODES = 1000;
+  private static readonly MAX_EDGES_PER_HOP = 5000;
+
+  static async listEntities(userId: string, vaultId: string | null, query: EntityListQuery) {
+    const q = query.q?.trim();
+    const where: Prisma.EntityWhereInput = {
+      userId,
+      vaultId,
+      isDeleted: false,
+      ...(query.type ? { type: normalizeLabel(query.type) } : {}),
+      ...(q
+        ? {
+            OR: [
+              { name: { contains: q, mode: 'insensitive' } },
+              { aliases: { some: { alias: { contains: q, mode: 'insensitive' } } } }
+            ]
+          }
+        : {})
+    };
+
+    const orderBy: Prisma.EntityOrderByWithRelationInput[] =
+      query.sort === 'name'
+        ? [{ name: 'asc' }, { id: 'asc' }]
+        : query.sort === 'recent'
+          ? [{ updatedAt: 'desc' }, { id: 'asc' }]
+          : [{ importance: 'desc' }, { name: 'asc' }, { id: 'asc' }];
+
+    const [entities, total] = await Promise.all([
+      prisma.entity.findMany({
+        where,
+        orderBy,
+        skip: query.offset,
+        take: query.limit,
+        select: {
+          ...entitySummary,
+          _count: {
+            select: {
+              outgoingEdges: { where: activeEdge },
+              incomingEdges: { where: activeEdge },
+              mentions: true
+            }
+          }
+        }
+      }),
+      prisma.entity.count({ where })
+    ]);
+
+    return toPage(
+      entities.map(({ _count, ...entity }) => ({
+        ...entity,
+        outgoingCount: _count.outgoingEdges,
+        incomingCount: _count.incomingEdges,
+        mentionCount: _count.mentions
+      })),
+      total,
+      query
+    );
+  }
+
+  /**
+   * One entity with its edges (both directions) and the memories it came from.
+   * `page` applies to the relationship and memory lists independently.
+   */
+  static async getEntity(userId: string, entityId: string, page: PageParams) {
+    const entity = await this.findEntity(userId, entityId, {
+      ...entitySummary,
+      vaultId: true,
+      aliases: { select: { alias: true, type: true }, orderBy: { alias: 'asc' } }
+    });
+
+    const edgeWhere: Prisma.RelationshipWhereInput = {
+      userId,
+      ...activeEdge,
+      OR: [{ fromEntityId: entityId }, { toEntityId: entityId }]
+    };
+    // Extraction provenance (mentions), plus memories consolidation derived from the entity
+    const memoryWhere: Prisma.MemoryWhereInput = {
+      userId,
+      isDeleted: false,
+      OR: [{ mentions: { some: { entityId } } }, { sourceEntityId: entityId }]
+    };
+
+    const [edges, edgeTotal, memories, memoryTotal] = await Promise.all([
+      prisma.relationship.findMany({
+        where: edgeWhere,
+        orderBy: [{ weight: 'desc' }, { updatedAt: 'desc' }, { id: 'asc' }],
+        skip: page.offset,
+        take: page.limit,
+        select: { ...relationshipSummary, fromEntity: { select: entityRef }, toEntity: { select: entityRef } }
+      }),
+      prisma.relationship.count({ where: edgeWhere }),
+      prisma.memory.findMany({
+        where: memoryWhere,
+        orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+        skip: page.offset,
+        take: page.limit,
+        select: {
+          id: true,
+          text: true,
+          metadata: true,
+          documentId: true,
+          chunkIndex: true,
+          importanceScore: true,
+          createdAt: true
+        }
+      }),
+      prisma.memory.count({ where: memoryWhere })
+    ]);
+
+    return {
+      entity,
+      relationships: toPage(
+        edges.map((edge) => ({ ...edge, direction: edge.fromEntityId === entityId ? 'outgoing' : 'incoming' })),
+        edgeTotal,
+        page
+      ),
+      memories: toPage(memories, memoryTotal, page)
+    };
+  }
+
+  static async listRelationships(userId: string, vaultId: string | null, query: RelationshipListQuery) {
+    const where: Prisma.RelationshipWhereInput = {
+      userId,
+      vaultId,
+      ...activeEdge,
+      ...(query.predicate ? { predicate: normalizeLabel(query.predicate) } : {}),
+      ...(query.entityId ? { OR: [{ fromEntityId: query.entityId }, { toEntityId: query.entityId }] } : {})
+    };
+
+    const [items, total] = await Promise.all([
+      prisma.relationship.findMany({
+        where,
+        orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
+        skip: query.offset,
+        take: query.limit,
+        select: { ...relationshipSummary, fromEntity: { select: entityRef }, toEntity: { select: entityRef } }
+      }),
+      prisma.relationship.count({ where })
+    ]);
+
+    return toPage(items, total, query);
+  }
+
+  /**
+   * k-hop neighborhood, following edges in both directions (breadth first).
+   * Nodes are ordered by hop distance, then name; each page carries the edges
+   * touching its nodes.
+   */
+  static async getNeighborhood(userId: string, entityId: string, depth: number, page: PageParams) {
+    const center = await this.findEntity(userId, entityId, { ...entitySummary, vaultId: true });
+
+    type Edge = Prisma.RelationshipGetPayload<{ select: typeof relationshipSummary }>;
+    const distances = new Map<string, number>([[entityId, 0]]);
+    const edges = new Map<string, Edge>();
+    let frontier = [entityId];
+    let truncated = false;
+
+    for (let hop = 1; hop <= depth && frontier.length > 0 && !truncated; hop++) {
+      const hopEdges = await prisma.relationship.findMany({
+        where: {
+          userId,
+          vaultId: center.vaultId,
+          ...activeEdge,
+          OR: [{ fromEntityId: { in: frontier } }, { toEntityId: { in: frontier } }]
+        },
+        take: this.MAX_EDGES_PER_HOP,
+        select: relationshipSummary
+      });
+      truncated = hopEdges.length === this.MAX_EDGES_PER_HOP;
+
+      const next: string[] = [];
+      for (const edge of hopEdges) {
+        edges.set(edge.id, edge);
+        for (const id of [edge.fromEntityId, edge.toEntityId]) {
+          if (distances.has(id)) continue;
+          if (distances.size >= this.MAX_NEIGHBORHOOD_NODES) {
+            truncated = true;
+            continue;
+          }
+          distances.set(id, hop);
+          next.push(id);
+        }
+      }
+      frontier = next;
+    }
+
+    const neighbors = await prisma.entity.findMany({
+      where: { id: { in: [...distances.keys()].filter((id) => id !== entityId) }, isDeleted: false },
+      select: entitySummary
+    });
+
+    const ordered = neighbors
+      .map((entity) => ({ ...entity, depth: distances.get(entity.id)! }))
+      .sort((a, b) => a.depth - b.depth || a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+
+    const nodes = ordered.slice(page.offset, page.offset + page.limit);
+    const onPage = new Set(nodes.map((n) => n.id));
+
+    return {
+      center,
+      depth,
+      nodes: toPage(nodes, ordered.length, page),
+      // Edges with an endpoint on this page; the other end is the center or another neighbor
+      edges: [...edges.values()].filter((e) => onPage.has(e.fromEntityId) || onPage.has(e.toEntityId)),
+      truncated
+    };
+  }
+
+  private static async findEntity<S extends Prisma.EntitySelect>(userId: string, entityId: string, select: S) {
+    const entity = await prisma.entity.findFirst({
+      where: { id: entityId, userId, isDeleted: false },
+      select
+    });
+
+    if (!entity) {
+      throw new ApiError({
+        code: 'ENTITY_NOT_FOUND',
+        status: 404,
+        message: 'Entity not found'
+      });
+    }
+
+    return entity;
+  }
+}
@@ -0,0 +1,358 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { ApiError } from '../types/errors';
+import { normalizeEntityName } from '../utils/entityResolution';
+import { normalizeLabel } from '../utils/ontology';
+import { getEmbeddingProvider } from './embeddings';
+
+export interface EntityInput {
+  vaultId?: string | null;
+  name: string;
+  type: string;
+  description?: string | null;
+  confidence?: number;
+}
+
+export type EntityUpdate = Partial<Omit<EntityInput, 'vaultId'>>;
+
+export interface RelationshipInput {
+  fromEntityId: string;
+  toEntityId: string;
+  predicate: string;
+  confidence?: number;
+  weight?: number;
+  metadata?: Record<string, unknown> | null;
+}
+
+export type RelationshipUpdate = Partial<Pick<RelationshipInput, 'predicate' | 'confidence' | 'weight' | 'metadata'>>;
+
+const entityFields = {
+  id: true,
+  vaultId: true,
+  name: true,
+  type: true,
+  description: true,
+  importance: true,
+  confidence: true,
+  isManual: true,
+  createdAt: true,
+  updatedAt: true
+} satisfies Prisma.EntitySelect;
+
+const relationshipFields = {
+  id: true,
+  vaultId: true,
+  fromEntityId: true,
+  toEntityId: true,
+  predicate: true,
+  confidence: true,
+  weight: true,
+  metadata: true,
+  isManual: true,
+  createdAt: true,
+  updatedAt: true
+} satisfies Prisma.RelationshipSelect;
+
+const toJson = (metadata: Record<string, unknown> | null | undefined) =>
+  metadata === null ? Prisma.DbNull : (metadata as Prisma.InputJsonValue | undefined);
+
+/**
+ * GraphEditService - Manual corrections to the knowledge graph
+ *
+ * Everything written here is flagged isManual: ingestion no longer overwrites
+ * the entity description or edge values, consolidation skips the entity and
+ * entity resolution only proposes merges involving it.
+ */
+export class GraphEditService {
+  static async createEntity(userId: string, input: EntityInput) {
+    const vaultId = input.vaultId ?? null;
+    const name = input.name.trim();
+    const type = normalizeLabel(input.type);
+    const description = input.description ?? null;
+
+    // The unique key covers soft-deleted rows too; re-creating one brings it back
+    const existing = await prisma.entity.findFirst({
+      where: { userId, vaultId, name, type },
+      select: { id: true, isDeleted: true }
+    });
+    if (existing && !existing.isDeleted) {
+      throw this.entityExists();
+    }
+
+    const data = {
+      description,
+      confidence: input.confidence ?? 1.0,
+      isManual: true,
+      isDeleted: false,
+      lastAccessedAt: new Date()
+    };
+    const entity = existing
+      ? await prisma.entity.update({ where: { id: existing.id }, data, select: entityFields })
+      : await prisma.entity.create({ data: { userId, vaultId, name, type, ...data }, select: entityFields });
+
+    await this.embedEntity(userId, entity);
+
+    logger.info('Entity created manually', { userId, entityId: entity.id, restored: !!existing });
+    return entity;
+  }
+
+  /**
+   * Rename, retype or re-describe an entity. The previous name stays an alias,
+   * so extracting it again maps onto the corrected entity. A deleted entity
+   * holding the new name and type is removed: the name now belongs to this one.
+   */
+  static async updateEntity(userId: string, entityId: string, input: EntityUpdate) {
+    const current = await this.getEntity(userId, entityId);
+    const name = input.name?.trim() ?? current.name;
+    const type = input.type ? normalizeLabel(input.type) : current.type;
+    const renamed = name !== current.name || type !== current.type;
+
+    // The unique key covers soft-deleted rows too
+    const clash = renamed
+      ? await prisma.entity.findFirst({
+          where: { userId, vaultId: current.vaultId, name, type, id: { not: entityId } },
+          select: { id: true, isDeleted: true }
+        })
+      : null;
+    if (clash && !clash.isDeleted) throw this.entityExists();
+
+    const entity = await prisma.$transaction(async (tx) => {
+      if (clash) {
+        await tx.entity.delete({ where: { id: clash.id } });
+      }
+      if (renamed) {
+        await tx.entityAlias.createMany({
+          data: [{
+            userId,
+            vaultId: current.vaultId,
+            entityId,
+            alias: current.name,
+            normalizedAlias: normalizeEntityName(current.name),
+            type: current.type
+          }],
+          skipDuplicates: true
+        });
+      }
+
+      return tx.entity.update({
+        where: { id: entityId },
+        data: {
+          name,
+          type,
+          description: input.description,
+          confidence: input.confidence,
+          isManual: true
+        },
+        select: entityFields
+      });
+    });
+
+    if (renamed || (input.description !== undefined && input.description !== current.description)) {
+      await this.embedEntity(userId, entity);
+    }
+
+    logger.info('Entity updated manually', { userId, entityId, renamed });
+    return entity;
+  }
+
+  /**
+   * Soft-delete an entity together with its edges. The row stays (flagged manual)
+   * so re-extracting the same name doesn't resurrect it.
+   */
+  static async deleteEntity(userId: string, entityId: string) {
+    await this.getEntity(userId, entityId);
+
+    const [relationships] = await prisma.$transaction([
+      prisma.relationship.updateMany({
+        where: { userId, isDeleted: false, OR: [{ fromEntityId: entityId }, { toEntityId: entityId }] },
+        data: { isDeleted: true, isManual: true }
+      }),
+      prisma.entity.update({
+        where: { id: entityId },
+        data: { isDeleted: true, isManual: true }
+      })
+    ]);
+
+    logger.info('Entity deleted manually', { userId, entityId, relationships: relationships.count });
+    return { entityId, relationshipsDeleted: relationships.count };
+  }
+
+  static async createRelationship(userId: string, input: RelationshipInput) {
+    const [from, to] = await Promise.all([
+      this.getEntity(userId, input.fromEntityId),
+      this.getEntity(userId, input.toEntityId)
+    ]);
+    if (from.vaultId !== to.vaultId) {
+      throw new ApiError({
+        code: 'INVALID_RELATIONSHIP',
+        status: 400,
+        message: 'Entities belong to different vaults'
+      });
+    }
+
+    const predicate = normalizeLabel(input.predicate);
+    const key = { userId, fromEntityId: from.id, toEntityId: to.id, predicate };
+
+    const existing = await prisma.relationship.findUnique({
+      where: { userId_fromEntityId_toEntityId_predicate: key },
+      select: { isDeleted: true }
+    });
+    if (existing && !existing.isDeleted) {
+      throw this.relationshipExists();
+    }
+
+    const data = {
+      confidence: input.confidence ?? 1.0,
+      weight: input.weight ?? 1.0,
+      metadata: toJson(input.metadata),
+      isManual: true,
+      isDeleted: false
+    };
+    const relationship = await prisma.relationship.upsert({
+      where: { userId_fromEntityId_toEntityId_predicate: key },
+      create: { ...key, vaultId: from.vaultId, ...data },
+      update: data,
+      select: relationshipFields
+    });
+
+    logger.info('Relationship created manually', { userId, relationshipId: relationship.id, predicate });
+    return relationship;
+  }
+
+  static async updateRelationship(userId: string, relationshipId: string, input: RelationshipUpdate) {
+    const current = await this.getRelationship(userId, relationshipId);
+    const predicate = input.predicate ? normalizeLabel(input.predicate) : current.predicate;
+
+    if (predicate !== current.predicate) {
+      const clash = await prisma.relationship.findUnique({
+        where: {
+          userId_fromEntityId_toEntityId_predicate: {
+            userId,
+            fromEntityId: current.fromEntityId,
+            toEntityId: current.toEntityId,
+            predicate
+          }
+        },
+        select: { id: true }
+      });
+      if (clash) throw this.relationshipExists();
+    }
+
+    return prisma.relationship.update({
+      where: { id: relationshipId },
+      data: {
+        predicate,
+        confidence: input.confidence,
+        weight: input.weight,
+        metadata: toJson(input.metadata),
+        isManual: true
+      },
+      select: relationshipFields
+    });
+  }
+
+  /**
+   * Soft-delete an edge; flagged manual so ingestion doesn't restore its values
+   */
+  static async deleteRelationship(userId: string, relationshipId: string) {
+    await this.getRelationship(userId, relationshipId);
+
+    await prisma.relationship.update({
+      where: { id: relationshipId },
+      data: { isDeleted: true, isManual: true }
+    });
+
+    logger.info('Relationship deleted manually', { userId, relationshipId });
+    return { relationshipId };
+  }
+
+  /**
+   * Embed name + description the way ingestion does. Best effort: without a
+   * provider, or when it fails, the vector is cleared rather than left describing
+   * the old text; the admin re-embedding job fills it in later.
+   */
+  private static async embedEntity(
+    userId: string,
+    entity: { id: string; name: string; type: string; description: string | null }
+  ): Promise<void> {
+    const embeddingProvider = getEmbeddingProvider();
+
+    try {
+      if (!embeddingProvider.isEnabled()) {
+        throw new Error('Embedding provider not enabled');
+      }
+
+      const [embedding] = await embeddingProvider.generateEmbeddings([
+        `${entity.name} (${entity.type}): ${entity.description || ''}`
+      ]);
+
+      await prisma.$executeRaw`
+        UPDATE "Entity"
+        SET
+          embedding = ${`[${embedding.join(',')}]`}::vector,
+          "embeddingModel" = ${embeddingProvider.model},
+          "embeddingDimensions" = ${embedding.length}
+        WHERE id = ${entity.id}
+      `;
+    } catch (error: any) {
+      logger.warn('Failed to embed edited entity', { userId, entityId: entity.id, error: error.message });
+
+      await prisma.$executeRaw`
+        UPDATE "Entity"
+        SET embedding = NULL, "embeddingModel" = NULL, "embeddingDimensions" = NULL
+        WHERE id = ${entity.id}
+      `;
+    }
+  }
+
+  private static async getEntity(userId: string, entityId: string) {
+    const entity = await prisma.entity.findFirst({
+      where: { id: entityId, userId, isDeleted: false },
+      select: entityFields
+    });
+
+    if (!entity) {
+      throw new ApiError({
+        code: 'ENTITY_NOT_FOUND',
+        status: 404,
+        message: 'Entity not found'
+      });
+    }
+
+    return entity;
+  }
+
+  private static async getRelationship(userId: string, relationshipId: string) {
+    const relationship = await prisma.relationship.findFirst({
+      where: { id: relationshipId, userId, isDeleted: false },
+      select: relationshipFields
+    });
+
+    if (!relationship) {
+      throw new ApiError({
+        code: 'RELATIONSHIP_NOT_FOUND',
+        status: 404,
+        message: 'Relationship not found'
+      });
+    }
+
+    return relationship;
+  }
+
+  private static entityExists(): ApiError {
+    return new ApiError({
+      code: 'ENTITY_EXISTS',
+      status: 409,
+      message: 'An entity with this name and type already exists'
+    });
+  }
+
+  private static relationshipExists(): ApiError {
+    return new ApiError({
+      code: 'RELATIONSHIP_EXISTS',
+      status: 409,
+      message: 'This relationship already exists'
+    });
+  }
+}
@@ -1,5 +1,8 @@
-import OpenAI from 'openai';
-import { env } from '../config';
+import { z } from 'zod';
+import { getLlmProvider } from './llm';
+import { LlmProvider, LlmUsage } from './llm/LlmProvider';
+import { completeJson } from './llm/jsonCompletion';
+import { DEFAULT_ONTOLOGY, Ontology, applyOntology, describeOntology } from '../utils/ontology';
 
 export interface ExtractedEntity {
   name: string;
@@ -16,30 +19,67 @@ export interface ExtractedRelationship {
 export interface GraphExtractionResult {
   entities: ExtractedEntity[];
   relationships: ExtractedRelationship[];
+  usage?: LlmUsage | null; // Summed over the repair attempt, if any
+  dropped?: { entities: number; relationships: number }; // Invalid or off-ontology items
+  importance?: number | null; // LLM's 0-1 rating of the text's long-term value (null if missing/invalid)
 }
 
-export class GraphExtractionService {
-  private openai: OpenAI;
+// Items are validated one by one so a single bad entry doesn't discard the whole extraction
+const extractionSchema = z.object({
+  entities: z.array(z.unknown()).default([]),
+  relationships: z.array(z.unknown()).default([]),
+  importance: z.unknown().optional()
+});
+
+// A bad rating is ignored rather than failing the extraction
+const importanceSchema = z.number().min(0).max(1);
+
+const entitySchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  type: z.string().trim().min(1).max(100),
+  description: z.string().max(2000).nullish()
+});
 
-  constructor() {
-    if (!env.openAiApiKey) {
-      throw new Error('OpenAI API key is required for graph extraction');
+const relationshipSchema = z.object({
+  from: z.string().trim().min(1).max(200),
+  to: z.string().trim().min(1).max(200),
+  predicate: z.string().trim().min(1).max(100)
+});
+
+const parseItems = <T>(schema: z.ZodType<T>, items: unknown[]): T[] =>
+  items.flatMap((item) => {
+    const parsed = schema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+
+export class GraphExtractionService {
+  constructor(private llmProvider: LlmProvider = getLlmProvider()) {
+    if (!llmProvider.isEnabled()) {
+      throw new Error('An LLM provider is required for graph extraction');
     }
-    this.openai = new OpenAI({ apiKey: env.openAiApiKey });
   }
 
   /**
    * Extract entities and relationships from text using LLM
+   *
+   * The output is schema-validated and normalized against the ontology. Malformed
+   * JSON gets one repair round trip before the extraction fails.
    */
-  async extractGraph(text: string): Promise<GraphExtractionResult> {
+  async extractGraph(text: string, ontology: Ontology = DEFAULT_ONTOLOGY): Promise<GraphExtractionResult> {
     const systemPrompt = `You are a knowledge graph extraction expert. Extract entities and relationships from the given text.
 
 Rules:
-1. Identify ENTITIES: People, Products, Locations, Organizations, Concepts, Technologies
-2. Identify RELATIONSHIPS: How entities relate to each other (OWNS, LIKES, WORKS_AT, LOCATED_IN, USES, BOUGHT, etc.)
+1. Identify ENTITIES and classify them with one of the entity types below
+2. Identify RELATIONSHIPS between entities and label them with one of the predicates below
 3. Use UPPERCASE for entity types and predicates
 4. Keep entity names exactly as they appear in the text
 5. Only extract explicit relationships, not inferred ones
+6. Relationship "from" and "to" must be names of extracted entities
+7. Rate how important the text is to remember long-term as "importance" from 0 to 1
+   (0 = small talk, 0.5 = ordinary detail, 1 = key fact, decision, commitment or deadline)
+
+Allowed labels:
+${describeOntology(ontology)}
 
 Return ONLY valid JSON in this exact format:
 {
@@ -49,36 +89,42 @@ Return ONLY valid JSON in this exact format:
   ],
   "relationships": [
     {"from": "John Doe", "to": "iPhone 15", "predicate": "BOUGHT"}
-  ]
+  ],
+  "importance": 0.6
 }`;
 
-    const response = await this.openai.chat.completions.create({
-      model: env.llmModel,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: text }
-      ],
-      temperature: 0.1,
-      response_format: { type: 'json_object' }
-    });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response from LLM');
-    }
+    const result = await completeJson(
+      this.llmProvider,
+      {
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: text }
+        ],
+        temperature: 0.1
+      },
+      extractionSchema
+    );
 
-    const result = JSON.parse(content) as GraphExtractionResult;
-
-    // Validate structure
-    if (!Array.isArray(result.entities) || !Array.isArray(result.relationships)) {
-      throw new Error('Invalid graph extraction response format');
+    if (!result.success) {
+      throw new Error(`Invalid graph extraction response format: ${result.error}`);
     }
+    const { data, usage } = result;
+
+    const validEntities = parseItems(entitySchema, data.entities);
+    const validRelationships = parseItems(relationshipSchema, data.relationships);
+    const normalized = applyOntology(validEntities, validRelationships, ontology);
+    const importance = importanceSchema.safeParse(data.importance);
 
     return {
-      entities: result.entities || [],
-      relationships: result.relationships || [],
-      usage: response.usage
-    } as GraphExtractionResult & { usage?: OpenAI.CompletionUsage };
+      entities: normalized.entities,
+      relationships: normalized.relationships,
+      usage,
+      dropped: {
+        entities: data.entities.length - normalized.entities.length,
+        relationships: data.relationships.length - normalized.relationships.length
+      },
+      importance: importance.success ? importance.data : null
+    };
   }
 
   /**
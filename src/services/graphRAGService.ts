@@ -1,13 +1,78 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
 import { prisma } from '../config/prisma';
+import { ApiError } from '../types/errors';
+import { IMemoryRepository, PrismaMemoryRepository } from '../repositories/memoryRepository';
 import { EmbeddingProvider } from './embeddings/EmbeddingProvider';
+import { getLlmProvider } from './llm';
+import { LlmProvider, LlmUsage, sumUsage } from './llm/LlmProvider';
+import { completeJson } from './llm/jsonCompletion';
+import { AccessRecorder, accessRecorder } from './accessRecorder';
+import { createReranker } from './rerank';
+import { RerankerName } from './rerank/Reranker';
+import { ScoringProfileService } from './scoringProfileService';
+import { ScoringOverrides, ScoringProfileName } from '../utils/scoring';
+import { reciprocalRankFusion } from '../utils/fusion';
+import { MetadataFilter, compileMetadataFilter } from '../utils/metadataFilter';
+import { EmbeddingSpace, cosineSimilarity } from '../utils/embeddingSpace';
+import { normalizeLabel } from '../utils/ontology';
+import { AssembledContext, ContextReport, assembleContext } from '../utils/contextBudget';
+import { maximalMarginalRelevance } from '../utils/mmr';
+
+/**
+ * Memory retrieval strategy
+ * - vector: pgvector cosine similarity (semantic)
+ * - keyword: full-text ts_rank over contentSearch (exact names, IDs, error codes)
+ * - hybrid: both, fused with reciprocal rank fusion
+ */
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
 
 export interface RetrieveOptions {
   userId: string;
+  vaultId?: string | null; // null/undefined = the user's default space
   query: string;
   maxMemories?: number;
   maxEntities?: number;
   graphDepth?: number;
   minSimilarity?: number;
+  mode?: RetrievalMode;
+  filter?: MetadataFilter; // Scopes memory recall by metadata / createdAt
+  neighborWindow?: number; // Adjacent chunks to return around chunked matches
+  graphDirection?: GraphDirection; // Which way edges are followed during traversal
+  hopDecay?: number; // Path score multiplier per hop (0-1)
+  minPathScore?: number; // Branches scoring below this are not expanded
+  maxGraphNodes?: number;
+  includePredicates?: string[]; // Only follow these predicates
+  excludePredicates?: string[]; // Never follow these predicates
+  entityTypes?: string[]; // Only traverse into entities of these types
+  maxTokens?: number; // Budget for contextSummary; lowest-ranked items are shortened or dropped
+  rerank?: RerankerName; // Reorder over-fetched memory candidates before the top maxMemories are kept
+  scoringProfile?: ScoringProfileName; // For rerank 'blend'; default: the user's stored profile
+  scoring?: ScoringOverrides;
+  mmrLambda?: number; // Diversify memories with MMR: 1 = relevance only, 0 = novelty only
+}
+
+export type GraphDirection = 'outgoing' | 'incoming' | 'both';
+
+interface TraversalOptions {
+  maxDepth: number;
+  direction: GraphDirection;
+  hopDecay: number;
+  minPathScore: number;
+  maxNodes: number;
+  includePredicates?: string[];
+  excludePredicates?: string[];
+  entityTypes?: string[];
+}
+
+// Query embedding as a pgvector literal, plus the space it lives in
+interface QueryVector {
+  literal: string;
+  space: EmbeddingSpace;
+}
+
+export interface AskOptions extends Omit<RetrieveOptions, 'query'> {
+  question: string;
 }
 
 export interface EntityMatch {
@@ -19,12 +84,24 @@ export interface EntityMatch {
   importance: number;
 }
 
+export interface MemoryNeighbor {
+  id: string;
+  text: string;
+  chunkIndex: number;
+}
+
 export interface MemoryMatch {
   id: string;
   text: string;
   similarity: number;
   importanceScore: number;
   createdAt: Date;
+  documentId: string | null; // Set when the memory is one chunk of a longer document
+  chunkIndex: number | null;
+  textRank?: number; // Full-text rank (keyword/hybrid modes)
+  fusedScore?: number; // RRF score (hybrid mode)
+  neighbors?: MemoryNeighbor[]; // Adjacent chunks, in document order (neighborWindow > 0)
+  rerankScore?: number; // Score the reranker ordered by (the similarity for rerank 'none')
 }
 
 export interface GraphNode {
@@ -33,7 +110,8 @@ export interface GraphNode {
   entityType: string;
   depth: number;
   path: string;
-  relationshipChain: string | null;
+  relationshipChain: string | null; // Predicates along the path; "<-P" for an edge followed backwards
+  score: number; // Anchor similarity x edge strength x hop decay along the best path
 }
 
 export interface GraphRAGResult {
@@ -47,10 +125,50 @@ export interface GraphRAGResult {
   // Synthesized context
   contextSummary: string;
   totalTokens: number;
+  contextReport: ContextReport; // What the token budget shortened or left out
+  usage: LlmUsage | null; // LLM tokens spent during retrieval (llm reranking)
+}
+
+export interface AskResult {
+  answer: string;
+  confidence: number;
+
+  // Citations back into the knowledge base
+  citedMemoryIds: string[];
+  citedEntityIds: string[];
+  reasoningPath: string[];
+
+  // Underlying retrieval
+  retrieval: GraphRAGResult;
+
+  // LLM usage, including retrieval's (null when no LLM call was needed)
+  usage: LlmUsage | null;
 }
 
+// What ask() expects back from the LLM (see the prompt there)
+const answerSchema = z.object({
+  answer: z.string().default(''),
+  memoryRefs: z.array(z.number().int()).default([]),
+  entityNames: z.array(z.string()).default([]),
+  confidence: z.number().default(0)
+});
+
 export class GraphRAGService {
-  constructor(private embeddingProvider: EmbeddingProvider) {}
+  // Each retriever fetches more candidates than requested so fusion has overlap to work with
+  private static readonly HYBRID_CANDIDATE_MULTIPLIER = 3;
+
+  // Memory candidates fetched per requested memory when a reranker picks the final set
+  private static readonly RERANK_CANDIDATE_MULTIPLIER = 4;
+
+  // How a maxTokens budget is split; a section's unused share goes to the others
+  private static readonly CONTEXT_SHARES = { memories: 0.5, entities: 0.2, graphNodes: 0.3 };
+
+  constructor(
+    private embeddingProvider: EmbeddingProvider,
+    private llmProvider: LlmProvider = getLlmProvider(),
+    private access: AccessRecorder = accessRecorder,
+    private memoryRepository: IMemoryRepository = new PrismaMemoryRepository()
+  ) {}
 
   /**
    * Main retrieval function with GraphRAG
@@ -58,35 +176,84 @@ export class GraphRAGService {
   async retrieve(options: RetrieveOptions): Promise<GraphRAGResult> {
     const {
       userId,
+      vaultId = null,
       query,
       maxMemories = 5,
       maxEntities = 5,
       graphDepth = 2,
-      minSimilarity = 0.3
+      minSimilarity = 0.3,
+      mode = 'vector',
+      filter,
+      neighborWindow = 0,
+      graphDirection = 'both',
+      hopDecay = 0.7,
+      minPathScore = 0.02,
+      maxGraphNodes = 50,
+      includePredicates,
+      excludePredicates,
+      entityTypes,
+      maxTokens,
+      rerank = 'none',
+      scoringProfile,
+      scoring,
+      mmrLambda
     } = options;
 
-    // Generate query embedding
+    if (rerank === 'llm' && !this.llmProvider.isEnabled()) {
+      throw new ApiError({
+        code: 'LLM_NOT_CONFIGURED',
+        status: 503,
+        message: 'LLM reranking requires an LLM provider to be configured'
+      });
+    }
+
+    // Generate query embedding; only rows embedded by the same model are compared
     const queryEmbedding = await this.embeddingProvider.generateEmbedding(query);
-    const embeddingString = `[${queryEmbedding.join(',')}]`;
+    const queryVector: QueryVector = {
+      literal: `[${queryEmbedding.join(',')}]`,
+      space: { model: this.embeddingProvider.model, dimensions: queryEmbedding.length }
+    };
 
     // ========================================================================
-    // STEP 1: Vector Search - Find top Memories
+    // STEP 1: Vector / Keyword / Hybrid Search - Find top Memories
     // ========================================================================
-    const memories = await this.findSimilarMemories(
+    const candidates = await this.findMemories(
       userId,
-      embeddingString,
-      maxMemories,
-      minSimilarity
+      vaultId,
+      query,
+      queryVector,
+      rerank === 'none' && mmrLambda === undefined
+        ? maxMemories
+        : maxMemories * GraphRAGService.RERANK_CANDIDATE_MULTIPLIER,
+      minSimilarity,
+      mode,
+      filter
     );
 
-    console.log(`Found ${memories.length} similar memories`);
+    // Rerank the over-fetched candidates down to maxMemories; with MMR the whole pool
+    // is ranked and then diversified, so near-duplicates give way to distinct facts
+    const blendProfile = rerank === 'blend'
+      ? await ScoringProfileService.getProfile(userId, { profile: scoringProfile, ...scoring })
+      : undefined;
+    const { items: ranked, usage } = await createReranker(rerank, this.llmProvider, blendProfile)
+      .rerank(query, candidates, mmrLambda === undefined ? maxMemories : candidates.length);
+    const memories = mmrLambda === undefined
+      ? ranked
+      : await this.diversifyMemories(ranked, maxMemories, mmrLambda);
+
+    console.log(`Found ${memories.length} relevant memories (${mode}${rerank === 'none' ? '' : `, reranked by ${rerank} from ${candidates.length}`}${mmrLambda === undefined ? '' : `, MMR λ=${mmrLambda}`})`);
+
+    if (neighborWindow > 0) {
+      await this.attachNeighbors(userId, memories, neighborWindow);
+    }
 
     // ========================================================================
     // STEP 2: Vector Search - Find top Entities
     // ========================================================================
     const entities = await this.findSimilarEntities(
       userId,
-      embeddingString,
+      vaultId,
+      queryVector,
       maxEntities,
       minSimilarity
     );
@@ -96,68 +263,319 @@ export class GraphRAGService {
     // ========================================================================
     // STEP 3: Graph Traversal - Multi-hop reasoning
     // ========================================================================
-    const graphNodes = await this.traverseGraph(
-      userId,
-      entities.map(e => e.id),
-      graphDepth
-    );
+    const graphNodes = await this.traverseGraph(userId, vaultId, entities, {
+      maxDepth: graphDepth,
+      direction: graphDirection,
+      hopDecay,
+      minPathScore,
+      maxNodes: maxGraphNodes,
+      includePredicates,
+      excludePredicates,
+      entityTypes
+    });
 
     console.log(`Traversed graph: ${graphNodes.length} related nodes found`);
 
     // ========================================================================
     // STEP 4: Synthesis - Build context string
     // ========================================================================
-    const contextSummary = this.synthesizeContext(memories, entities, graphNodes);
-    const totalTokens = Math.ceil(contextSummary.length / 4);
+    const context = this.synthesizeContext(memories, entities, graphNodes, maxTokens);
+
+    // Recalled memories and matched entities are reinforced in the background
+    this.access.record('memory', memories.map((m) => m.id));
+    this.access.record('entity', entities.map((e) => e.id));
 
     return {
       memories,
       entities,
       graphNodes,
-      contextSummary,
-      totalTokens
+      contextSummary: context.text,
+      totalTokens: context.report.tokens,
+      contextReport: context.report,
+      usage
     };
   }
 
+  /**
+   * Question answering on top of GraphRAG retrieval
+   * Feeds the synthesized context to the LLM and maps its citations back to IDs
+   */
+  async ask(options: AskOptions): Promise<AskResult> {
+    const { question, ...retrieveOptions } = options;
+
+    const retrieval = await this.retrieve({ ...retrieveOptions, query: question });
+
+    // Nothing to ground an answer on - don't spend an LLM call
+    if (retrieval.memories.length === 0 && retrieval.entities.length === 0) {
+      return {
+        answer: "I don't have any stored information that answers this question.",
+        confidence: 0,
+        citedMemoryIds: [],
+        citedEntityIds: [],
+        reasoningPath: [],
+        retrieval,
+        usage: retrieval.usage
+      };
+    }
+
+    if (!this.llmProvider.isEnabled()) {
+      throw new ApiError({
+        code: 'LLM_NOT_CONFIGURED',
+        status: 503,
+        message: 'Question answering requires an LLM provider to be configured'
+      });
+    }
+
+    const systemPrompt = `You are a question answering assistant backed by a personal knowledge graph.
+Answer the user's question using ONLY the provided context.
+
+Rules:
+1. If the context does not contain the answer, say so and set confidence to 0
+2. Cite the memories you used by their number, e.g. [1] -> 1
+3. Cite the entities you used by their exact name
+4. Be concise
+
+Return ONLY valid JSON in this exact format:
+{
+  "answer": "John bought an iPhone 15.",
+  "memoryRefs": [1],
+  "entityNames": ["John Doe", "iPhone 15"],
+  "confidence": 0.9
+}`;
+
+    const completion = await completeJson(
+      this.llmProvider,
+      {
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: `Context:\n${retrieval.contextSummary}\n\nQuestion: ${question}` }
+        ],
+        temperature: 0.1
+      },
+      answerSchema
+    );
+
+    if (!completion.success) {
+      throw new ApiError({
+        code: 'LLM_INVALID_RESPONSE',
+        status: 502,
+        message: 'The language model returned an unusable answer',
+        // The calls made so far still cost tokens; the caller bills them
+        details: { error: completion.error, usage: sumUsage(retrieval.usage, completion.usage) }
+      });
+    }
+    const { data: parsed, usage } = completion;
+
+    // Map 1-based memory references back to memory IDs
+    const citedMemoryIds = parsed.memoryRefs
+      .map(ref => retrieval.memories[ref - 1]?.id)
+      .filter((id): id is string => Boolean(id));
+
+    // Map entity names back to IDs (direct matches and traversed nodes)
+    const citedNames = new Set(parsed.entityNames.map(name => name.toLowerCase()));
+    const citedEntityIds = new Set<string>();
+    retrieval.entities
+      .filter(e => citedNames.has(e.name.toLowerCase()))
+      .forEach(e => citedEntityIds.add(e.id));
+    retrieval.graphNodes
+      .filter(n => citedNames.has(n.entityName.toLowerCase()))
+      .forEach(n => citedEntityIds.add(n.entityId));
+
+    // Reasoning path: graph chains that end in a cited entity
+    const reasoningPath = retrieval.graphNodes
+      .filter(n => citedEntityIds.has(n.entityId))
+      .map(n => this.formatGraphPath(n.path, n.relationshipChain));
+
+    return {
+      answer: parsed.answer,
+      confidence: Math.min(1, Math.max(0, parsed.confidence)),
+      citedMemoryIds: [...new Set(citedMemoryIds)],
+      citedEntityIds: [...citedEntityIds],
+      reasoningPath,
+      retrieval,
+      usage: sumUsage(retrieval.usage, usage)
+    };
+  }
+
+  /**
+   * Find memories using the requested retrieval mode
+   */
+  private async findMemories(
+    userId: string,
+    vaultId: string | null,
+    query: string,
+    queryVector: QueryVector,
+    limit: number,
+    minSimilarity: number,
+    mode: RetrievalMode,
+    filter?: MetadataFilter
+  ): Promise<MemoryMatch[]> {
+    if (mode === 'vector') {
+      return this.findSimilarMemories(userId, vaultId, queryVector, limit, minSimilarity, filter);
+    }
+
+    if (mode === 'keyword') {
+      return this.findKeywordMemories(userId, vaultId, query, queryVector, limit, filter);
+    }
+
+    const candidateLimit = limit * GraphRAGService.HYBRID_CANDIDATE_MULTIPLIER;
+    const [vectorMatches, keywordMatches] = await Promise.all([
+      this.findSimilarMemories(userId, vaultId, queryVector, candidateLimit, minSimilarity, filter),
+      this.findKeywordMemories(userId, vaultId, query, queryVector, candidateLimit, filter)
+    ]);
+
+    const textRanks = new Map(keywordMatches.map(m => [m.id, m.textRank]));
+
+    return reciprocalRankFusion([vectorMatches, keywordMatches], m => m.id)
+      .slice(0, limit)
+      .map(({ item, score }) => ({
+        ...item,
+        textRank: textRanks.get(item.id) ?? 0,
+        fusedScore: score
+      }));
+  }
+
+  /**
+   * Find memories using full-text search on the contentSearch tsvector
+   * Terms are OR'ed so natural-language questions still match on the rare
+   * tokens (names, IDs, error codes); ts_rank normalization 1 penalizes long texts.
+   */
+  private async findKeywordMemories(
+    userId: string,
+    vaultId: string | null,
+    query: string,
+    queryVector: QueryVector,
+    limit: number,
+    filter?: MetadataFilter
+  ): Promise<MemoryMatch[]> {
+    const results = await prisma.$queryRaw<MemoryMatch[]>`
+      WITH q AS (
+        SELECT to_tsquery('simple', replace(plainto_tsquery('simple', ${query})::text, '&', '|')) as tsq
+      )
+      SELECT
+        m.id,
+        m.text,
+        m."importanceScore",
+        m."createdAt",
+        m."documentId",
+        m."chunkIndex",
+        COALESCE(${cosineSimilarity(queryVector.literal, queryVector.space, 'm')}, 0) as similarity,
+        ts_rank(m."contentSearch", q.tsq, 1) as "textRank"
+      FROM "Memory" m, q
+      WHERE
+        m."userId" = ${userId} AND
+        m."vaultId" IS NOT DISTINCT FROM ${vaultId} AND
+        m."isDeleted" = false AND
+        m."contentSearch" @@ q.tsq
+        ${compileMetadataFilter(filter, 'm')}
+      ORDER BY "textRank" DESC
+      LIMIT ${limit}
+    `;
+
+    return results;
+  }
+
   /**
    * Find similar memories using vector search
    */
   private async findSimilarMemories(
     userId: string,
-    embeddingString: string,
+    vaultId: string | null,
+    queryVector: QueryVector,
     limit: number,
-    minSimilarity: number
+    minSimilarity: number,
+    filter?: MetadataFilter
   ): Promise<MemoryMatch[]> {
+    const similarity = cosineSimilarity(queryVector.literal, queryVector.space);
     const results = await prisma.$queryRaw<MemoryMatch[]>`
       SELECT
         id,
         text,
         "importanceScore",
         "createdAt",
-        1 - (embedding <=> ${embeddingString}::vector) as similarity
+        "documentId",
+        "chunkIndex",
+        ${similarity} as similarity
       FROM "Memory"
       WHERE
         "userId" = ${userId} AND
+        "vaultId" IS NOT DISTINCT FROM ${vaultId} AND
         "isDeleted" = false AND
         embedding IS NOT NULL AND
-        1 - (embedding <=> ${embeddingString}::vector) >= ${minSimilarity}
-      ORDER BY
-        1 - (embedding <=> ${embeddingString}::vector) DESC
+        ${similarity} >= ${minSimilarity}
+        ${compileMetadataFilter(filter)}
+      ORDER BY similarity DESC
       LIMIT ${limit}
     `;
 
     return results;
   }
 
+  /**
+   * Attach the surrounding chunks of each chunked match (same documentId)
+   */
+  private async attachNeighbors(
+    userId: string,
+    memories: MemoryMatch[],
+    window: number
+  ): Promise<void> {
+    const documentIds = [...new Set(memories.map(m => m.documentId).filter((id): id is string => Boolean(id)))];
+    if (documentIds.length === 0) {
+      return;
+    }
+
+    const chunks = await prisma.$queryRaw<Array<MemoryNeighbor & { documentId: string }>>`
+      SELECT id, text, "documentId", "chunkIndex"
+      FROM "Memory"
+      WHERE
+        "userId" = ${userId} AND
+        "documentId" = ANY(${documentIds}::text[]) AND
+        "isDeleted" = false
+      ORDER BY "documentId", "chunkIndex"
+    `;
+
+    memories.forEach(m => {
+      if (!m.documentId || m.chunkIndex === null) return;
+      m.neighbors = chunks
+        .filter(c =>
+          c.documentId === m.documentId &&
+          c.id !== m.id &&
+          Math.abs(c.chunkIndex - m.chunkIndex!) <= window
+        )
+        .map(({ id, text, chunkIndex }) => ({ id, text, chunkIndex }));
+    });
+  }
+
+  /**
+   * Pick `limit` memories by maximal marginal relevance over their stored embeddings
+   */
+  private async diversifyMemories<T extends MemoryMatch & { rerankScore: number }>(
+    memories: T[],
+    limit: number,
+    lambda: number
+  ): Promise<T[]> {
+    if (memories.length <= 1) return memories.slice(0, limit);
+
+    const embeddings = await this.memoryRepository.findEmbeddings(memories.map((m) => m.id));
+
+    return maximalMarginalRelevance(
+      memories.map((m) => ({ relevance: m.rerankScore, embedding: embeddings.get(m.id) ?? null })),
+      limit,
+      lambda
+    ).map((idx) => memories[idx]);
+  }
+
   /**
    * Find similar entities using vector search
    */
   private async findSimilarEntities(
     userId: string,
-    embeddingString: string,
+    vaultId: string | null,
+    queryVector: QueryVector,
     limit: number,
     minSimilarity: number
   ): Promise<EntityMatch[]> {
+    const similarity = cosineSimilarity(queryVector.literal, queryVector.space);
     const results = await prisma.$queryRaw<EntityMatch[]>`
       SELECT
         id,
@@ -165,15 +583,15 @@ export class GraphRAGService {
         type,
         description,
         importance,
-        1 - (embedding <=> ${embeddingString}::vector) as similarity
+        ${similarity} as similarity
       FROM "Entity"
       WHERE
         "userId" = ${userId} AND
+        "vaultId" IS NOT DISTINCT FROM ${vaultId} AND
         "isDeleted" = false AND
         embedding IS NOT NULL AND
-        1 - (embedding <=> ${embeddingString}::vector) >= ${minSimilarity}
-      ORDER BY
-        1 - (embedding <=> ${embeddingString}::vector) DESC
+        ${similarity} >= ${minSimilarity}
+      ORDER BY similarity DESC
       LIMIT ${limit}
     `;
 
@@ -183,36 +601,60 @@ export class GraphRAGService {
   /**
    * Multi-hop graph traversal using recursive CTE
    * THE SECRET SAUCE: Discovers related concepts through relationship chains
+   *
+   * Each path carries a score: the anchor's query similarity, multiplied per hop
+   * by the edge strength (confidence x weight / (weight + 1), so the 0-10 weight
+   * saturates towards 1 and an extracted edge at weight 1 counts half) and the hop
+   * decay. Branches scoring below minPathScore are not expanded; every entity is
+   * reported once, via its best path, and nodes are ranked by that score.
+   * Predicate and entity-type filters restrict every hop, not just the last one.
    */
   private async traverseGraph(
     userId: string,
-    anchorEntityIds: string[],
-    maxDepth: number
+    vaultId: string | null,
+    anchors: EntityMatch[],
+    { maxDepth, direction, hopDecay, minPathScore, maxNodes, ...filters }: TraversalOptions
   ): Promise<GraphNode[]> {
-    if (anchorEntityIds.length === 0) {
+    if (anchors.length === 0) {
       return [];
     }
 
+    // Labels are stored normalized ("works at" -> WORKS_AT); none left means no filter
+    const labels = (values?: string[]) => {
+      const normalized = [...new Set((values ?? []).map(normalizeLabel).filter(Boolean))];
+      return normalized.length > 0 ? normalized : null;
+    };
+    const includePredicates = labels(filters.includePredicates);
+    const excludePredicates = labels(filters.excludePredicates);
+    const entityTypes = labels(filters.entityTypes);
+
+    const followOutgoing = direction !== 'incoming';
+    const followIncoming = direction !== 'outgoing';
+
     // Build the recursive CTE query
     const results = await prisma.$queryRaw<GraphNode[]>`
       WITH RECURSIVE entity_graph AS (
-        -- Base case: Start with anchor entities (depth 0)
+        -- Base case: Start with anchor entities (depth 0), scored by query similarity
         SELECT
           e.id as "entityId",
           e.name as "entityName",
           e.type as "entityType",
           0 as depth,
           e.name as path,
-          NULL::text as "relationshipChain"
+          NULL::text as "relationshipChain",
+          a.score::float8 as score,
+          ARRAY[e.id] as visited
         FROM "Entity" e
+        INNER JOIN unnest(${anchors.map(a => a.id)}::text[], ${anchors.map(a => a.similarity)}::float8[])
+          AS a(id, score) ON a.id = e.id
         WHERE
-          e.id = ANY(${anchorEntityIds}::text[]) AND
           e."userId" = ${userId} AND
+          e."vaultId" IS NOT DISTINCT FROM ${vaultId} AND
           e."isDeleted" = false
 
         UNION ALL
 
-        -- Recursive case: Follow relationships outward
+        -- Recursive case: Follow relationships (outgoing, incoming or both)
         SELECT
           target.id as "entityId",
           target.name as "entityName",
@@ -220,100 +662,129 @@ export class GraphRAGService {
           eg.depth + 1 as depth,
           eg.path || ' -> ' || target.name as path,
           CASE
-            WHEN eg."relationshipChain" IS NULL
-            THEN r.predicate
-            ELSE eg."relationshipChain" || ' -> ' || r.predicate
-          END as "relationshipChain"
+            WHEN eg."relationshipChain" IS NULL THEN hop.predicate
+            ELSE eg."relationshipChain" || ' -> ' || hop.predicate
+          END as "relationshipChain",
+          hop.score as score,
+          eg.visited || target.id as visited
         FROM entity_graph eg
-        INNER JOIN "Relationship" r ON r."fromEntityId" = eg."entityId"
-        INNER JOIN "Entity" target ON target.id = r."toEntityId"
+        INNER JOIN "Relationship" r ON
+          (${followOutgoing} AND r."fromEntityId" = eg."entityId") OR
+          (${followIncoming} AND r."toEntityId" = eg."entityId")
+        CROSS JOIN LATERAL (
+          SELECT
+            -- Incoming edges are read backwards: "<-WORKS_AT"
+            CASE WHEN r."fromEntityId" = eg."entityId" THEN r."toEntityId" ELSE r."fromEntityId" END as "targetId",
+            CASE WHEN r."fromEntityId" = eg."entityId" THEN r.predicate ELSE '<-' || r.predicate END as predicate,
+            (eg.score * GREATEST(r.weight, 0) / (GREATEST(r.weight, 0) + 1) * r.confidence * ${hopDecay})::float8 as score
+        ) hop
+        INNER JOIN "Entity" target ON target.id = hop."targetId"
         WHERE
           eg.depth < ${maxDepth} AND
           r."userId" = ${userId} AND
+          r."vaultId" IS NOT DISTINCT FROM ${vaultId} AND
           r."isDeleted" = false AND
           target."isDeleted" = false AND
-          -- Prevent cycles: don't revisit entities already in path
-          target.name != ALL(string_to_array(eg.path, ' -> '))
+          ${includePredicates ? Prisma.sql`r.predicate = ANY(${includePredicates}::text[]) AND` : Prisma.empty}
+          ${excludePredicates ? Prisma.sql`r.predicate <> ALL(${excludePredicates}::text[]) AND` : Prisma.empty}
+          ${entityTypes ? Prisma.sql`target.type = ANY(${entityTypes}::text[]) AND` : Prisma.empty}
+          -- Prune weak branches
+          hop.score >= ${minPathScore} AND
+          -- Prevent cycles: don't revisit entities already on the path
+          target.id <> ALL(eg.visited)
       )
-      SELECT DISTINCT
-        "entityId",
-        "entityName",
-        "entityType",
-        depth,
-        path,
-        "relationshipChain"
-      FROM entity_graph
-      WHERE depth > 0  -- Exclude anchors (we already have them)
-      ORDER BY depth ASC, "entityName" ASC
-      LIMIT 50;  -- Safety limit to prevent explosion
+      SELECT * FROM (
+        -- Each entity once, via its best-scoring path
+        SELECT DISTINCT ON ("entityId")
+          "entityId",
+          "entityName",
+          "entityType",
+          depth,
+          path,
+          "relationshipChain",
+          score
+        FROM entity_graph
+        WHERE depth > 0  -- Exclude anchors (we already have them)
+        ORDER BY "entityId", score DESC, depth ASC
+      ) best
+      ORDER BY score DESC, depth ASC, "entityName" ASC
+      LIMIT ${maxNodes}
     `;
 
-    return results;
+    return results.map(node => ({ ...node, score: Number(node.score) }));
   }
 
   /**
-   * Synthesize all results into a coherent context string
+   * Synthesize all results into a coherent context string, within maxTokens when given.
+   * Memories keep their [n] numbering (ask() maps citations through it) even when
+   * some are left out.
    */
   private synthesizeContext(
     memories: MemoryMatch[],
     entities: EntityMatch[],
-    graphNodes: GraphNode[]
-  ): string {
-    let context = '';
-
-    // Section 1: Direct Memory Matches
-    if (memories.length > 0) {
-      context += '=== RELEVANT MEMORIES ===\n\n';
-      memories.forEach((m, idx) => {
-        context += `[${idx + 1}] (Similarity: ${m.similarity.toFixed(2)}, Importance: ${m.importanceScore.toFixed(2)})\n`;
-        context += `${m.text}\n\n`;
-      });
-    }
-
-    // Section 2: Key Entities
-    if (entities.length > 0) {
-      context += '=== KEY ENTITIES ===\n\n';
-      entities.forEach((e) => {
-        context += `• ${e.name} (${e.type})`;
-        if (e.description) {
-          context += `: ${e.description}`;
-        }
-        context += ` [Relevance: ${e.similarity.toFixed(2)}]\n`;
-      });
-      context += '\n';
-    }
-
-    // Section 3: Knowledge Graph (The Magic!)
-    if (graphNodes.length > 0) {
-      context += '=== KNOWLEDGE GRAPH (Multi-hop Reasoning) ===\n\n';
-      
-      // Group by depth for clarity
-      const nodesByDepth = new Map<number, GraphNode[]>();
-      graphNodes.forEach(node => {
-        if (!nodesByDepth.has(node.depth)) {
-          nodesByDepth.set(node.depth, []);
-        }
-        nodesByDepth.get(node.depth)!.push(node);
-      });
-
-      nodesByDepth.forEach((nodes, depth) => {
-        context += `Depth ${depth} (${depth} hop${depth > 1 ? 's' : ''} away):\n`;
-        nodes.forEach(node => {
-          context += `  • ${node.entityName} (${node.entityType})`;
-          if (node.relationshipChain) {
-            context += `\n    Via: ${node.relationshipChain}`;
-          }
-          context += `\n    Path: ${node.path}\n`;
-        });
-        context += '\n';
-      });
-    }
+    graphNodes: GraphNode[],
+    maxTokens?: number
+  ): AssembledContext {
+    const shares = GraphRAGService.CONTEXT_SHARES;
+
+    return assembleContext([
+      // Section 1: Direct Memory Matches, in retrieval order (similarity, text rank or fused score)
+      {
+        key: 'memories',
+        header: '=== RELEVANT MEMORIES ===\n\n',
+        share: shares.memories,
+        items: memories.map((m, idx) => ({
+          id: m.id,
+          score: 1 - idx / memories.length,
+          text: `[${idx + 1}] (Similarity: ${m.similarity.toFixed(2)}, Importance: ${m.importanceScore.toFixed(2)})\n${this.memoryPassage(m)}\n\n`,
+          truncatable: true
+        }))
+      },
+      // Section 2: Key Entities
+      {
+        key: 'entities',
+        header: '=== KEY ENTITIES ===\n\n',
+        share: shares.entities,
+        items: entities.map(e => {
+          const relevance = ` [Relevance: ${e.similarity.toFixed(2)}]\n`;
+          return {
+            id: e.id,
+            score: e.similarity,
+            text: `• ${e.name} (${e.type})${e.description ? `: ${e.description}` : ''}${relevance}`,
+            brief: `• ${e.name} (${e.type})${relevance}`
+          };
+        })
+      },
+      // Section 3: Knowledge Graph (The Magic!), most relevant paths first
+      {
+        key: 'graphNodes',
+        header: '=== KNOWLEDGE GRAPH (Multi-hop Reasoning) ===\n\n',
+        share: shares.graphNodes,
+        items: graphNodes.map(node => {
+          const line = `• ${node.entityName} (${node.entityType}) [Relevance: ${node.score.toFixed(2)}, ${node.depth} hop${node.depth > 1 ? 's' : ''} away]\n`;
+          return {
+            id: node.entityId,
+            score: node.score,
+            text: `${line}    Path: ${this.formatGraphPath(node.path, node.relationshipChain)}\n`,
+            brief: line
+          };
+        })
+      }
+    ], maxTokens);
+  }
 
-    if (!context) {
-      context = 'No relevant information found.';
+  /**
+   * Helper: Memory text with its neighboring chunks stitched in document order
+   */
+  private memoryPassage(memory: MemoryMatch): string {
+    if (!memory.neighbors?.length || memory.chunkIndex === null) {
+      return memory.text;
     }
 
-    return context.trim();
+    return [...memory.neighbors, { id: memory.id, text: memory.text, chunkIndex: memory.chunkIndex }]
+      .sort((a, b) => a.chunkIndex - b.chunkIndex)
+      .map(chunk => chunk.text)
+      .join('\n');
   }
 
   /**
@@ -325,7 +796,9 @@ export class GraphRAGService {
     
     let formatted = entities[0];
     for (let i = 0; i < predicates.length; i++) {
-      formatted += ` --[${predicates[i]}]--> ${entities[i + 1]}`;
+      formatted += predicates[i].startsWith('<-')
+        ? ` <--[${predicates[i].slice(2)}]-- ${entities[i + 1]}`
+        : ` --[${predicates[i]}]--> ${entities[i + 1]}`;
     }
     
     return formatted;
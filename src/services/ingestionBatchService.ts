@@ -0,0 +1,91 @@
+import { redis } from '../config/redis';
+import { logger } from '../config/logger';
+import { ApiError } from '../types/errors';
+
+export type BatchState = 'processing' | 'completed' | 'completed_with_errors';
+
+export interface BatchStatus {
+  batchId: string;
+  vaultId: string | null;
+  state: BatchState;
+  total: number;
+  completed: number;
+  failed: number;
+  pending: number;
+  progress: number; // 0-100, finished (completed + failed) items
+  createdAt: string;
+}
+
+/**
+ * IngestionBatchService - Aggregate progress for /api/memory/add/batch
+ *
+ * Counters live in a Redis hash updated by the worker, so progress survives
+ * BullMQ evicting finished jobs (removeOnComplete).
+ */
+export class IngestionBatchService {
+  private static readonly TTL_SECONDS = 7 * 24 * 3600;
+  private static readonly KEY = (batchId: string) => `batch:${batchId}`;
+
+  static async createBatch(batchId: string, userId: string, vaultId: string | null, total: number): Promise<void> {
+    const key = this.KEY(batchId);
+    await redis.hset(key, {
+      userId,
+      vaultId: vaultId ?? '',
+      total,
+      completed: 0,
+      failed: 0,
+      createdAt: new Date().toISOString()
+    });
+    await redis.expire(key, this.TTL_SECONDS);
+  }
+
+  /**
+   * Called by the worker when a batch item finishes (after its final attempt)
+   */
+  static async recordResult(batchId: string, outcome: 'completed' | 'failed'): Promise<void> {
+    try {
+      await redis.hincrby(this.KEY(batchId), outcome, 1);
+    } catch (error) {
+      logger.error('Failed to record batch progress', {
+        batchId,
+        outcome,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  static async getStatus(userId: string, batchId: string): Promise<BatchStatus> {
+    // Upstash deserializes hash values, ioredis returns strings - normalize both
+    const hash = (await redis.hgetall(this.KEY(batchId))) as Record<string, unknown> | null;
+
+    if (!hash || Object.keys(hash).length === 0 || String(hash.userId) !== userId) {
+      throw new ApiError({
+        code: 'BATCH_NOT_FOUND',
+        status: 404,
+        message: 'Batch not found'
+      });
+    }
+
+    const total = Number(hash.total);
+    const completed = Number(hash.completed);
+    const failed = Number(hash.failed);
+    const finished = completed + failed;
+
+    let state: BatchState = 'processing';
+    if (finished >= total) {
+      state = failed > 0 ? 'completed_with_errors' : 'completed';
+    }
+
+    return {
+      batchId,
+      vaultId: hash.vaultId ? String(hash.vaultId) : null,
+      state,
+      total,
+      completed,
+      failed,
+      pending: Math.max(0, total - finished),
+      progress: total > 0 ? Math.round((finished / total) * 100) : 100,
+      createdAt: String(hash.createdAt)
+    };
+  }
+}
@@ -0,0 +1,39 @@
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Same shape as OpenAI's usage block, so billing code works for every backend
+export interface LlmUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+// Total of two calls' usage (null when neither reported any)
+export const sumUsage = (a: LlmUsage | null, b: LlmUsage | null): LlmUsage | null =>
+  a && b
+    ? {
+        prompt_tokens: a.prompt_tokens + b.prompt_tokens,
+        completion_tokens: a.completion_tokens + b.completion_tokens,
+        total_tokens: a.total_tokens + b.total_tokens
+      }
+    : a ?? b;
+
+export interface LlmCompletionRequest {
+  messages: LlmMessage[];
+  temperature?: number;
+  json?: boolean; // Constrain the output to a JSON object
+}
+
+export interface LlmCompletion {
+  content: string;
+  usage: LlmUsage | null; // null when the backend doesn't report token counts
+}
+
+export interface LlmProvider {
+  // Backend + model, e.g. "openai/gpt-4o-mini"
+  readonly model: string;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+  isEnabled(): boolean;
+}
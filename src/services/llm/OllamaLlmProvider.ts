@@ -0,0 +1,61 @@
+import { env, logger } from '../../config';
+import { LlmCompletion, LlmCompletionRequest, LlmProvider } from './LlmProvider';
+
+/**
+ * Self-hosted chat completions via Ollama's /api/chat
+ */
+export class OllamaLlmProvider implements LlmProvider {
+  readonly model = `ollama/${env.llmModel}`;
+  private ollamaUrl = env.ollamaUrl;
+  private ollamaModel = env.llmModel;
+
+  isEnabled(): boolean {
+    return env.llmProvider === 'ollama';
+  }
+
+  async complete({ messages, temperature, json }: LlmCompletionRequest): Promise<LlmCompletion> {
+    if (!this.isEnabled()) {
+      throw new Error('Ollama LLM provider is not enabled.');
+    }
+
+    try {
+      const response = await fetch(`${this.ollamaUrl}/api/chat`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          model: this.ollamaModel,
+          messages,
+          stream: false,
+          ...(json ? { format: 'json' } : {}),
+          ...(temperature !== undefined ? { options: { temperature } } : {})
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Ollama API request failed with status ${response.status}`);
+      }
+
+      const data = await response.json();
+      const content = data?.message?.content;
+      if (typeof content !== 'string' || content.length === 0) {
+        throw new Error('No response from LLM');
+      }
+
+      // Ollama reports token counts as prompt_eval_count / eval_count
+      const promptTokens = Number(data.prompt_eval_count ?? 0);
+      const completionTokens = Number(data.eval_count ?? 0);
+
+      return {
+        content,
+        usage: promptTokens + completionTokens > 0
+          ? { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens }
+          : null
+      };
+    } catch (error) {
+      logger.error('Ollama chat error', { error: String(error) });
+      throw new Error(`Failed to complete chat using Ollama: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
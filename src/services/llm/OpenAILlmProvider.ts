@@ -0,0 +1,37 @@
+import OpenAI from 'openai';
+import { env } from '../../config';
+import { LlmCompletion, LlmCompletionRequest, LlmProvider } from './LlmProvider';
+
+export class OpenAILlmProvider implements LlmProvider {
+  readonly model = `openai/${env.llmModel}`;
+  private client: OpenAI | null;
+
+  constructor(apiKey?: string) {
+    const key = apiKey || env.openAiApiKey;
+    this.client = key ? new OpenAI({ apiKey: key }) : null;
+  }
+
+  isEnabled(): boolean {
+    return this.client !== null;
+  }
+
+  async complete({ messages, temperature, json }: LlmCompletionRequest): Promise<LlmCompletion> {
+    if (!this.client) {
+      throw new Error('OpenAI LLM provider is not enabled');
+    }
+
+    const response = await this.client.chat.completions.create({
+      model: env.llmModel,
+      messages,
+      temperature,
+      ...(json ? { response_format: { type: 'json_object' as const } } : {})
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('No response from LLM');
+    }
+
+    return { content, usage: response.usage ?? null };
+  }
+}
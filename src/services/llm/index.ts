@@ -0,0 +1,31 @@
+import { env } from '../../config';
+import { LlmProvider } from './LlmProvider';
+import { OpenAILlmProvider } from './OpenAILlmProvider';
+import { OllamaLlmProvider } from './OllamaLlmProvider';
+
+let provider: LlmProvider | null = null;
+
+/**
+ * Construct the configured provider (no enablement check)
+ */
+export function createLlmProvider(name = env.llmProvider): LlmProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAILlmProvider();
+    case 'ollama':
+      return new OllamaLlmProvider();
+    default:
+      throw new Error(`Invalid LLM provider: ${name}`);
+  }
+}
+
+/**
+ * Shared provider instance. Callers check isEnabled(): without an LLM,
+ * graph extraction, consolidation and question answering are skipped.
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    provider = createLlmProvider();
+  }
+  return provider;
+}
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { LlmCompletionRequest, LlmProvider, LlmUsage, sumUsage } from './LlmProvider';
+
+export type JsonCompletion<T> =
+  | { success: true; data: T; usage: LlmUsage | null }
+  | { success: false; error: string; usage: LlmUsage | null };
+
+const parseJson = <T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  content: string
+): { success: true; data: T } | { success: false; error: string } => {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    return { success: false, error: `not valid JSON (${error instanceof Error ? error.message : String(error)})` };
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error.errors.map((e) => `${e.path.join('.') || 'root'}: ${e.message}`).join('; ')
+    };
+  }
+  return { success: true, data: result.data };
+};
+
+/**
+ * Complete in JSON mode and validate the output against `schema`. Output that
+ * doesn't parse or validate gets one repair round trip (the model sees its own
+ * output and the error); usage is summed over both calls.
+ */
+export const completeJson = async <T>(
+  llmProvider: LlmProvider,
+  request: LlmCompletionRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): Promise<JsonCompletion<T>> => {
+  const first = await llmProvider.complete({ ...request, json: true });
+  const parsed = parseJson(schema, first.content);
+  if (parsed.success) {
+    return { ...parsed, usage: first.usage };
+  }
+
+  const repair = await llmProvider.complete({
+    messages: [
+      ...request.messages,
+      { role: 'assistant', content: first.content },
+      {
+        role: 'user',
+        content: `Your previous response was invalid: ${parsed.error}\nReturn ONLY the corrected JSON in the required format.`
+      }
+    ],
+    temperature: 0,
+    json: true
+  });
+
+  return { ...parseJson(schema, repair.content), usage: sumUsage(first.usage, repair.usage) };
+};
@@ -3,24 +3,37 @@ import {
   ClearMemoryRequest,
   RetrieveMemoryRequest,
   RetrieveMemoryResponse,
+  SessionSummary,
   StoreMemoryRequest,
   StoreMemoryResponse
 } from '../types/memory';
 import { compressText, computeImportanceScore, normalizeText, truncateIfNeeded } from '../utils/text';
+import { computeFinalScore, resolveScoringProfile } from '../utils/scoring';
+import { maximalMarginalRelevance } from '../utils/mmr';
 import { IMemoryRepository, MemoryWithSimilarity } from '../repositories/memoryRepository';
-import { ISessionRepository } from '../repositories/sessionRepository';
 import { ApiError } from '../types/errors';
 import { EmbeddingProvider } from './embeddings/EmbeddingProvider';
+import { ScoringSettingsStore } from './scoringProfileService';
 import { env } from '../config';
 
+type ScoredMemory = MemoryWithSimilarity & { score: number };
+
+/**
+ * Synchronous memory store/retrieve on top of the GraphRAG Memory model.
+ * Used by the legacy /api/memory/* routes for clients that can't poll jobs.
+ */
 export class MemoryService {
+  // Over-fetch factor for candidates before re-scoring with recency/importance
+  private static readonly CANDIDATE_MULTIPLIER = 4;
+  private static readonly CANDIDATE_MIN_SIMILARITY = 0.01;
+
   constructor(
     private memoryRepository: IMemoryRepository,
-    private sessionRepository: ISessionRepository,
-    private embeddingProvider?: EmbeddingProvider
+    private embeddingProvider?: EmbeddingProvider,
+    private scoringSettings?: ScoringSettingsStore // Stored per-user profiles; built-in defaults without
   ) {}
 
-  async storeMemory(input: StoreMemoryRequest): Promise<StoreMemoryResponse> {
+  async storeMemory(userId: string, input: StoreMemoryRequest): Promise<StoreMemoryResponse> {
     if (!this.embeddingProvider?.isEnabled()) {
       throw new ApiError({
         code: 'EMBEDDING_PROVIDER_DISABLED',
@@ -30,50 +43,57 @@ export class MemoryService {
     }
 
     const normalizedText = normalizeText(truncateIfNeeded(input.text));
-
-    // Ensure session exists before we do any expensive work
-    await this.sessionRepository.upsert(input.sessionId);
-
     const embedding = await this.embeddingProvider.generateEmbedding(normalizedText);
 
     // Smart Storage: Check for duplicates before creating a new memory
-    const duplicate = await this.memoryRepository.findDuplicate(input.sessionId, embedding);
+    const duplicate = await this.memoryRepository.findDuplicate(
+      userId,
+      input.vaultId ?? null,
+      embedding,
+      this.embeddingProvider.model,
+      input.sessionId
+    );
 
     if (duplicate) {
       // If a similar memory exists, just update its last access time and return its ID.
-      // This avoids creating a new memory and saves space.
       await this.memoryRepository.updateLastAccessed([duplicate.id], new Date());
-      const memory = await this.memoryRepository.findById(duplicate.id); // Re-fetch to get all details
+      const memory = await this.memoryRepository.findById(duplicate.id);
       return {
         id: duplicate.id,
+        userId,
         sessionId: input.sessionId,
         importanceScore: memory?.importanceScore ?? 0,
         createdAt: memory?.createdAt.toISOString() ?? new Date().toISOString()
       };
     }
 
-    // No duplicate found, so proceed with creating a new memory
     const importanceScore = computeImportanceScore(normalizedText, input.importanceHint);
     const compressed = compressText(normalizedText);
+    const metadata = input.sessionId
+      ? { ...input.metadata, sessionId: input.sessionId }
+      : input.metadata;
 
     const created = await this.memoryRepository.create({
-      sessionId: input.sessionId,
+      userId,
+      vaultId: input.vaultId,
       text: normalizedText,
       compressedText: compressed,
-      metadata: input.metadata as Prisma.InputJsonValue | undefined,
+      metadata: metadata as Prisma.InputJsonValue | undefined,
       importanceScore,
-      embedding
+      embedding,
+      embeddingModel: this.embeddingProvider.model
     });
 
     return {
       id: created.id,
-      sessionId: input.sessionId, // From input, not from DB (schema doesn't have this field anymore)
+      userId,
+      sessionId: input.sessionId,
       importanceScore: created.importanceScore,
       createdAt: created.createdAt.toISOString()
     };
   }
 
-  async retrieveMemories(input: RetrieveMemoryRequest): Promise<RetrieveMemoryResponse> {
+  async retrieveMemories(userId: string, input: RetrieveMemoryRequest): Promise<RetrieveMemoryResponse> {
     if (!this.embeddingProvider?.isEnabled()) {
       throw new ApiError({
         code: 'EMBEDDING_PROVIDER_DISABLED',
@@ -82,78 +102,70 @@ export class MemoryService {
       });
     }
 
-    const session = await this.sessionRepository.findById(input.sessionId);
-    if (!session) {
-      throw new ApiError({
-        code: 'SESSION_NOT_FOUND',
-        status: 404,
-        message: 'Session not found'
-      });
-    }
-
+    const limit = input.limit ?? 10;
     const queryEmbedding = await this.embeddingProvider.generateEmbedding(normalizeText(input.query));
 
-    // 1. Fetch "Raw" Candidates (Low Threshold)
-    // We fetch with a very low threshold (0.01) to see what the DB actually finds,
-    // which allows us to debug why "obvious" matches might be missed.
-    const debugThreshold = 0.01;
-    const candidates = await this.memoryRepository.findSimilarMemories(
-      input.sessionId,
-      queryEmbedding,
-      input.query,
-      200, 
-      debugThreshold
-    );
+    // 1. Fetch candidates with a low similarity floor, then re-rank with the
+    //    similarity/recency/importance blend from utils/scoring.
+    const candidates = await this.memoryRepository.findSimilarMemories({
+      userId,
+      vaultId: input.vaultId,
+      embedding: queryEmbedding,
+      embeddingModel: this.embeddingProvider.model,
+      limit: limit * MemoryService.CANDIDATE_MULTIPLIER,
+      minSimilarity: MemoryService.CANDIDATE_MIN_SIMILARITY,
+      sessionId: input.sessionId,
+      metadata: input.metadata
+    });
 
-    // 2. Deep Logging
-    // Print the top 3 raw matches to the console for debugging.
-    const topRaw = candidates.slice(0, 3);
-    console.log(
-      `Query: '${input.query}', Raw Candidates: ${JSON.stringify(
-        topRaw.map((c) => ({
-          text: c.text.substring(0, 50) + (c.text.length > 50 ? '...' : ''),
-          score: c.score.toFixed(4),
-          similarity: c.similarity.toFixed(4)
-        }))
-      )}`
+    const scoring = resolveScoringProfile(
+      (await this.scoringSettings?.getSelection(userId)) ?? null,
+      { profile: input.scoringProfile, ...input.scoring }
     );
 
-    // 3. Apply Configurable Threshold
+    const now = Date.now();
+    const scored: ScoredMemory[] = candidates
+      .map((candidate) => ({
+        ...candidate,
+        score: computeFinalScore({
+          similarity: candidate.similarity,
+          recencyMs: now - candidate.createdAt.getTime(),
+          importanceScore: candidate.importanceScore
+        }, scoring).finalScore
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    // 2. Apply configurable threshold
     const minScore = input.minScore ?? env.minSimilarityScore;
-    let filteredCandidates = candidates.filter((c) => c.score >= minScore);
+    let filtered = scored.filter((c) => c.score >= minScore);
     let isLowConfidence = false;
 
-    // 4. Low Confidence Fallback
-    // If no memories pass the strict threshold, return the single best match
-    // but flag it as low confidence.
-    if (filteredCandidates.length === 0 && candidates.length > 0) {
-      console.log(
-        `No matches above ${minScore}. Returning best match (${candidates[0].score.toFixed(
-          4
-        )}) as low confidence.`
-      );
-      filteredCandidates = [candidates[0]];
+    // 3. Low confidence fallback: return the single best match, flagged
+    if (filtered.length === 0 && scored.length > 0) {
+      filtered = [scored[0]];
       isLowConfidence = true;
     }
 
-    // Token Budgeting: Ensure the total token count of memories does not exceed the budget.
+    // 4. Optional MMR diversification, so near-duplicates don't crowd out other facts
+    if (input.mmrLambda !== undefined && filtered.length > 1) {
+      filtered = await this.diversify(filtered, input.mmrLambda);
+    }
+
+    // 5. Token budgeting
     const maxTokens = input.maxTokens ?? 1000;
     let tokenUsage = 0;
-    const budgetedResults: MemoryWithSimilarity[] = [];
+    const budgeted: ScoredMemory[] = [];
 
-    for (const candidate of filteredCandidates) {
-      // Estimate token count (a simple approximation)
+    for (const candidate of filtered) {
       const estimatedTokens = Math.ceil(candidate.text.length / 4);
       if (tokenUsage + estimatedTokens > maxTokens) {
-        // Stop if adding the next memory would exceed the budget
         break;
       }
       tokenUsage += estimatedTokens;
-      budgetedResults.push(candidate);
+      budgeted.push(candidate);
     }
-    
-    // Limit to the user's specified limit after budgeting
-    const finalResults = budgetedResults.slice(0, input.limit ?? 10);
+
+    const finalResults = budgeted.slice(0, limit);
 
     const accessTime = new Date();
     if (finalResults.length > 0) {
@@ -164,13 +176,14 @@ export class MemoryService {
     }
 
     return {
+      userId,
       sessionId: input.sessionId,
       query: input.query,
       tokenUsage,
       results: finalResults.map((item) => ({
         id: item.id,
         text: item.text,
-        compressedText: item.compressedText || item.text, // Fall back to text if compressed is null
+        compressedText: item.compressedText || item.text,
         importanceScore: item.importanceScore,
         similarity: item.similarity,
         score: item.score,
@@ -182,14 +195,29 @@ export class MemoryService {
     };
   }
 
-  async clearMemories(input: ClearMemoryRequest): Promise<{ cleared: number }> {
-    const cleared = await this.memoryRepository.softDelete(input.sessionId, input.memoryIds);
+  private async diversify(memories: ScoredMemory[], lambda: number): Promise<ScoredMemory[]> {
+    const embeddings = await this.memoryRepository.findEmbeddings(memories.map((m) => m.id));
+    const order = maximalMarginalRelevance(
+      memories.map((m) => ({ relevance: m.score, embedding: embeddings.get(m.id) ?? null })),
+      memories.length,
+      lambda
+    );
+    return order.map((idx) => memories[idx]);
+  }
+
+  async clearMemories(userId: string, input: ClearMemoryRequest): Promise<{ cleared: number }> {
+    const cleared = await this.memoryRepository.softDelete(
+      userId,
+      input.vaultId ?? null,
+      input.memoryIds,
+      input.sessionId
+    );
     return { cleared };
   }
 
-  async sessionSummary(sessionId: string) {
-    const session = await this.sessionRepository.findById(sessionId);
-    if (!session) {
+  async sessionSummary(userId: string, sessionId: string, vaultId?: string): Promise<SessionSummary> {
+    const memoryCount = await this.memoryRepository.countActive(userId, vaultId ?? null, sessionId);
+    if (memoryCount === 0) {
       throw new ApiError({
         code: 'SESSION_NOT_FOUND',
         status: 404,
@@ -197,14 +225,12 @@ export class MemoryService {
       });
     }
 
-    const memoryCount = await this.memoryRepository.countActive(sessionId);
-    const lastAccessedAt = await this.memoryRepository.latestAccessed(sessionId);
+    const lastAccessedAt = await this.memoryRepository.latestAccessed(userId, vaultId ?? null, sessionId);
 
     return {
-      id: session.id,
-      externalId: session.externalId,
-      createdAt: session.createdAt.toISOString(),
-      updatedAt: session.updatedAt.toISOString(),
+      id: sessionId,
+      userId,
+      vaultId: vaultId ?? null,
       memoryCount,
       lastAccessedAt: lastAccessedAt?.toISOString() || null
     };
@@ -237,4 +263,3 @@ export class MemoryService {
     return { pruned, candidates: candidates.length };
   }
 }
-
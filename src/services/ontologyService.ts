@@ -0,0 +1,78 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DEFAULT_ONTOLOGY, Ontology, OntologyTerm, normalizeLabel } from '../utils/ontology';
+
+export interface OntologyView extends Ontology {
+  isDefault: boolean; // No custom ontology stored; the built-in one applies
+  updatedAt: Date | null;
+}
+
+/**
+ * Canonical labels in normalized form, synonyms deduplicated
+ */
+const normalizeTerms = (terms: OntologyTerm[]): OntologyTerm[] =>
+  terms.map((term) => {
+    const name = normalizeLabel(term.name);
+    const synonyms = [...new Set((term.synonyms ?? []).map(normalizeLabel))].filter((s) => s && s !== name);
+    return synonyms.length > 0 ? { name, synonyms } : { name };
+  });
+
+/**
+ * OntologyService - Per-user allowed entity types and predicates for graph extraction
+ */
+export class OntologyService {
+  /**
+   * Ontology applied to the user's extractions (custom or built-in)
+   */
+  static async getOntology(userId: string): Promise<Ontology> {
+    const { entityTypes, predicates, strict } = await this.getOntologyView(userId);
+    return { entityTypes, predicates, strict };
+  }
+
+  static async getOntologyView(userId: string): Promise<OntologyView> {
+    const row = await prisma.ontology.findUnique({ where: { userId } });
+    if (!row) {
+      return { ...DEFAULT_ONTOLOGY, isDefault: true, updatedAt: null };
+    }
+
+    return {
+      entityTypes: row.entityTypes as unknown as OntologyTerm[],
+      predicates: row.predicates as unknown as OntologyTerm[],
+      strict: row.strict,
+      isDefault: false,
+      updatedAt: row.updatedAt
+    };
+  }
+
+  static async setOntology(userId: string, input: Ontology): Promise<OntologyView> {
+    const data = {
+      entityTypes: normalizeTerms(input.entityTypes) as unknown as Prisma.InputJsonValue,
+      predicates: normalizeTerms(input.predicates) as unknown as Prisma.InputJsonValue,
+      strict: input.strict
+    };
+
+    await prisma.ontology.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data
+    });
+
+    logger.info('Ontology updated', {
+      userId,
+      entityTypes: input.entityTypes.length,
+      predicates: input.predicates.length,
+      strict: input.strict
+    });
+
+    return this.getOntologyView(userId);
+  }
+
+  /**
+   * Drop the custom ontology and fall back to the built-in one
+   */
+  static async resetOntology(userId: string): Promise<OntologyView> {
+    await prisma.ontology.deleteMany({ where: { userId } });
+    return this.getOntologyView(userId);
+  }
+}
@@ -0,0 +1,176 @@
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { ReembedJobData, ReembedTarget, reembeddingQueue } from '../config/queue';
+import { ApiError } from '../types/errors';
+import { EmbeddingProvider } from './embeddings/EmbeddingProvider';
+
+export interface ReembedResult {
+  model: string;
+  memories: number;
+  entities: number;
+}
+
+export interface ReembedStatus {
+  jobId: string;
+  state: string;
+  progress: number;
+  model: string;
+  target: ReembedTarget;
+  userId: string | null;
+  result: ReembedResult | null;
+  failedReason: string | null;
+}
+
+type ReembedTable = 'Memory' | 'Entity';
+
+interface StaleRow {
+  id: string;
+  text: string;
+}
+
+const PAGE_SIZE = 200;
+
+/**
+ * Rows whose vectors were not produced by `model`. Rows without a recorded model
+ * (stored before model tracking) are always considered stale.
+ */
+const staleWhere = (model: string, userId?: string) => Prisma.sql`
+  "isDeleted" = false AND
+  "embeddingModel" IS DISTINCT FROM ${model}
+  ${userId ? Prisma.sql`AND "userId" = ${userId}` : Prisma.empty}
+`;
+
+/**
+ * Text that gets embedded for each table - must match what ingestion embeds
+ */
+const textColumn = (table: ReembedTable) =>
+  table === 'Memory'
+    ? Prisma.sql`text`
+    : Prisma.sql`name || ' (' || type || '): ' || COALESCE(description, '')`;
+
+const tablesFor = (target: ReembedTarget): ReembedTable[] =>
+  target === 'memories' ? ['Memory'] : target === 'entities' ? ['Entity'] : ['Memory', 'Entity'];
+
+/**
+ * ReembeddingService - Background migration of stored vectors to the current embedding model
+ *
+ * Retrieval only compares vectors from the same model, so after switching providers
+ * (or OpenAI model/dimensions) older rows are invisible until re-embedded here.
+ */
+export class ReembeddingService {
+  static async enqueue(
+    embeddingProvider: EmbeddingProvider,
+    target: ReembedTarget,
+    userId?: string
+  ): Promise<ReembedStatus> {
+    if (!embeddingProvider.isEnabled()) {
+      throw new ApiError({
+        code: 'EMBEDDING_PROVIDER_DISABLED',
+        status: 500,
+        message: 'The embedding provider is not enabled, which is required for re-embedding.'
+      });
+    }
+
+    const job = await reembeddingQueue.add(
+      'reembed',
+      { model: embeddingProvider.model, target, userId },
+      { jobId: `reembed-${randomUUID()}` }
+    );
+
+    logger.info('Re-embedding job enqueued', { jobId: job.id, model: embeddingProvider.model, target, userId });
+
+    return this.getStatus(job.id!);
+  }
+
+  static async getStatus(jobId: string): Promise<ReembedStatus> {
+    const job = await reembeddingQueue.getJob(jobId);
+    if (!job) {
+      throw new ApiError({
+        code: 'REEMBED_JOB_NOT_FOUND',
+        status: 404,
+        message: 'Re-embedding job not found'
+      });
+    }
+
+    return {
+      jobId,
+      state: await job.getState(),
+      progress: typeof job.progress === 'number' ? job.progress : 0,
+      model: job.data.model,
+      target: job.data.target,
+      userId: job.data.userId ?? null,
+      result: (job.returnvalue as ReembedResult | null) ?? null,
+      failedReason: job.failedReason ?? null
+    };
+  }
+
+  /**
+   * Executed by the worker. Pages through stale rows until none are left, so a
+   * retried job resumes where the previous attempt stopped.
+   */
+  static async run(
+    data: ReembedJobData,
+    embeddingProvider: EmbeddingProvider,
+    onProgress: (progress: number) => Promise<void>
+  ): Promise<ReembedResult> {
+    // API and worker must agree on the model, or the job would re-embed into the wrong space
+    if (embeddingProvider.model !== data.model) {
+      throw new Error(`Re-embedding job targets ${data.model} but the worker embeds with ${embeddingProvider.model}`);
+    }
+
+    const tables = tablesFor(data.target);
+    const totals = await Promise.all(tables.map((table) => this.countStale(table, data)));
+    const total = totals.reduce((sum, n) => sum + n, 0);
+
+    const result: ReembedResult = { model: data.model, memories: 0, entities: 0 };
+    let done = 0;
+
+    for (const table of tables) {
+      for (;;) {
+        const rows = await prisma.$queryRaw<StaleRow[]>`
+          SELECT id, ${textColumn(table)} AS text
+          FROM ${Prisma.raw(`"${table}"`)}
+          WHERE ${staleWhere(data.model, data.userId)}
+          ORDER BY id
+          LIMIT ${PAGE_SIZE}
+        `;
+        if (rows.length === 0) break;
+
+        const embeddings = await embeddingProvider.generateEmbeddings(rows.map((r) => r.text));
+
+        await prisma.$transaction(
+          rows.map((row, i) => prisma.$executeRaw`
+            UPDATE ${Prisma.raw(`"${table}"`)}
+            SET
+              embedding = ${`[${embeddings[i].join(',')}]`}::vector,
+              "embeddingModel" = ${data.model},
+              "embeddingDimensions" = ${embeddings[i].length}
+            WHERE id = ${row.id}
+          `)
+        );
+
+        if (table === 'Memory') result.memories += rows.length;
+        else result.entities += rows.length;
+
+        done += rows.length;
+        await onProgress(total > 0 ? Math.min(99, Math.round((done / total) * 100)) : 99);
+      }
+    }
+
+    await onProgress(100);
+    logger.info('Re-embedding completed', { ...result, userId: data.userId });
+
+    return result;
+  }
+
+  private static async countStale(table: ReembedTable, data: ReembedJobData): Promise<number> {
+    const rows = await prisma.$queryRaw<Array<{ count: bigint }>>`
+      SELECT COUNT(*) AS count
+      FROM ${Prisma.raw(`"${table}"`)}
+      WHERE ${staleWhere(data.model, data.userId)}
+    `;
+    return Number(rows[0]?.count ?? 0);
+  }
+}
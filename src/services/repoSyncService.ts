@@ -0,0 +1,302 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { memoryProcessingQueue } from '../config/queue';
+import { UserContext } from '../types/billing';
+import { chunkText } from '../utils/chunking';
+
+export interface RepoRef {
+  owner: string;
+  name: string;
+  branch: string;
+  commit: string;
+}
+
+export interface RepoSyncInput {
+  vaultId?: string;
+  repo: RepoRef;
+  files: Array<{ path: string; content: string }>;
+  enableGraphExtraction?: boolean;
+}
+
+export interface SyncChunk {
+  path: string;
+  index: number;
+  count: number;
+  text: string;
+  contentHash: string;
+}
+
+export interface StoredChunk {
+  id: string;
+  path: string;
+  contentHash: string;
+}
+
+export interface RepoSyncPlan {
+  toEnqueue: SyncChunk[];
+  staleMemoryIds: string[];
+  unchangedChunks: number;
+  files: { added: number; changed: number; unchanged: number; removed: number };
+}
+
+export interface RepoSyncResult {
+  repo: RepoRef;
+  vaultId: string | null;
+  files: RepoSyncPlan['files'];
+  chunksQueued: number;
+  chunksUnchanged: number;
+  memoriesDeleted: number;
+  entitiesDeleted: number;
+  relationshipsDeleted: number;
+  jobIds: string[];
+}
+
+// Marks memories created by repository sync in Memory.metadata.source
+export const REPO_SYNC_SOURCE = 'repo-sync';
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+/**
+ * Chunk a file and hash each chunk
+ */
+export const chunkFile = (path: string, content: string): SyncChunk[] => {
+  const chunks = chunkText(content);
+  return chunks.map((text, index) => ({
+    path,
+    index,
+    count: chunks.length,
+    text,
+    contentHash: sha256(text)
+  }));
+};
+
+/**
+ * Diff incoming chunks against the chunks already stored for the repo.
+ * Unchanged chunks (same path + content hash) are skipped, new ones are queued,
+ * and stored chunks no longer present (edited or deleted files) become stale.
+ */
+export const planRepoSync = (stored: StoredChunk[], incoming: SyncChunk[]): RepoSyncPlan => {
+  const storedByPath = new Map<string, StoredChunk[]>();
+  stored.forEach((chunk) => {
+    storedByPath.set(chunk.path, [...(storedByPath.get(chunk.path) ?? []), chunk]);
+  });
+
+  const incomingByPath = new Map<string, SyncChunk[]>();
+  incoming.forEach((chunk) => {
+    incomingByPath.set(chunk.path, [...(incomingByPath.get(chunk.path) ?? []), chunk]);
+  });
+
+  const plan: RepoSyncPlan = {
+    toEnqueue: [],
+    staleMemoryIds: [],
+    unchangedChunks: 0,
+    files: { added: 0, changed: 0, unchanged: 0, removed: 0 }
+  };
+
+  incomingByPath.forEach((chunks, path) => {
+    const existing = storedByPath.get(path) ?? [];
+    const existingHashes = new Set(existing.map((c) => c.contentHash));
+    const incomingHashes = new Set<string>();
+    let queued = 0;
+
+    chunks.forEach((chunk) => {
+      if (incomingHashes.has(chunk.contentHash)) return; // repeated block within the file
+      incomingHashes.add(chunk.contentHash);
+
+      if (existingHashes.has(chunk.contentHash)) {
+        plan.unchangedChunks++;
+      } else {
+        plan.toEnqueue.push(chunk);
+        queued++;
+      }
+    });
+
+    const stale = existing.filter((c) => !incomingHashes.has(c.contentHash)).map((c) => c.id);
+    plan.staleMemoryIds.push(...stale);
+
+    if (existing.length === 0) {
+      plan.files.added++;
+    } else if (queued === 0 && stale.length === 0) {
+      plan.files.unchanged++;
+    } else {
+      plan.files.changed++;
+    }
+  });
+
+  storedByPath.forEach((chunks, path) => {
+    if (incomingByPath.has(path)) return;
+    plan.staleMemoryIds.push(...chunks.map((c) => c.id));
+    plan.files.removed++;
+  });
+
+  return plan;
+};
+
+/**
+ * RepoSyncService - Incremental ingestion of repository files (memvault-sync action)
+ *
+ * Each sync run is scoped to user + vault + owner/name@branch. Unchanged chunks
+ * cost nothing, so re-running the action on every push is cheap. Graph items
+ * extracted only from stale chunks are soft-deleted along with them.
+ */
+export class RepoSyncService {
+  static async sync(userContext: UserContext, input: RepoSyncInput): Promise<RepoSyncResult> {
+    const { userId } = userContext;
+    const vaultId = input.vaultId ?? null;
+    const { repo } = input;
+
+    const stored = await this.findStoredChunks(userId, vaultId, repo);
+    const incoming = input.files.flatMap((file) => chunkFile(file.path, file.content));
+    const plan = planRepoSync(stored, incoming);
+
+    let removed = { memoriesDeleted: 0, entitiesDeleted: 0, relationshipsDeleted: 0 };
+    if (plan.staleMemoryIds.length > 0) {
+      removed = await prisma.$transaction(async (tx) => {
+        const deleted = await tx.memory.updateMany({
+          where: { id: { in: plan.staleMemoryIds }, userId, isDeleted: false },
+          data: { isDeleted: true }
+        });
+        const graph = await this.deleteOrphanedGraph(tx, userId, plan.staleMemoryIds);
+        return { memoriesDeleted: deleted.count, ...graph };
+      });
+    }
+
+    const repoKey = `${repo.owner}/${repo.name}@${repo.branch}`;
+    const jobs = await memoryProcessingQueue.addBulk(
+      plan.toEnqueue.map((chunk) => ({
+        name: 'process-memory',
+        data: {
+          userId,
+          vaultId: input.vaultId,
+          text: chunk.text,
+          metadata: {
+            source: REPO_SYNC_SOURCE,
+            repo,
+            path: chunk.path,
+            chunkIndex: chunk.index,
+            chunkCount: chunk.count,
+            contentHash: chunk.contentHash
+          },
+          userContext,
+          enableGraphExtraction: input.enableGraphExtraction
+        },
+        opts: {
+          // Deterministic per commit: re-running the same commit never queues twice
+          jobId: `sync-${sha256([userId, vaultId, repoKey, repo.commit, chunk.path, chunk.contentHash].join('|'))}`
+        }
+      }))
+    );
+
+    logger.info('Repository sync planned', {
+      userId,
+      vaultId,
+      repo: repoKey,
+      commit: repo.commit,
+      files: plan.files,
+      queued: jobs.length,
+      unchanged: plan.unchangedChunks,
+      deleted: removed
+    });
+
+    return {
+      repo,
+      vaultId,
+      files: plan.files,
+      chunksQueued: jobs.length,
+      chunksUnchanged: plan.unchangedChunks,
+      ...removed,
+      jobIds: jobs.map((job) => job.id!)
+    };
+  }
+
+  /**
+   * Soft-delete the entities that only the given (just deleted) memories mentioned,
+   * and every edge touching them. Entities the user edited, tied to a user-asserted
+   * edge or backing a consolidated memory are kept. Re-extraction revives the rest.
+   */
+  private static async deleteOrphanedGraph(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    memoryIds: string[]
+  ): Promise<{ entitiesDeleted: number; relationshipsDeleted: number }> {
+    const orphans = await tx.$queryRaw<Array<{ id: string }>>`
+      SELECT e.id
+      FROM "Entity" e
+      WHERE
+        e."userId" = ${userId} AND
+        e."isDeleted" = false AND
+        e."isManual" = false AND
+        EXISTS (
+          SELECT 1 FROM "EntityMention" em
+          WHERE em."entityId" = e.id AND em."memoryId" = ANY(${memoryIds}::text[])
+        ) AND
+        NOT EXISTS (
+          SELECT 1 FROM "EntityMention" em
+          JOIN "Memory" m ON m.id = em."memoryId"
+          WHERE em."entityId" = e.id AND m."isDeleted" = false
+        ) AND
+        NOT EXISTS (
+          SELECT 1 FROM "Memory" m
+          WHERE m."sourceEntityId" = e.id AND m."isDeleted" = false
+        ) AND
+        NOT EXISTS (
+          SELECT 1 FROM "Relationship" r
+          WHERE r."isManual" = true AND r."isDeleted" = false AND e.id IN (r."fromEntityId", r."toEntityId")
+        )
+    `;
+    if (orphans.length === 0) {
+      return { entitiesDeleted: 0, relationshipsDeleted: 0 };
+    }
+
+    const ids = orphans.map((o) => o.id);
+    const relationshipsDeleted = await tx.$executeRaw`
+      UPDATE "Relationship"
+      SET "isDeleted" = true, "updatedAt" = NOW()
+      WHERE
+        "userId" = ${userId} AND
+        "isDeleted" = false AND
+        ("fromEntityId" = ANY(${ids}::text[]) OR "toEntityId" = ANY(${ids}::text[]))
+    `;
+    const entitiesDeleted = await tx.$executeRaw`
+      UPDATE "Entity"
+      SET "isDeleted" = true, "updatedAt" = NOW()
+      WHERE id = ANY(${ids}::text[])
+    `;
+
+    return { entitiesDeleted, relationshipsDeleted };
+  }
+
+  /**
+   * Active chunks previously synced from this repo/branch into the vault
+   */
+  private static async findStoredChunks(
+    userId: string,
+    vaultId: string | null,
+    repo: RepoRef
+  ): Promise<StoredChunk[]> {
+    const memories = await prisma.memory.findMany({
+      where: {
+        userId,
+        vaultId,
+        isDeleted: false,
+        AND: [
+          { metadata: { path: ['source'], equals: REPO_SYNC_SOURCE } },
+          { metadata: { path: ['repo', 'owner'], equals: repo.owner } },
+          { metadata: { path: ['repo', 'name'], equals: repo.name } },
+          { metadata: { path: ['repo', 'branch'], equals: repo.branch } }
+        ]
+      },
+      select: { id: true, metadata: true }
+    });
+
+    return memories.flatMap((memory) => {
+      const metadata = memory.metadata as Prisma.JsonObject | null;
+      const path = metadata?.path;
+      const contentHash = metadata?.contentHash;
+      if (typeof path !== 'string' || typeof contentHash !== 'string') return [];
+      return [{ id: memory.id, path, contentHash }];
+    });
+  }
+}
@@ -0,0 +1,82 @@
+import { logger } from '../../config';
+import { LlmProvider } from '../llm/LlmProvider';
+import { truncateToTokens } from '../../utils/tokenCounter';
+import { RerankCandidate, RerankOutcome, Reranker } from './Reranker';
+
+// Each passage is cut to this many tokens in the prompt
+const MAX_PASSAGE_TOKENS = 200;
+
+/**
+ * Cross-encoder style reranking: the LLM sees the query next to every candidate
+ * and grades each one 0-10. Ungraded candidates score 0; ties keep the retrieval
+ * order. If the reply can't be parsed the retrieval order is kept.
+ */
+export class LlmReranker implements Reranker {
+  readonly name = 'llm' as const;
+
+  constructor(private llmProvider: LlmProvider) {}
+
+  async rerank<T extends RerankCandidate>(query: string, candidates: T[], limit: number): Promise<RerankOutcome<T>> {
+    if (candidates.length === 0) {
+      return { items: [], usage: null };
+    }
+
+    const passages = candidates
+      .map((c, idx) => `[${idx + 1}] ${truncateToTokens(c.text, MAX_PASSAGE_TOKENS)}`)
+      .join('\n\n');
+
+    const { content, usage } = await this.llmProvider.complete({
+      messages: [
+        {
+          role: 'system',
+          content: `You grade how well passages answer a search query.
+Score every passage from 0 (irrelevant) to 10 (directly answers the query).
+
+Return ONLY valid JSON in this exact format:
+{"scores": [{"index": 1, "score": 7}, {"index": 2, "score": 0}]}`
+        },
+        { role: 'user', content: `Query: ${query}\n\nPassages:\n${passages}` }
+      ],
+      temperature: 0,
+      json: true
+    });
+
+    const grades = this.parseGrades(content, candidates.length);
+    if (!grades) {
+      logger.warn('LLM reranker returned no usable scores; keeping retrieval order', { model: this.llmProvider.model });
+      return {
+        items: candidates.slice(0, limit).map((c) => ({ ...c, rerankScore: c.similarity })),
+        usage
+      };
+    }
+
+    const items = candidates
+      .map((c, idx) => ({ ...c, rerankScore: (grades.get(idx) ?? 0) / 10 }))
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+      .slice(0, limit);
+
+    return { items, usage };
+  }
+
+  /**
+   * 0-based candidate index -> grade (0-10), or null when the reply is unusable
+   */
+  private parseGrades(content: string, count: number): Map<number, number> | null {
+    try {
+      const parsed = JSON.parse(content) as { scores?: Array<{ index?: unknown; score?: unknown }> };
+      const grades = new Map<number, number>();
+
+      for (const entry of parsed.scores ?? []) {
+        const index = Number(entry.index) - 1;
+        const score = Number(entry.score);
+        if (Number.isInteger(index) && index >= 0 && index < count && Number.isFinite(score)) {
+          grades.set(index, Math.min(10, Math.max(0, score)));
+        }
+      }
+
+      return grades.size > 0 ? grades : null;
+    } catch {
+      return null;
+    }
+  }
+}
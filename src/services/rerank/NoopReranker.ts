@@ -0,0 +1,15 @@
+import { RerankCandidate, RerankOutcome, Reranker } from './Reranker';
+
+/**
+ * Keeps the retrieval order; rerankScore is the similarity
+ */
+export class NoopReranker implements Reranker {
+  readonly name = 'none' as const;
+
+  async rerank<T extends RerankCandidate>(_query: string, candidates: T[], limit: number): Promise<RerankOutcome<T>> {
+    return {
+      items: candidates.slice(0, limit).map((c) => ({ ...c, rerankScore: c.similarity })),
+      usage: null
+    };
+  }
+}
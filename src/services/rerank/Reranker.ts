@@ -0,0 +1,27 @@
+import { LlmUsage } from '../llm/LlmProvider';
+
+/**
+ * Reranking strategy
+ * - none: keep the retrieval order
+ * - blend: similarity, recency and importance (utils/scoring computeFinalScore)
+ * - llm: the LLM judges each candidate's relevance to the query
+ */
+export type RerankerName = 'none' | 'blend' | 'llm';
+
+export interface RerankCandidate {
+  id: string;
+  text: string;
+  similarity: number;
+  importanceScore: number;
+  createdAt: Date;
+}
+
+export interface RerankOutcome<T> {
+  items: Array<T & { rerankScore: number }>; // Best first, at most `limit`
+  usage: LlmUsage | null; // LLM tokens spent reranking, if any
+}
+
+export interface Reranker {
+  readonly name: RerankerName;
+  rerank<T extends RerankCandidate>(query: string, candidates: T[], limit: number): Promise<RerankOutcome<T>>;
+}
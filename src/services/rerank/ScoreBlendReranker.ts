@@ -0,0 +1,33 @@
+import { ScoringProfile, computeFinalScore, getScoringProfile } from '../../utils/scoring';
+import { RerankCandidate, RerankOutcome, Reranker } from './Reranker';
+
+/**
+ * Orders candidates by the similarity / recency / importance blend used for
+ * memory recall, with the weights and half-life of the given scoring profile
+ */
+export class ScoreBlendReranker implements Reranker {
+  readonly name = 'blend' as const;
+
+  constructor(
+    private profile: ScoringProfile = getScoringProfile('default'),
+    private now: () => number = Date.now
+  ) {}
+
+  async rerank<T extends RerankCandidate>(_query: string, candidates: T[], limit: number): Promise<RerankOutcome<T>> {
+    const now = this.now();
+
+    const items = candidates
+      .map((c) => ({
+        ...c,
+        rerankScore: computeFinalScore({
+          similarity: c.similarity,
+          recencyMs: Math.max(0, now - new Date(c.createdAt).getTime()),
+          importanceScore: c.importanceScore
+        }, this.profile).finalScore
+      }))
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+      .slice(0, limit);
+
+    return { items, usage: null };
+  }
+}
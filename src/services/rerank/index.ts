@@ -0,0 +1,24 @@
+import { getLlmProvider } from '../llm';
+import { LlmProvider } from '../llm/LlmProvider';
+import { LlmReranker } from './LlmReranker';
+import { NoopReranker } from './NoopReranker';
+import { Reranker, RerankerName } from './Reranker';
+import { ScoreBlendReranker } from './ScoreBlendReranker';
+import { ScoringProfile } from '../../utils/scoring';
+
+export function createReranker(
+  name: RerankerName,
+  llmProvider: LlmProvider = getLlmProvider(),
+  scoring?: ScoringProfile // Weights for 'blend'
+): Reranker {
+  switch (name) {
+    case 'none':
+      return new NoopReranker();
+    case 'blend':
+      return new ScoreBlendReranker(scoring);
+    case 'llm':
+      return new LlmReranker(llmProvider);
+    default:
+      throw new Error(`Invalid reranker: ${name}`);
+  }
+}
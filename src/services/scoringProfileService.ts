@@ -0,0 +1,97 @@
+import { Prisma, ScoringSettings } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import {
+  SCORING_PROFILE_NAMES,
+  ScoringProfile,
+  ScoringProfileName,
+  ScoringSelection,
+  ScoringWeights,
+  getScoringProfile,
+  resolveScoringProfile
+} from '../utils/scoring';
+
+export interface ScoringSettingsView {
+  profile: ScoringProfileName;
+  weights: Partial<ScoringWeights> | null; // Stored adjustments, if any
+  halfLifeHours: number | null;
+  effective: ScoringProfile; // What retrieval uses when a request doesn't override it
+  profiles: Record<ScoringProfileName, ScoringProfile>; // Built-in profiles to choose from
+  isDefault: boolean; // Nothing stored; the 'default' profile applies
+  updatedAt: Date | null;
+}
+
+/**
+ * Stored settings, as consumed by MemoryService (the class itself satisfies this)
+ */
+export interface ScoringSettingsStore {
+  getSelection(userId: string): Promise<ScoringSelection | null>;
+}
+
+/**
+ * ScoringProfileService - Per-user similarity / recency / importance blend for memory ranking
+ */
+export class ScoringProfileService {
+  static async getSelection(userId: string): Promise<ScoringSelection | null> {
+    const row = await prisma.scoringSettings.findUnique({ where: { userId } });
+    return row ? this.toSelection(row) : null;
+  }
+
+  /**
+   * Effective profile for a request (stored settings + request overrides)
+   */
+  static async getProfile(userId: string, request?: ScoringSelection): Promise<ScoringProfile> {
+    return resolveScoringProfile(await this.getSelection(userId), request);
+  }
+
+  static async getSettingsView(userId: string): Promise<ScoringSettingsView> {
+    const row = await prisma.scoringSettings.findUnique({ where: { userId } });
+    const selection = row ? this.toSelection(row) : null;
+
+    return {
+      profile: selection?.profile ?? 'default',
+      weights: selection?.weights ?? null,
+      halfLifeHours: selection?.halfLifeHours ?? null,
+      effective: resolveScoringProfile(selection),
+      profiles: Object.fromEntries(
+        SCORING_PROFILE_NAMES.map((name) => [name, getScoringProfile(name)])
+      ) as Record<ScoringProfileName, ScoringProfile>,
+      isDefault: !row,
+      updatedAt: row?.updatedAt ?? null
+    };
+  }
+
+  static async setSettings(userId: string, input: ScoringSelection): Promise<ScoringSettingsView> {
+    const data = {
+      profile: input.profile ?? 'default',
+      weights: input.weights ? (input.weights as Prisma.InputJsonValue) : Prisma.DbNull,
+      halfLifeHours: input.halfLifeHours ?? null
+    };
+
+    await prisma.scoringSettings.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data
+    });
+
+    logger.info('Scoring settings updated', { userId, profile: data.profile });
+
+    return this.getSettingsView(userId);
+  }
+
+  /**
+   * Drop stored settings and fall back to the 'default' profile
+   */
+  static async resetSettings(userId: string): Promise<ScoringSettingsView> {
+    await prisma.scoringSettings.deleteMany({ where: { userId } });
+    return this.getSettingsView(userId);
+  }
+
+  private static toSelection(row: ScoringSettings): ScoringSelection {
+    return {
+      profile: row.profile as ScoringProfileName,
+      ...(row.weights ? { weights: row.weights as Partial<ScoringWeights> } : {}),
+      ...(row.halfLifeHours !== null ? { halfLifeHours: row.halfLifeHours } : {})
+    };
+  }
+}
@@ -0,0 +1,144 @@
+import { Vault } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { ApiError } from '../types/errors';
+
+export interface VaultInput {
+  name: string;
+  description?: string | null;
+}
+
+/**
+ * VaultService - Per-user namespaces for memories and the knowledge graph
+ *
+ * A vault isolates ingestion, retrieval, consolidation and the graph.
+ * Data with vaultId = null lives in the user's default space.
+ */
+export class VaultService {
+  /**
+   * List active vaults with memory counts
+   */
+  static async listVaults(userId: string) {
+    const vaults = await prisma.vault.findMany({
+      where: { userId, isDeleted: false },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        _count: {
+          select: { memories: { where: { isDeleted: false } } }
+        }
+      }
+    });
+
+    return vaults.map(({ _count, ...vault }) => ({
+      ...vault,
+      memoryCount: _count.memories
+    }));
+  }
+
+  /**
+   * Get a vault owned by the user, or throw 404
+   * Also used to authorize a vaultId supplied in a request body.
+   */
+  static async getVault(userId: string, vaultId: string): Promise<Vault> {
+    const vault = await prisma.vault.findFirst({
+      where: { id: vaultId, userId, isDeleted: false }
+    });
+
+    if (!vault) {
+      throw new ApiError({
+        code: 'VAULT_NOT_FOUND',
+        status: 404,
+        message: 'Vault not found'
+      });
+    }
+
+    return vault;
+  }
+
+  static async createVault(userId: string, input: VaultInput): Promise<Vault> {
+    await this.assertNameAvailable(userId, input.name);
+
+    const vault = await prisma.vault.create({
+      data: {
+        userId,
+        name: input.name,
+        description: input.description ?? null
+      }
+    });
+
+    logger.info('Vault created', { userId, vaultId: vault.id });
+    return vault;
+  }
+
+  static async updateVault(userId: string, vaultId: string, input: Partial<VaultInput>): Promise<Vault> {
+    const vault = await this.getVault(userId, vaultId);
+
+    if (input.name && input.name !== vault.name) {
+      await this.assertNameAvailable(userId, input.name);
+    }
+
+    return prisma.vault.update({
+      where: { id: vault.id },
+      data: {
+        name: input.name,
+        description: input.description
+      }
+    });
+  }
+
+  /**
+   * Soft-delete a vault together with its memories and graph
+   */
+  static async deleteVault(userId: string, vaultId: string) {
+    const vault = await this.getVault(userId, vaultId);
+
+    const [memories, relationships, entities] = await prisma.$transaction([
+      prisma.memory.updateMany({
+        where: { userId, vaultId: vault.id, isDeleted: false },
+        data: { isDeleted: true }
+      }),
+      prisma.relationship.updateMany({
+        where: { userId, vaultId: vault.id, isDeleted: false },
+        data: { isDeleted: true }
+      }),
+      prisma.entity.updateMany({
+        where: { userId, vaultId: vault.id, isDeleted: false },
+        data: { isDeleted: true }
+      }),
+      prisma.vault.update({
+        where: { id: vault.id },
+        data: { isDeleted: true }
+      })
+    ]);
+
+    logger.info('Vault deleted', {
+      userId,
+      vaultId: vault.id,
+      memories: memories.count,
+      entities: entities.count,
+      relationships: relationships.count
+    });
+
+    return {
+      vaultId: vault.id,
+      memoriesDeleted: memories.count,
+      entitiesDeleted: entities.count,
+      relationshipsDeleted: relationships.count
+    };
+  }
+
+  private static async assertNameAvailable(userId: string, name: string): Promise<void> {
+    const existing = await prisma.vault.findFirst({
+      where: { userId, name, isDeleted: false },
+      select: { id: true }
+    });
+
+    if (existing) {
+      throw new ApiError({
+        code: 'VAULT_NAME_TAKEN',
+        status: 409,
+        message: `A vault named "${name}" already exists`
+      });
+    }
+  }
+}
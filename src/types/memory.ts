@@ -1,7 +1,10 @@
+import { ScoringOverrides, ScoringProfileName } from '../utils/scoring';
+
 export type ImportanceHint = 'low' | 'medium' | 'high';
 
 export interface StoreMemoryRequest {
-  sessionId: string;
+  vaultId?: string;
+  sessionId?: string; // Legacy session scope, stored in metadata.sessionId
   text: string;
   metadata?: Record<string, unknown>;
   importanceHint?: ImportanceHint;
@@ -9,18 +12,23 @@ export interface StoreMemoryRequest {
 
 export interface StoreMemoryResponse {
   id: string;
-  sessionId: string;
+  userId: string;
+  sessionId?: string;
   importanceScore: number;
   createdAt: string;
 }
 
 export interface RetrieveMemoryRequest {
-  sessionId: string;
+  vaultId?: string;
+  sessionId?: string;
   query: string;
   limit?: number;
   minScore?: number;
   maxTokens?: number;
   metadata?: Record<string, unknown>;
+  scoringProfile?: ScoringProfileName; // Instead of the user's stored profile
+  scoring?: ScoringOverrides; // Weight / half-life adjustments for this request
+  mmrLambda?: number; // Diversify results with MMR: 1 = relevance only, 0 = novelty only
 }
 
 export interface MemoryResult {
@@ -37,22 +45,23 @@ export interface MemoryResult {
 }
 
 export interface RetrieveMemoryResponse {
-  sessionId: string;
+  userId: string;
+  sessionId?: string;
   query: string;
   tokenUsage: number;
   results: MemoryResult[];
 }
 
 export interface ClearMemoryRequest {
-  sessionId: string;
+  vaultId?: string;
+  sessionId?: string;
   memoryIds?: string[];
 }
 
 export interface SessionSummary {
   id: string;
-  createdAt: string;
-  updatedAt: string;
-  externalId?: string | null;
+  userId: string;
+  vaultId: string | null;
   memoryCount: number;
   lastAccessedAt?: string | null;
 }
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { env } from '../config';
+
+export interface ChunkOptions {
+  maxChars?: number;
+  overlap?: number; // Characters of the previous chunk repeated at the start of the next
+}
+
+interface Segment {
+  text: string;
+  separator: string; // Joins the segment to the previous one within a chunk
+  startsSection: boolean;
+}
+
+const SENTENCE_BOUNDARY = /(?<=[.!?])\s+(?=\S)/;
+const HEADING = /^#{1,6}\s/;
+
+/**
+ * Split an over-long piece at the last whitespace before the limit
+ */
+const hardSplit = (piece: string, maxChars: number): string[] => {
+  const parts: string[] = [];
+  let rest = piece;
+
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const cut = window.lastIndexOf(' ');
+    const at = cut > maxChars / 2 ? cut : maxChars;
+    parts.push(rest.slice(0, at).trim());
+    rest = rest.slice(at).trim();
+  }
+
+  if (rest.length > 0) parts.push(rest);
+  return parts;
+};
+
+/**
+ * Paragraphs that fit stay whole; longer ones are split into sentences
+ * (and sentences into words as a last resort)
+ */
+const toSegments = (text: string, maxChars: number): Segment[] =>
+  text
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => paragraph.length > 0)
+    .flatMap((paragraph) => {
+      const startsSection = HEADING.test(paragraph);
+      if (paragraph.length <= maxChars) {
+        return [{ text: paragraph, separator: '\n\n', startsSection }];
+      }
+
+      return paragraph
+        .split(SENTENCE_BOUNDARY)
+        .flatMap((sentence) => hardSplit(sentence, maxChars))
+        .map((piece, i) => ({
+          text: piece,
+          separator: i === 0 ? '\n\n' : ' ',
+          startsSection: startsSection && i === 0
+        }));
+    });
+
+/**
+ * Tail of a chunk to carry over, starting at a sentence (or word) boundary
+ */
+const overlapTail = (chunk: string, size: number): string => {
+  const limit = Math.min(size, Math.floor(chunk.length / 2));
+  if (limit <= 0) return '';
+
+  const tail = chunk.slice(-limit);
+  const sentenceStart = tail.search(/[.!?]\s+\S/);
+  if (sentenceStart >= 0) {
+    return tail.slice(sentenceStart + 1).trim();
+  }
+
+  const wordStart = tail.indexOf(' ');
+  return wordStart >= 0 ? tail.slice(wordStart).trim() : '';
+};
+
+/**
+ * Split a document into chunks of at most maxChars.
+ * Paragraphs are packed greedily, a markdown heading always starts a new chunk,
+ * and consecutive chunks within a section share `overlap` characters of context.
+ */
+export const chunkText = (text: string, options: ChunkOptions = {}): string[] => {
+  const maxChars = options.maxChars ?? env.chunking.maxChars;
+  const overlap = options.overlap ?? env.chunking.overlap;
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const segment of toSegments(text, maxChars)) {
+    if (!current) {
+      current = segment.text;
+      continue;
+    }
+
+    const fits = current.length + segment.separator.length + segment.text.length <= maxChars;
+    if (!segment.startsSection && fits) {
+      current = `${current}${segment.separator}${segment.text}`;
+      continue;
+    }
+
+    chunks.push(current);
+    const tail = segment.startsSection
+      ? ''
+      : overlapTail(current, Math.min(overlap, maxChars - segment.text.length - 1));
+    current = tail ? `${tail} ${segment.text}` : segment.text;
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+};
@@ -0,0 +1,157 @@
+import { countTokens, truncateToTokens } from './tokenCounter';
+
+export type ContextSectionKey = 'memories' | 'entities' | 'graphNodes';
+
+export interface ContextItem {
+  id: string;
+  score: number; // Higher survives the budget first
+  text: string; // Full rendering, including its trailing newline(s)
+  brief?: string; // Shorter rendering used when the full one doesn't fit
+  truncatable?: boolean; // Prose that may be cut to fit
+}
+
+export interface ContextSection {
+  key: ContextSectionKey;
+  header: string;
+  items: ContextItem[]; // In display order
+  share: number; // Fraction of the budget reserved for this section
+}
+
+export interface ContextReport {
+  maxTokens: number | null;
+  tokens: number;
+  dropped: Record<ContextSectionKey, string[]>; // Item IDs left out entirely
+  shortened: Record<ContextSectionKey, string[]>; // Item IDs rendered briefly or truncated
+}
+
+export interface AssembledContext {
+  text: string;
+  report: ContextReport;
+}
+
+const EMPTY_CONTEXT = 'No relevant information found.';
+
+// A truncated passage shorter than this isn't worth including
+const MIN_TRUNCATED_TOKENS = 24;
+
+interface Selection {
+  text: string;
+  tokens: number;
+  shortened: boolean;
+}
+
+const emptyIds = (): Record<ContextSectionKey, string[]> => ({ memories: [], entities: [], graphNodes: [] });
+
+/**
+ * Fit an item into `available` tokens: in full, briefly, truncated, or not at all
+ */
+const fit = (item: ContextItem, available: number): Selection | null => {
+  const full = countTokens(item.text);
+  if (full <= available) return { text: item.text, tokens: full, shortened: false };
+
+  if (item.brief) {
+    const brief = countTokens(item.brief);
+    if (brief <= available) return { text: item.brief, tokens: brief, shortened: true };
+  }
+
+  if (item.truncatable && available >= MIN_TRUNCATED_TOKENS) {
+    const body = item.text.trimEnd();
+    const trailing = item.text.slice(body.length);
+    const text = truncateToTokens(body, available - countTokens(trailing)) + trailing;
+    return { text, tokens: countTokens(text), shortened: true };
+  }
+
+  return null;
+};
+
+/**
+ * Render context sections within `maxTokens` (unbounded when omitted).
+ *
+ * Each section first gets its share of the budget (after section headers) and
+ * fills it with its highest-scoring items; tokens a section leaves unused are then
+ * offered to the items that didn't fit, best first across all sections. Items keep
+ * their display order, so numbering such as "[3]" stays meaningful.
+ */
+export const assembleContext = (sections: ContextSection[], maxTokens?: number): AssembledContext => {
+  const dropped = emptyIds();
+  const shortened = emptyIds();
+  const selected = new Map<ContextItem, Selection>();
+  const populated = sections.filter((s) => s.items.length > 0);
+
+  if (maxTokens === undefined) {
+    populated.forEach((s) =>
+      s.items.forEach((item) => selected.set(item, { text: item.text, tokens: 0, shortened: false }))
+    );
+  } else {
+    const headerTokens = populated.reduce((total, s) => total + countTokens(s.header), 0);
+    const itemBudget = Math.max(0, maxTokens - headerTokens);
+    const totalShare = populated.reduce((total, s) => total + s.share, 0) || 1;
+    let leftover = itemBudget;
+
+    // Pass 1: each section within its own share
+    const pending: ContextItem[] = [];
+    for (const section of populated) {
+      let available = Math.floor((itemBudget * section.share) / totalShare);
+      for (const item of [...section.items].sort((a, b) => b.score - a.score)) {
+        const selection = fit(item, available);
+        if (selection && !selection.shortened) {
+          selected.set(item, selection);
+          available -= selection.tokens;
+          leftover -= selection.tokens;
+        } else {
+          pending.push(item);
+        }
+      }
+    }
+
+    // Pass 2: unused share goes to the best remaining items, shortened if need be
+    for (const item of pending.sort((a, b) => b.score - a.score)) {
+      const selection = fit(item, leftover);
+      if (!selection) continue;
+      selected.set(item, selection);
+      leftover -= selection.tokens;
+    }
+  }
+
+  const render = () => {
+    const parts = populated
+      .map((section) => {
+        const body = section.items
+          .filter((item) => selected.has(item))
+          .map((item) => selected.get(item)!.text)
+          .join('');
+        return body ? section.header + body : '';
+      })
+      .filter(Boolean);
+    return parts.map((part) => part.trimEnd()).join('\n\n') || EMPTY_CONTEXT;
+  };
+
+  let text = render();
+
+  // Items were counted one by one; if the joined text still runs over, shed the weakest
+  if (maxTokens !== undefined) {
+    const byScore = [...selected.keys()].sort((a, b) => a.score - b.score);
+    while (countTokens(text) > maxTokens && byScore.length > 0) {
+      selected.delete(byScore.shift()!);
+      text = render();
+    }
+  }
+
+  for (const section of populated) {
+    for (const item of section.items) {
+      const selection = selected.get(item);
+      if (!selection) dropped[section.key].push(item.id);
+      else if (selection.shortened) shortened[section.key].push(item.id);
+    }
+  }
+
+  return {
+    text,
+    report: {
+      maxTokens: maxTokens ?? null,
+      tokens: countTokens(text),
+      dropped,
+      shortened
+    }
+  };
+};
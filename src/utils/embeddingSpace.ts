@@ -0,0 +1,31 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * The model + dimension a vector was produced in.
+ * Cosine similarity is only meaningful between vectors of the same space.
+ */
+export interface EmbeddingSpace {
+  model: string;
+  dimensions: number;
+}
+
+const column = (name: string, alias?: string) => Prisma.raw(alias ? `${alias}."${name}"` : `"${name}"`);
+
+/**
+ * Row belongs to the given space. Rows embedded before model tracking
+ * (embeddingModel IS NULL) match on dimensions alone.
+ */
+export const inEmbeddingSpace = (space: EmbeddingSpace, alias?: string): Prisma.Sql => Prisma.sql`(
+  ${column('embeddingModel', alias)} = ${space.model} OR
+  (${column('embeddingModel', alias)} IS NULL AND ${column('embeddingDimensions', alias)} = ${space.dimensions})
+)`;
+
+/**
+ * Cosine similarity to the query vector, NULL for rows from another space.
+ * The CASE guard keeps pgvector from ever comparing vectors of different dimensions,
+ * whatever order the planner evaluates the WHERE clause in.
+ */
+export const cosineSimilarity = (embeddingString: string, space: EmbeddingSpace, alias?: string): Prisma.Sql =>
+  Prisma.sql`(CASE WHEN ${inEmbeddingSpace(space, alias)}
+    THEN 1 - (${column('embedding', alias)} <=> ${embeddingString}::vector)
+  END)`;
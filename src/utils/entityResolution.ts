@@ -0,0 +1,147 @@
+export interface ResolutionEntity {
+  id: string;
+  name: string;
+  type: string;
+  importance: number;
+  createdAt: Date;
+}
+
+export interface MergeScore {
+  score: number; // Weighted blend used for the decision
+  nameScore: number;
+  embeddingScore: number;
+}
+
+export type MergeDecision = 'merge' | 'propose' | 'ignore';
+
+export const MERGE_THRESHOLDS = {
+  autoMerge: 0.9, // Combined score to merge without review...
+  autoMergeName: 0.85, // ...provided the names alone are this close
+  propose: 0.75 // Combined score to record a candidate for review
+};
+
+const NAME_WEIGHT = 0.6;
+const EMBEDDING_WEIGHT = 0.4;
+
+// Catch-all types that can be merged into a specific one
+const GENERIC_TYPES = new Set(['CONCEPT', 'ENTITY', 'THING', 'OTHER', 'UNKNOWN']);
+
+/**
+ * Lowercase word tokens without diacritics or punctuation ("J. Doe" -> ["j", "doe"])
+ */
+export const nameTokens = (name: string): string[] =>
+  name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) ?? [];
+
+/**
+ * Alias lookup key
+ */
+export const normalizeEntityName = (name: string): string => nameTokens(name).join(' ');
+
+export const typesCompatible = (a: string, b: string): boolean =>
+  a === b || GENERIC_TYPES.has(a) || GENERIC_TYPES.has(b);
+
+const bigrams = (value: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (let i = 0; i + 2 <= value.length; i++) {
+    const gram = value.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return counts;
+};
+
+/**
+ * Sørensen–Dice coefficient over character bigrams (typos, inflections)
+ */
+const diceSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let overlap = 0;
+  left.forEach((count, gram) => {
+    overlap += Math.min(count, right.get(gram) ?? 0);
+  });
+  return (2 * overlap) / (a.length - 1 + b.length - 1);
+};
+
+/**
+ * Every token of the shorter name matches a distinct token of the longer one,
+ * exactly or as an initial ("J." ~ "John"). Scaled down when the longer name
+ * has extra tokens, so "John" ~ "John Doe" scores below "J. Doe" ~ "John Doe".
+ */
+const tokenAlignment = (a: string[], b: string[]): number => {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  const available = [...longer];
+  let matched = 0;
+
+  for (const token of shorter) {
+    let index = available.indexOf(token);
+    let weight = 1;
+    if (index === -1) {
+      index = available.findIndex(
+        (candidate) => (token.length === 1 && candidate.startsWith(token)) || (candidate.length === 1 && token.startsWith(candidate))
+      );
+      weight = 0.8;
+    }
+    if (index === -1) return 0;
+    available.splice(index, 1);
+    matched += weight;
+  }
+
+  return (matched / shorter.length) * (0.75 + 0.25 * (shorter.length / longer.length));
+};
+
+/**
+ * Name similarity in [0, 1]
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const left = nameTokens(a);
+  const right = nameTokens(b);
+  if (left.length === 0 || right.length === 0) return 0;
+  if (left.join(' ') === right.join(' ')) return 1;
+
+  return Math.max(diceSimilarity(left.join(' '), right.join(' ')), tokenAlignment(left, right));
+};
+
+export const scoreMerge = (nameA: string, nameB: string, embeddingScore: number): MergeScore => {
+  const nameScore = nameSimilarity(nameA, nameB);
+  return {
+    score: NAME_WEIGHT * nameScore + EMBEDDING_WEIGHT * embeddingScore,
+    nameScore,
+    embeddingScore
+  };
+};
+
+export const decideMerge = ({ score, nameScore }: MergeScore, thresholds = MERGE_THRESHOLDS): MergeDecision => {
+  if (score >= thresholds.autoMerge && nameScore >= thresholds.autoMergeName) return 'merge';
+  if (score >= thresholds.propose) return 'propose';
+  return 'ignore';
+};
+
+/**
+ * Which of two entities survives a merge: the specific type over a generic one,
+ * then the fuller name, then the more important, then the older entity
+ */
+export const pickCanonical = <T extends ResolutionEntity>(a: T, b: T): { target: T; source: T } => {
+  const rank = (e: ResolutionEntity) => [
+    GENERIC_TYPES.has(e.type) ? 0 : 1,
+    nameTokens(e.name).length,
+    e.name.length,
+    e.importance,
+    -e.createdAt.getTime()
+  ];
+
+  const ra = rank(a);
+  const rb = rank(b);
+  for (let i = 0; i < ra.length; i++) {
+    if (ra[i] !== rb[i]) {
+      return ra[i] > rb[i] ? { target: a, source: b } : { target: b, source: a };
+    }
+  }
+  return a.id < b.id ? { target: a, source: b } : { target: b, source: a };
+};
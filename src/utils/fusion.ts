@@ -0,0 +1,34 @@
+export interface FusedResult<T> {
+  item: T;
+  score: number;
+}
+
+/**
+ * Reciprocal Rank Fusion:
+ * score(d) = Σ 1 / (k + rank_i(d))
+ * - Combines rankings without needing comparable raw scores (cosine vs ts_rank).
+ * - k dampens the advantage of top ranks; 60 is the value from the original paper.
+ * When an item appears in several rankings, the first occurrence is kept.
+ */
+export const reciprocalRankFusion = <T>(
+  rankings: T[][],
+  getId: (item: T) => string,
+  k = 60
+): FusedResult<T>[] => {
+  const fused = new Map<string, FusedResult<T>>();
+
+  rankings.forEach((ranking) => {
+    ranking.forEach((item, index) => {
+      const id = getId(item);
+      const contribution = 1 / (k + index + 1);
+      const existing = fused.get(id);
+      if (existing) {
+        existing.score += contribution;
+      } else {
+        fused.set(id, { item, score: contribution });
+      }
+    });
+  });
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+};
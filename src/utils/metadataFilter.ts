@@ -0,0 +1,164 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+/**
+ * Metadata filter DSL for retrieval queries (Mongo-style):
+ *
+ * {
+ *   "repo.name": "memvault",                  // equality (dot paths reach nested keys)
+ *   "source": { "$in": ["github", "sdk"] },   // set membership
+ *   "conversationId": { "$exists": true },    // key presence
+ *   "priority": { "$gte": 2, "$lt": 5 },      // numeric (or string) ranges
+ *   "createdAt": { "$gte": "2025-01-01T00:00:00Z" }  // bounds on the row's createdAt
+ * }
+ *
+ * All conditions are AND'ed and compiled to jsonb predicates on the Memory.metadata column.
+ */
+
+const scalarSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+const rangeValueSchema = z.union([z.string(), z.number()]);
+
+const fieldOperatorsSchema = z
+  .object({
+    $eq: scalarSchema,
+    $ne: scalarSchema,
+    $in: z.array(scalarSchema).min(1).max(100),
+    $nin: z.array(scalarSchema).min(1).max(100),
+    $exists: z.boolean(),
+    $gt: rangeValueSchema,
+    $gte: rangeValueSchema,
+    $lt: rangeValueSchema,
+    $lte: rangeValueSchema
+  })
+  .partial()
+  .strict()
+  .refine((ops) => Object.keys(ops).length > 0, 'At least one operator is required');
+
+const createdAtSchema = z
+  .object({
+    $gt: z.string().datetime(),
+    $gte: z.string().datetime(),
+    $lt: z.string().datetime(),
+    $lte: z.string().datetime()
+  })
+  .partial()
+  .strict()
+  .refine((ops) => Object.keys(ops).length > 0, 'At least one operator is required');
+
+const FIELD_PATH = /^[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+)*$/;
+
+export const metadataFilterSchema = z
+  .object({ createdAt: createdAtSchema.optional() })
+  .catchall(z.union([scalarSchema, fieldOperatorsSchema]))
+  .superRefine((filter, ctx) => {
+    Object.keys(filter).forEach((key) => {
+      if (!FIELD_PATH.test(key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: 'Filter keys must be alphanumeric paths separated by dots'
+        });
+      }
+    });
+  });
+
+export type MetadataFilter = z.infer<typeof metadataFilterSchema>;
+type Scalar = z.infer<typeof scalarSchema>;
+type FieldOperators = z.infer<typeof fieldOperatorsSchema>;
+
+const RANGE_OPERATORS = {
+  $gt: '>',
+  $gte: '>=',
+  $lt: '<',
+  $lte: '<='
+} as const;
+
+/**
+ * Build {"a": {"b": value}} for containment checks on path a.b
+ */
+const nestValue = (path: string[], value: Scalar): unknown =>
+  path.reduceRight<unknown>((acc, key) => ({ [key]: acc }), value);
+
+const compileField = (column: Prisma.Sql, path: string[], condition: Scalar | FieldOperators): Prisma.Sql[] => {
+  const valueAt = Prisma.sql`(${column} #> ${path}::text[])`;
+  const textAt = Prisma.sql`(${column} #>> ${path}::text[])`;
+
+  if (condition === null || typeof condition !== 'object') {
+    return [Prisma.sql`${column} @> ${JSON.stringify(nestValue(path, condition))}::jsonb`];
+  }
+
+  const clauses: Prisma.Sql[] = [];
+
+  if (condition.$eq !== undefined) {
+    clauses.push(Prisma.sql`${column} @> ${JSON.stringify(nestValue(path, condition.$eq))}::jsonb`);
+  }
+  if (condition.$ne !== undefined) {
+    clauses.push(Prisma.sql`NOT (${column} @> ${JSON.stringify(nestValue(path, condition.$ne))}::jsonb)`);
+  }
+  if (condition.$in) {
+    const values = condition.$in.map((v) => JSON.stringify(v));
+    clauses.push(Prisma.sql`${valueAt} = ANY(${values}::jsonb[])`);
+  }
+  if (condition.$nin) {
+    const values = condition.$nin.map((v) => JSON.stringify(v));
+    clauses.push(Prisma.sql`NOT COALESCE(${valueAt} = ANY(${values}::jsonb[]), false)`);
+  }
+  if (condition.$exists !== undefined) {
+    clauses.push(condition.$exists ? Prisma.sql`${valueAt} IS NOT NULL` : Prisma.sql`${valueAt} IS NULL`);
+  }
+
+  (Object.keys(RANGE_OPERATORS) as Array<keyof typeof RANGE_OPERATORS>).forEach((op) => {
+    const value = condition[op];
+    if (value === undefined) return;
+    const sqlOp = Prisma.raw(RANGE_OPERATORS[op]);
+
+    if (typeof value === 'number') {
+      // Guard the cast so non-numeric values simply don't match instead of erroring
+      clauses.push(Prisma.sql`
+        CASE WHEN jsonb_typeof(${valueAt}) = 'number'
+          THEN ${textAt}::numeric ${sqlOp} ${value}
+          ELSE false
+        END`);
+    } else {
+      clauses.push(Prisma.sql`${textAt} ${sqlOp} ${value}`);
+    }
+  });
+
+  return clauses;
+};
+
+/**
+ * Compile a filter to SQL conditions, each prefixed with AND
+ * (ready to append to an existing WHERE clause). Returns Prisma.empty for no filter.
+ *
+ * @param filter - Validated filter
+ * @param alias - Optional table alias used by the surrounding query
+ */
+export const compileMetadataFilter = (filter: MetadataFilter | undefined, alias?: string): Prisma.Sql => {
+  if (!filter) return Prisma.empty;
+
+  const prefix = alias ? `${alias}.` : '';
+  const metadataColumn = Prisma.raw(`${prefix}metadata`);
+  const createdAtColumn = Prisma.raw(`${prefix}"createdAt"`);
+  const clauses: Prisma.Sql[] = [];
+
+  Object.entries(filter).forEach(([key, condition]) => {
+    if (condition === undefined) return;
+
+    if (key === 'createdAt') {
+      const bounds = condition as z.infer<typeof createdAtSchema>;
+      (Object.keys(RANGE_OPERATORS) as Array<keyof typeof RANGE_OPERATORS>).forEach((op) => {
+        const value = bounds[op];
+        if (value === undefined) return;
+        clauses.push(Prisma.sql`${createdAtColumn} ${Prisma.raw(RANGE_OPERATORS[op])} ${new Date(value)}`);
+      });
+      return;
+    }
+
+    clauses.push(...compileField(metadataColumn, key.split('.'), condition as Scalar | FieldOperators));
+  });
+
+  if (clauses.length === 0) return Prisma.empty;
+
+  return Prisma.sql`AND ${Prisma.join(clauses, ' AND ')}`;
+};
@@ -0,0 +1,57 @@
+export interface MmrCandidate {
+  relevance: number; // Score against the query, higher is better
+  embedding: number[] | null; // Stored vector; null counts as unlike every other candidate
+}
+
+/**
+ * Cosine similarity of two vectors; 0 when either is missing, empty, or they
+ * differ in dimension (different embedding models aren't comparable)
+ */
+export const cosine = (a: number[] | null, b: number[] | null): number => {
+  if (!a || !b || a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
+
+/**
+ * Maximal marginal relevance: greedily pick the candidate maximising
+ *   lambda * relevance - (1 - lambda) * max similarity to anything already picked
+ * lambda = 1 is plain relevance order; lower values trade relevance for coverage,
+ * so a fact stored several times is returned once.
+ *
+ * @returns indexes into `candidates`, in pick order (at most `k`)
+ */
+export const maximalMarginalRelevance = (candidates: MmrCandidate[], k: number, lambda: number): number[] => {
+  const remaining = candidates.map((_, idx) => idx);
+  const picked: number[] = [];
+  // Highest similarity of each candidate to the picked set so far
+  const redundancy = candidates.map(() => 0);
+
+  while (picked.length < k && remaining.length > 0) {
+    let best = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((idx, position) => {
+      const score = lambda * candidates[idx].relevance - (1 - lambda) * redundancy[idx];
+      if (score > bestScore) {
+        bestScore = score;
+        best = position;
+      }
+    });
+
+    const [chosen] = remaining.splice(best, 1);
+    picked.push(chosen);
+    for (const idx of remaining) {
+      redundancy[idx] = Math.max(redundancy[idx], cosine(candidates[idx].embedding, candidates[chosen].embedding));
+    }
+  }
+
+  return picked;
+};
@@ -0,0 +1,155 @@
+export interface OntologyTerm {
+  name: string; // Canonical label, e.g. BOUGHT
+  synonyms?: string[]; // Labels mapped onto it, e.g. PURCHASED
+}
+
+export interface Ontology {
+  entityTypes: OntologyTerm[];
+  predicates: OntologyTerm[];
+  strict: boolean; // Drop off-ontology items; otherwise keep them (normalized)
+}
+
+export interface RawEntity {
+  name: string;
+  type: string;
+  description?: string | null;
+}
+
+export interface RawRelationship {
+  from: string;
+  to: string;
+  predicate: string;
+}
+
+export interface NormalizedGraph {
+  entities: Array<{ name: string; type: string; description?: string }>;
+  relationships: RawRelationship[];
+  dropped: { entities: number; relationships: number };
+}
+
+/**
+ * Built-in ontology for users who haven't configured one. Not strict, so
+ * unknown labels survive; it only folds common synonyms together.
+ */
+export const DEFAULT_ONTOLOGY: Ontology = {
+  entityTypes: [
+    { name: 'PERSON', synonyms: ['PEOPLE', 'HUMAN', 'INDIVIDUAL', 'USER'] },
+    { name: 'ORGANIZATION', synonyms: ['COMPANY', 'ORG', 'BUSINESS', 'INSTITUTION'] },
+    { name: 'PRODUCT', synonyms: ['ITEM', 'DEVICE'] },
+    { name: 'LOCATION', synonyms: ['PLACE', 'CITY', 'COUNTRY', 'ADDRESS'] },
+    { name: 'TECHNOLOGY', synonyms: ['TOOL', 'SOFTWARE', 'FRAMEWORK', 'LIBRARY', 'LANGUAGE'] },
+    { name: 'PROJECT' },
+    { name: 'EVENT' },
+    { name: 'CONCEPT', synonyms: ['IDEA', 'TOPIC'] }
+  ],
+  predicates: [
+    { name: 'BOUGHT', synonyms: ['PURCHASED', 'ACQUIRED', 'ORDERED'] },
+    { name: 'OWNS', synonyms: ['HAS', 'POSSESSES'] },
+    { name: 'LIKES', synonyms: ['LOVES', 'ENJOYS', 'PREFERS'] },
+    { name: 'DISLIKES', synonyms: ['HATES'] },
+    { name: 'WORKS_AT', synonyms: ['EMPLOYED_BY', 'WORKS_FOR'] },
+    { name: 'LOCATED_IN', synonyms: ['BASED_IN', 'LIVES_IN', 'IN'] },
+    { name: 'USES', synonyms: ['UTILIZES', 'USED'] },
+    { name: 'KNOWS', synonyms: ['FRIENDS_WITH', 'MET'] },
+    { name: 'PART_OF', synonyms: ['MEMBER_OF', 'BELONGS_TO'] },
+    { name: 'CREATED', synonyms: ['BUILT', 'MADE', 'AUTHORED', 'WROTE'] },
+    { name: 'RELATED_TO', synonyms: ['ASSOCIATED_WITH'] }
+  ],
+  strict: false
+};
+
+/**
+ * Canonical label form: trimmed, upper snake case ("works at" -> WORKS_AT)
+ */
+export const normalizeLabel = (label: string): string =>
+  label
+    .trim()
+    .toUpperCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '_')
+    .replace(/^_+|_+$/g, '');
+
+/**
+ * label/synonym (normalized) -> canonical name
+ */
+const buildLookup = (terms: OntologyTerm[]): Map<string, string> => {
+  const lookup = new Map<string, string>();
+  for (const term of terms) {
+    const canonical = normalizeLabel(term.name);
+    lookup.set(canonical, canonical);
+    for (const synonym of term.synonyms ?? []) {
+      const key = normalizeLabel(synonym);
+      // The first term claiming a synonym wins; canonical names are never remapped
+      if (!lookup.has(key)) lookup.set(key, canonical);
+    }
+  }
+  return lookup;
+};
+
+/**
+ * Map extracted labels onto the ontology. Off-ontology labels are dropped in
+ * strict mode and kept (normalized) otherwise. Relationships referencing a
+ * dropped or unknown entity are dropped too, as are duplicates.
+ */
+export const applyOntology = (
+  entities: RawEntity[],
+  relationships: RawRelationship[],
+  ontology: Ontology
+): NormalizedGraph => {
+  const types = buildLookup(ontology.entityTypes);
+  const predicates = buildLookup(ontology.predicates);
+
+  const resolve = (lookup: Map<string, string>, label: string): string | null => {
+    const normalized = normalizeLabel(label);
+    if (!normalized) return null;
+    return lookup.get(normalized) ?? (ontology.strict ? null : normalized);
+  };
+
+  const keptEntities: NormalizedGraph['entities'] = [];
+  const entityKeys = new Set<string>();
+  const keptNames = new Set<string>();
+  for (const entity of entities) {
+    const name = entity.name.trim();
+    const type = resolve(types, entity.type);
+    if (!name || !type || entityKeys.has(`${name}\u0000${type}`)) continue;
+
+    entityKeys.add(`${name}\u0000${type}`);
+    keptNames.add(name);
+    keptEntities.push({ name, type, ...(entity.description ? { description: entity.description } : {}) });
+  }
+
+  const keptRelationships: RawRelationship[] = [];
+  const relationshipKeys = new Set<string>();
+  for (const relationship of relationships) {
+    const from = relationship.from.trim();
+    const to = relationship.to.trim();
+    const predicate = resolve(predicates, relationship.predicate);
+    const key = `${from}\u0000${to}\u0000${predicate}`;
+    if (!predicate || !keptNames.has(from) || !keptNames.has(to) || relationshipKeys.has(key)) continue;
+
+    relationshipKeys.add(key);
+    keptRelationships.push({ from, to, predicate });
+  }
+
+  return {
+    entities: keptEntities,
+    relationships: keptRelationships,
+    dropped: {
+      entities: entities.length - keptEntities.length,
+      relationships: relationships.length - keptRelationships.length
+    }
+  };
+};
+
+/**
+ * Prompt section describing the allowed labels
+ */
+export const describeOntology = (ontology: Ontology): string => {
+  const list = (terms: OntologyTerm[]) => terms.map((t) => normalizeLabel(t.name)).join(', ');
+  const mode = ontology.strict
+    ? 'Use ONLY these labels; anything else is discarded.'
+    : 'Prefer these labels; only introduce a new one when none fits.';
+
+  return `Entity types: ${list(ontology.entityTypes)}
+Predicates: ${list(ontology.predicates)}
+${mode}`;
+};
@@ -0,0 +1,32 @@
+import { env } from '../config';
+
+export interface ReinforcementParams {
+  rate: number; // Share of the remaining headroom (1 - importance) a fully spaced recall adds
+  spacingHours: number; // Time constant of the spacing effect
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const defaultParams = (): ReinforcementParams => ({
+  rate: env.access.reinforcementRate,
+  spacingHours: env.access.spacingHours
+});
+
+/**
+ * Importance after a recall, spaced-repetition style.
+ *
+ * A recall long after the previous one (the spacing effect) counts almost fully,
+ * repeats within minutes barely count, so a burst of identical queries can't inflate
+ * a memory. Gains shrink as importance approaches 1, which it never exceeds.
+ */
+export const reinforcedImportance = (
+  importance: number,
+  lastAccessedAt: Date,
+  accessedAt: Date,
+  params: ReinforcementParams = defaultParams()
+): number => {
+  const gapHours = Math.max(0, accessedAt.getTime() - lastAccessedAt.getTime()) / HOUR_MS;
+  const spacing = 1 - Math.exp(-gapHours / params.spacingHours);
+  const current = Math.min(1, Math.max(0, importance));
+  return current + params.rate * spacing * (1 - current);
+};
@@ -1,3 +1,4 @@
+import { z } from 'zod';
 import { env } from '../config';
 
 export interface ScoringInput {
@@ -6,6 +7,89 @@ export interface ScoringInput {
   importanceScore: number;
 }
 
+export interface ScoringWeights {
+  similarity: number;
+  recency: number;
+  importance: number;
+}
+
+export interface ScoringProfile {
+  weights: ScoringWeights;
+  halfLifeHours: number; // Recency halves every this many hours
+}
+
+export const SCORING_PROFILE_NAMES = ['default', 'chat-recent', 'knowledge-base', 'long-horizon'] as const;
+export type ScoringProfileName = (typeof SCORING_PROFILE_NAMES)[number];
+
+export interface ScoringOverrides {
+  weights?: Partial<ScoringWeights>;
+  halfLifeHours?: number;
+}
+
+// A named profile plus adjustments, as stored per user or sent with a request
+export interface ScoringSelection extends ScoringOverrides {
+  profile?: ScoringProfileName;
+}
+
+const HOURS_PER_DAY = 24;
+
+export const scoringProfileNameSchema = z.enum(SCORING_PROFILE_NAMES);
+
+// Adjustments accepted from users (stored settings and per-request overrides)
+export const scoringOverridesSchema = z.object({
+  weights: z
+    .object({
+      similarity: z.number().min(0).max(1),
+      recency: z.number().min(0).max(1),
+      importance: z.number().min(0).max(1)
+    })
+    .partial()
+    .optional(),
+  halfLifeHours: z.number().positive().max(24 * 365 * 10).optional()
+});
+
+/**
+ * Built-in profiles; 'default' follows the WEIGHT_* environment settings
+ * - chat-recent: conversational agents, the last few hours dominate
+ * - knowledge-base: reference material, relevance over age
+ * - long-horizon: assistants that remember months back, favouring important memories
+ */
+export const getScoringProfile = (name: ScoringProfileName): ScoringProfile => {
+  switch (name) {
+    case 'chat-recent':
+      return { weights: { similarity: 0.4, recency: 0.45, importance: 0.15 }, halfLifeHours: 6 };
+    case 'knowledge-base':
+      return { weights: { similarity: 0.7, recency: 0.05, importance: 0.25 }, halfLifeHours: 30 * HOURS_PER_DAY };
+    case 'long-horizon':
+      return { weights: { similarity: 0.45, recency: 0.15, importance: 0.4 }, halfLifeHours: 180 * HOURS_PER_DAY };
+    default:
+      return { weights: { ...env.scoringWeights }, halfLifeHours: HOURS_PER_DAY };
+  }
+};
+
+const applyOverrides = (profile: ScoringProfile, overrides?: ScoringOverrides): ScoringProfile => ({
+  weights: { ...profile.weights, ...overrides?.weights },
+  halfLifeHours: overrides?.halfLifeHours ?? profile.halfLifeHours
+});
+
+/**
+ * Profile for one request: the requested profile (or the user's stored one, or
+ * 'default'), then the user's stored adjustments - only when the request didn't
+ * pick a different profile - then the request's own adjustments.
+ */
+export const resolveScoringProfile = (
+  stored: ScoringSelection | null,
+  request: ScoringSelection = {}
+): ScoringProfile => {
+  const name = request.profile ?? stored?.profile ?? 'default';
+  const storedApplies = stored && (stored.profile ?? 'default') === name;
+
+  return applyOverrides(
+    applyOverrides(getScoringProfile(name), storedApplies ? stored : undefined),
+    request
+  );
+};
+
 const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value));
 
 /**
@@ -20,9 +104,11 @@ export const computeRecencyScore = (recencyMs: number, halfLifeHours = 24): numb
   return clamp(decay);
 };
 
-export const computeFinalScore = ({ similarity = 0, recencyMs, importanceScore }: ScoringInput) => {
-  const recencyScore = computeRecencyScore(recencyMs);
-  const weights = env.scoringWeights;
+export const computeFinalScore = (
+  { similarity = 0, recencyMs, importanceScore }: ScoringInput,
+  { weights, halfLifeHours }: ScoringProfile = getScoringProfile('default')
+) => {
+  const recencyScore = computeRecencyScore(recencyMs, halfLifeHours);
   const finalScore =
     weights.similarity * clamp(similarity) +
     weights.recency * recencyScore +
@@ -18,7 +18,11 @@ const hintScore = (hint?: ImportanceHint): number => {
   return 0.3;
 };
 
-export const computeImportanceScore = (text: string, hint?: ImportanceHint): number => {
+/**
+ * Importance 0-1 from text heuristics and the caller's hint. An LLM judgement
+ * (e.g. from graph extraction), when available, counts as a third equal signal.
+ */
+export const computeImportanceScore = (text: string, hint?: ImportanceHint, llmJudgement?: number): number => {
   const normalized = normalizeText(text);
   const lengthFactor = clamp(normalized.length / Math.min(env.maxTextLength, 800));
   const hasNumbers = /\d{2,}/.test(normalized);
@@ -45,7 +49,9 @@ export const computeImportanceScore = (text: string, hint?: ImportanceHint): num
     (decisionKeywords ? 0.15 : 0) +
     (productOrPerson ? 0.12 : 0);
 
-  const combined = (base + hintScore(hint)) / 2;
+  const combined = llmJudgement === undefined
+    ? (base + hintScore(hint)) / 2
+    : (base + hintScore(hint) + clamp(llmJudgement)) / 3;
   return clamp(combined);
 };
 
@@ -0,0 +1,39 @@
+import { Tiktoken, getEncoding } from 'js-tiktoken';
+
+/**
+ * Token counting with OpenAI's cl100k_base BPE encoding (GPT-4 / GPT-3.5 and the
+ * text-embedding-3 models). Other providers tokenize differently, so for them
+ * counts are close but not exact.
+ */
+
+let encoder: Tiktoken | null = null;
+
+// Loading the ranks takes a moment; only pay for it once something is counted
+const getEncoder = (): Tiktoken => {
+  if (!encoder) {
+    encoder = getEncoding('cl100k_base');
+  }
+  return encoder;
+};
+
+export const countTokens = (text: string): number => (text ? getEncoder().encode(text).length : 0);
+
+/**
+ * Longest token prefix of `text` that, with a trailing ellipsis, fits in
+ * `maxTokens`. Returns `text` unchanged when it already fits and '' when
+ * not even the ellipsis does.
+ */
+export const truncateToTokens = (text: string, maxTokens: number): string => {
+  const tokens = getEncoder().encode(text);
+  if (tokens.length <= maxTokens) return text;
+
+  // The ellipsis can merge with the token before it, so re-count each candidate
+  for (let keep = maxTokens - 1; keep > 0; keep--) {
+    // A cut inside a multi-byte character decodes to U+FFFD; drop the fragment
+    const prefix = getEncoder().decode(tokens.slice(0, keep)).replace(/�+$/, '').trimEnd();
+    if (!prefix) return '';
+    const truncated = `${prefix}…`;
+    if (countTokens(truncated) <= maxTokens) return truncated;
+  }
+  return '';
+};
@@ -1,29 +1,39 @@
+import { randomUUID } from 'crypto';
 import { Worker, Job } from 'bullmq';
 import { redisForBullMQ } from './config/redis';
-import { AddMemoryJobData } from './config/queue';
+import { AddMemoryJobData, EntityResolutionJobData, ReembedJobData } from './config/queue';
 import { CostGuard } from './services/hybridCostGuard';
-import { EmbeddingProvider } from './services/embeddings/EmbeddingProvider';
-import { OllamaProvider } from './services/embeddings/OllamaProvider';
-import { OpenAIEmbeddingProvider } from './services/embeddings/OpenAIEmbeddingProvider';
-import { GraphExtractionService } from './services/graphExtractionService';
+import { createCachedEmbeddingProvider } from './services/embeddings';
+import { EmbeddingBatcher } from './services/embeddings/EmbeddingBatcher';
+import { IngestionBatchService } from './services/ingestionBatchService';
+import { ReembeddingService } from './services/reembeddingService';
+import { ExtractedEntity, ExtractedRelationship, GraphExtractionService } from './services/graphExtractionService';
+import { getLlmProvider } from './services/llm';
+import { LlmUsage, sumUsage } from './services/llm/LlmProvider';
+import { OntologyService } from './services/ontologyService';
+import { EntityResolutionService } from './services/entityResolutionService';
+import { normalizeEntityName } from './utils/entityResolution';
 import { prisma } from './config/prisma';
+import { REPO_SYNC_SOURCE, RepoRef } from './services/repoSyncService';
 import { env } from './config';
+import { chunkText } from './utils/chunking';
+import { computeImportanceScore } from './utils/text';
 
 class MemoryWorker {
   private worker: Worker;
-  private embeddingProvider: EmbeddingProvider;
-  private graphExtractor: GraphExtractionService;
+  private reembedWorker: Worker<ReembedJobData>;
+  private resolutionWorker: Worker<EntityResolutionJobData>;
+  private embeddingProvider: EmbeddingBatcher;
+  private graphExtractor: GraphExtractionService | null;
 
   constructor() {
-    // Initialize embedding provider
-    if (env.embeddingProvider === 'ollama') {
-      this.embeddingProvider = new OllamaProvider();
-    } else {
-      this.embeddingProvider = new OpenAIEmbeddingProvider(env.openAiApiKey!);
-    }
+    // Initialize embedding provider; concurrent jobs share batched provider calls,
+    // and only cache misses reach the provider
+    this.embeddingProvider = new EmbeddingBatcher(createCachedEmbeddingProvider());
 
-    // Initialize graph extractor
-    this.graphExtractor = new GraphExtractionService();
+    // Initialize graph extractor (needs an LLM; offline setups only store embeddings)
+    const llmProvider = getLlmProvider();
+    this.graphExtractor = llmProvider.isEnabled() ? new GraphExtractionService(llmProvider) : null;
 
     // Create worker
     this.worker = new Worker<AddMemoryJobData>(
@@ -41,34 +51,106 @@ class MemoryWorker {
 
     this.worker.on('completed', (job) => {
       console.log(`✓ Job ${job.id} completed successfully`);
+      if (job.data.batchId) {
+        void IngestionBatchService.recordResult(job.data.batchId, 'completed');
+      }
     });
 
     this.worker.on('failed', (job, err) => {
       console.error(`✗ Job ${job?.id} failed:`, err.message);
+      // Only count the final attempt towards batch progress
+      if (job?.data.batchId && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+        void IngestionBatchService.recordResult(job.data.batchId, 'failed');
+      }
+    });
+
+    // Re-embedding runs one job at a time; each job already batches its provider calls
+    this.reembedWorker = new Worker<ReembedJobData>(
+      'reembedding',
+      (job) => ReembeddingService.run(job.data, this.embeddingProvider, (progress) => job.updateProgress(progress)),
+      {
+        connection: redisForBullMQ,
+        concurrency: 1
+      }
+    );
+
+    this.reembedWorker.on('completed', (job, result) => {
+      console.log(`✓ Re-embedding job ${job.id} completed: ${result.memories} memories, ${result.entities} entities`);
+    });
+
+    this.reembedWorker.on('failed', (job, err) => {
+      console.error(`✗ Re-embedding job ${job?.id} failed:`, err.message);
+    });
+
+    this.resolutionWorker = new Worker<EntityResolutionJobData>(
+      'entity-resolution',
+      (job) => EntityResolutionService.runBatch(job.data, (progress) => job.updateProgress(progress)),
+      {
+        connection: redisForBullMQ,
+        concurrency: 1
+      }
+    );
+
+    this.resolutionWorker.on('completed', (job, result) => {
+      console.log(`✓ Entity resolution job ${job.id} completed: ${result.merged} merged, ${result.proposed} proposed`);
+    });
+
+    this.resolutionWorker.on('failed', (job, err) => {
+      console.error(`✗ Entity resolution job ${job?.id} failed:`, err.message);
     });
 
     console.log('Memory processing worker started');
   }
 
-  private async processJob(job: Job<AddMemoryJobData>): Promise<{ memoryId: string; cost: number }> {
-    const { userId, text, metadata, userContext, enableGraphExtraction = true } = job.data;
+  private async processJob(job: Job<AddMemoryJobData>): Promise<{
+    memoryId: string;
+    memoryIds: string[];
+    documentId: string | null;
+    cost: number;
+  }> {
+    const {
+      userId,
+      vaultId = null,
+      text,
+      metadata,
+      userContext,
+      enableGraphExtraction = true,
+      chunking,
+      importanceHint
+    } = job.data;
+
+    console.log(`Processing memory for user ${userId}${vaultId ? ` in vault ${vaultId}` : ''} (${userContext.source}/${userContext.tier})...`);
+
+    // Repo sync chunks may be queued again by a later push before this job ran
+    const syncedDuplicate = await this.findSyncedChunk(userId, vaultId, metadata);
+    if (syncedDuplicate) {
+      console.log(`Chunk already synced as memory ${syncedDuplicate}, skipping`);
+      await job.updateProgress(100);
+      return { memoryId: syncedDuplicate, memoryIds: [syncedDuplicate], documentId: null, cost: 0 };
+    }
 
-    console.log(`Processing memory for user ${userId} (${userContext.source}/${userContext.tier})...`);
+    // Long documents are stored (and extracted) chunk by chunk
+    const maxChars = chunking?.maxChars ?? env.chunking.maxChars;
+    const chunks = text.length > maxChars
+      ? chunkText(text, { maxChars, overlap: chunking?.overlap })
+      : [text];
+    const documentId = chunks.length > 1 ? randomUUID() : null;
 
     // ============================================================================
     // STEP A: Hybrid Cost Guard - Pre-flight Check
     // ============================================================================
     await job.updateProgress(10);
     
-    // Estimate cost based on text length and features
-    const estimatedTokens = Math.ceil(text.length / 4); // Rough estimate: 1 token ≈ 4 chars
-    const willExtractGraph = enableGraphExtraction && userContext.source === 'DIRECT';
-    
-    const estimatedCost = CostGuard.calculateEstimatedCost(
-      estimatedTokens,
+    const willExtractGraph = enableGraphExtraction && userContext.source === 'DIRECT' && this.graphExtractor !== null;
+
+    // Priced per chunk: each one is embedded and, for Direct users, sent to its own extraction call
+    const chunkCost = (tokens: number) => CostGuard.calculateEstimatedCost(
+      tokens,
       true, // Always generate embedding
       willExtractGraph // Only for Direct users
     );
+    const estimatedChunkTokens = chunks.map((chunk) => Math.ceil(chunk.length / 4)); // Rough estimate: 1 token ≈ 4 chars
+    const estimatedCost = estimatedChunkTokens.reduce((total, tokens) => total + chunkCost(tokens), 0);
 
     console.log(`Estimated cost: ${estimatedCost} cents ($${(estimatedCost / 100).toFixed(2)})`);
 
@@ -82,89 +164,175 @@ class MemoryWorker {
     console.log(`Access granted. Background jobs: ${accessCheck.allowBackgroundJobs ? 'ENABLED' : 'DISABLED'}`);
 
     // ============================================================================
-    // STEP B: Generate Embedding (Always)
+    // STEP B: Generate one embedding per chunk
     // ============================================================================
     await job.updateProgress(25);
-    
-    const embedding = await this.embeddingProvider.generateEmbedding(text);
-    console.log(`Generated embedding (${embedding.length} dimensions)`);
+
+    const embeddings = await this.embeddingProvider.generateEmbeddings(chunks);
+    console.log(`Generated ${embeddings.length} embedding(s) (${embeddings[0].length} dimensions)${documentId ? ` for document ${documentId}` : ''}`);
 
     // ============================================================================
     // STEP C: Graph Extraction (Direct users only if enabled)
     // ============================================================================
     await job.updateProgress(40);
     
-    let entities: any[] = [];
-    let relationships: any[] = [];
-    let usage: any = null;
-
-    if (willExtractGraph && accessCheck.allowBackgroundJobs) {
+    let entities: ExtractedEntity[] = [];
+    const relationships: ExtractedRelationship[] = [];
+    const mentionedIn = new Map<string, Set<number>>(); // name|type -> chunk indexes
+    let usage: LlmUsage | null = null;
+    const extractionTokens: Array<number | undefined> = []; // LLM tokens per chunk, if reported
+    const importanceJudgements: Array<number | undefined> = []; // LLM rating per chunk, if any
+
+    const graphExtractor = this.graphExtractor;
+    if (graphExtractor && willExtractGraph && accessCheck.allowBackgroundJobs) {
       console.log('Running graph extraction (Direct user with background jobs enabled)...');
-      const extractionResult = await this.graphExtractor.extractGraph(text);
-      entities = (extractionResult as any).entities || [];
-      relationships = (extractionResult as any).relationships || [];
-      usage = (extractionResult as any).usage;
+      const ontology = await OntologyService.getOntology(userId);
+      let droppedItems = 0;
+      for (let i = 0; i < chunks.length; i++) {
+        const extractionResult = await graphExtractor.extractGraph(chunks[i], ontology);
+        entities.push(...extractionResult.entities);
+        for (const e of extractionResult.entities) {
+          const key = `${e.name}|${e.type}`;
+          mentionedIn.set(key, (mentionedIn.get(key) ?? new Set<number>()).add(i));
+        }
+        relationships.push(...extractionResult.relationships);
+        importanceJudgements[i] = extractionResult.importance ?? undefined;
+        extractionTokens[i] = extractionResult.usage?.total_tokens;
+        usage = sumUsage(usage, extractionResult.usage ?? null);
+        droppedItems += (extractionResult.dropped?.entities ?? 0) + (extractionResult.dropped?.relationships ?? 0);
+      }
+      if (droppedItems > 0) {
+        console.log(`Dropped ${droppedItems} invalid or off-ontology item(s)`);
+      }
+
+      // The same entity is usually mentioned in several chunks of one document
+      const seen = new Set<string>();
+      entities = entities.filter((e) => {
+        const key = `${e.name}|${e.type}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
       
       console.log(`Extracted ${entities.length} entities and ${relationships.length} relationships`);
       console.log(`Token usage: ${usage?.total_tokens || 'unknown'}`);
     } else {
-      console.log('Skipping graph extraction (RapidAPI user or feature disabled)');
+      console.log('Skipping graph extraction (RapidAPI user, feature disabled or no LLM configured)');
     }
 
+    const importanceScores = chunks.map((chunk, i) =>
+      computeImportanceScore(chunk, importanceHint, importanceJudgements[i])
+    );
+    console.log(`Importance: ${importanceScores.map((score) => score.toFixed(2)).join(', ')}`);
+
+    // Entity embeddings (name + description combined) in one batched call,
+    // outside the transaction so it isn't held open across provider round trips
+    const entityEmbeddings = entities.length > 0
+      ? await this.embeddingProvider.generateEmbeddings(
+          entities.map((e) => `${e.name} (${e.type}): ${e.description || ''}`)
+        )
+      : [];
+
     // ============================================================================
     // STEP D: Transactional Upsert
     // ============================================================================
     await job.updateProgress(60);
 
+    const embeddingModel = this.embeddingProvider.model;
+
+    // Names merged away earlier (e.g. "J. Doe") map onto the surviving entity
+    const aliasedEntities = await EntityResolutionService.lookupAliases(userId, vaultId, entities);
+
     const result = await prisma.$transaction(async (tx) => {
-      // 1. Create the Memory using raw SQL (to support vector type)
-      const memoryResult = await tx.$queryRaw<Array<{ id: string }>>`
-        INSERT INTO "Memory" (
-          id, "userId", text, "compressedText", metadata, embedding,
-          "importanceScore", confidence, "createdAt", "lastAccessedAt"
-        )
-        VALUES (
-          gen_random_uuid(), ${userId}, ${text}, ${text.slice(0, 500)}, ${JSON.stringify(metadata || {})}::jsonb,
-          ${`[${embedding.join(',')}]`}::vector,
-          0.5, 1.0, NOW(), NOW()
-        )
-        RETURNING id
-      `;
-      
-      const memoryId = memoryResult[0].id;
+      // 1. Create one Memory per chunk using raw SQL (to support vector type)
+      const memoryIds: string[] = [];
+      for (let i = 0; i < chunks.length; i++) {
+        const memoryResult = await tx.$queryRaw<Array<{ id: string }>>`
+          INSERT INTO "Memory" (
+            id, "userId", "vaultId", text, "compressedText", metadata,
+            embedding, "embeddingModel", "embeddingDimensions",
+            "documentId", "chunkIndex", "chunkCount",
+            "importanceScore", confidence, "createdAt", "lastAccessedAt"
+          )
+          VALUES (
+            gen_random_uuid(), ${userId}, ${vaultId}, ${chunks[i]}, ${chunks[i].slice(0, 500)}, ${JSON.stringify(metadata || {})}::jsonb,
+            ${`[${embeddings[i].join(',')}]`}::vector, ${embeddingModel}, ${embeddings[i].length},
+            ${documentId}, ${documentId ? i : null}, ${documentId ? chunks.length : null},
+            ${importanceScores[i]}, 1.0, NOW(), NOW()
+          )
+          RETURNING id
+        `;
+        memoryIds.push(memoryResult[0].id);
+      }
 
-      // 2. Upsert Entities (deduplicate by userId + name + type)
+      // 2. Upsert Entities (deduplicate by userId + vaultId + name + type)
       const entityMap = new Map<string, string>(); // name -> entityId
+      const upsertedEntityIds: string[] = [];
+      const mentions: Array<{ memoryId: string; entityId: string }> = [];
+
+      for (let i = 0; i < entities.length; i++) {
+        const entityData = entities[i];
+        const entityEmbedding = entityEmbeddings[i];
+
+        const aliasOf = aliasedEntities.get(`${normalizeEntityName(entityData.name)}|${entityData.type}`);
+        if (aliasOf) {
+          await tx.entity.update({ where: { id: aliasOf }, data: { lastAccessedAt: new Date() } });
+          entityMap.set(entityData.name, aliasOf);
+          mentions.push(...this.mentionsOf(entityData, aliasOf, memoryIds, mentionedIn));
+          continue;
+        }
 
-      for (const entityData of entities) {
-        // Generate embedding for entity (name + description combined)
-        const entityText = `${entityData.name} (${entityData.type}): ${entityData.description || ''}`;
-        const entityEmbedding = await this.embeddingProvider.generateEmbedding(entityText);
-        
         // Use raw SQL to handle vector type
-        const entityResult = await tx.$queryRaw<Array<{ id: string }>>`
+        const entityResult = await tx.$queryRaw<Array<{ id: string; isDeleted: boolean }>>`
           INSERT INTO "Entity" (
-            id, "userId", name, type, description, embedding, importance, confidence,
+            id, "userId", "vaultId", name, type, description,
+            embedding, "embeddingModel", "embeddingDimensions", importance, confidence,
             "createdAt", "updatedAt", "lastAccessedAt"
           )
           VALUES (
-            gen_random_uuid(), ${userId}, ${entityData.name}, ${entityData.type},
-            ${entityData.description || null}, ${`[${entityEmbedding.join(',')}]`}::vector,
+            gen_random_uuid(), ${userId}, ${vaultId}, ${entityData.name}, ${entityData.type},
+            ${entityData.description || null},
+            ${`[${entityEmbedding.join(',')}]`}::vector, ${embeddingModel}, ${entityEmbedding.length},
             0.5, 1.0, NOW(), NOW(), NOW()
           )
-          ON CONFLICT ("userId", name, type)
+          ON CONFLICT ("userId", "vaultId", name, type)
           DO UPDATE SET
-            description = EXCLUDED.description,
-            embedding = EXCLUDED.embedding,
+            -- User-edited entities keep their description (and the embedding derived from it)
+            description = CASE WHEN "Entity"."isManual" THEN "Entity".description ELSE EXCLUDED.description END,
+            embedding = CASE WHEN "Entity"."isManual" THEN "Entity".embedding ELSE EXCLUDED.embedding END,
+            "embeddingModel" = CASE WHEN "Entity"."isManual" THEN "Entity"."embeddingModel" ELSE EXCLUDED."embeddingModel" END,
+            "embeddingDimensions" = CASE WHEN "Entity"."isManual" THEN "Entity"."embeddingDimensions" ELSE EXCLUDED."embeddingDimensions" END,
+            -- Pruned with the file it came from, it is mentioned again; a user deletion sticks
+            "isDeleted" = "Entity"."isDeleted" AND "Entity"."isManual",
             "lastAccessedAt" = NOW(),
             "updatedAt" = NOW()
-          RETURNING id
+          RETURNING id, "isDeleted"
         `;
 
+        // The user deleted this entity; leave it out so no new edge or mention points at it
+        if (entityResult[0].isDeleted) {
+          console.log(`Skipping deleted entity ${entityData.name} (${entityData.type})`);
+          continue;
+        }
+
         entityMap.set(entityData.name, entityResult[0].id);
+        upsertedEntityIds.push(entityResult[0].id);
+        mentions.push(...this.mentionsOf(entityData, entityResult[0].id, memoryIds, mentionedIn));
+      }
+
+      // Provenance: which memory (chunk) each entity was extracted from
+      if (mentions.length > 0) {
+        await tx.entityMention.createMany({ data: mentions, skipDuplicates: true });
       }
 
-      // 3. Create Relationships
+      // 3. Create Relationships (edges the user asserted or edited keep their values)
+      const manualEdges = new Set(
+        (await tx.relationship.findMany({
+          where: { userId, isManual: true, fromEntityId: { in: [...entityMap.values()] } },
+          select: { fromEntityId: true, toEntityId: true, predicate: true }
+        })).map((e) => `${e.fromEntityId}|${e.toEntityId}|${e.predicate}`)
+      );
+
       for (const relData of relationships) {
         const fromEntityId = entityMap.get(relData.from);
         const toEntityId = entityMap.get(relData.to);
@@ -186,35 +354,49 @@ class MemoryWorker {
             },
             create: {
               userId,
+              vaultId,
               fromEntityId,
               toEntityId,
               predicate: relData.predicate,
               confidence: 1.0,
               weight: 1.0
             },
-            update: {
-              confidence: 1.0,
-              updatedAt: new Date()
-            }
+            update: manualEdges.has(`${fromEntityId}|${toEntityId}|${relData.predicate}`)
+              ? {}
+              : {
+                  confidence: 1.0,
+                  isDeleted: false, // Revives an edge pruned with the file it came from
+                  updatedAt: new Date()
+                }
           });
         } catch (err) {
           console.warn(`Failed to create relationship:`, err);
         }
       }
 
-      return { memoryId };
+      return { memoryIds, upsertedEntityIds };
     });
 
+    // Entity resolution: merge near-duplicates of the entities just written (best effort)
+    if (result.upsertedEntityIds.length > 0) {
+      try {
+        const resolution = await EntityResolutionService.resolveEntities(userId, vaultId, result.upsertedEntityIds);
+        if (resolution.merged > 0 || resolution.proposed > 0) {
+          console.log(`Entity resolution: ${resolution.merged} merged, ${resolution.proposed} proposed`);
+        }
+      } catch (err) {
+        console.error('Entity resolution failed:', err);
+      }
+    }
+
     await job.updateProgress(80);
 
     // ============================================================================
     // STEP E: Hybrid Cost Deduction
     // ============================================================================
-    const totalTokens = (usage?.total_tokens || estimatedTokens) + 100; // +100 for embedding
-    const actualCost = CostGuard.calculateEstimatedCost(
-      totalTokens,
-      true,
-      willExtractGraph
+    const actualCost = chunks.reduce(
+      (total, _chunk, i) => total + chunkCost((extractionTokens[i] || estimatedChunkTokens[i]) + 100), // +100 for the embedding
+      0
     );
 
     try {
@@ -228,13 +410,54 @@ class MemoryWorker {
     await job.updateProgress(100);
 
     return {
-      memoryId: result.memoryId,
+      memoryId: result.memoryIds[0],
+      memoryIds: result.memoryIds,
+      documentId,
       cost: actualCost
     };
   }
 
+  private mentionsOf(
+    entity: { name: string; type: string },
+    entityId: string,
+    memoryIds: string[],
+    mentionedIn: Map<string, Set<number>>
+  ): Array<{ memoryId: string; entityId: string }> {
+    const chunkIndexes = mentionedIn.get(`${entity.name}|${entity.type}`) ?? new Set<number>();
+    return [...chunkIndexes].map((i) => ({ memoryId: memoryIds[i], entityId }));
+  }
+
+  private async findSyncedChunk(
+    userId: string,
+    vaultId: string | null,
+    metadata?: Record<string, unknown>
+  ): Promise<string | null> {
+    if (metadata?.source !== REPO_SYNC_SOURCE) return null;
+    const repo = metadata.repo as RepoRef | undefined;
+    if (!repo) return null;
+
+    const existing = await prisma.memory.findFirst({
+      where: {
+        userId,
+        vaultId,
+        isDeleted: false,
+        AND: [
+          { metadata: { path: ['source'], equals: REPO_SYNC_SOURCE } },
+          { metadata: { path: ['repo', 'owner'], equals: repo.owner } },
+          { metadata: { path: ['repo', 'name'], equals: repo.name } },
+          { metadata: { path: ['repo', 'branch'], equals: repo.branch } },
+          { metadata: { path: ['path'], equals: metadata.path as string } },
+          { metadata: { path: ['contentHash'], equals: metadata.contentHash as string } }
+        ]
+      },
+      select: { id: true }
+    });
+
+    return existing?.id ?? null;
+  }
+
   async close(): Promise<void> {
-    await this.worker.close();
+    await Promise.all([this.worker.close(), this.reembedWorker.close(), this.resolutionWorker.close()]);
   }
 }
 
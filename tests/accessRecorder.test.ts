@@ -0,0 +1,82 @@
+import { AccessRecorder } from '../src/services/accessRecorder';
+import { reinforcedImportance } from '../src/utils/reinforcement';
+import { FakeAccessStore } from './fakes';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date(Date.UTC(2025, 0, 10));
+const hoursAgo = (hours: number) => new Date(NOW.getTime() - hours * HOUR);
+const params = { rate: 0.1, spacingHours: 24 };
+
+describe('reinforcedImportance', () => {
+  it('counts a well-spaced recall almost fully', () => {
+    expect(reinforcedImportance(0.5, hoursAgo(24 * 7), NOW, params)).toBeCloseTo(0.55, 3);
+  });
+
+  it('barely moves on a quick repeat', () => {
+    expect(reinforcedImportance(0.5, hoursAgo(0.01), NOW, params) - 0.5).toBeLessThan(0.0001);
+  });
+
+  it('approaches but never exceeds 1', () => {
+    let importance = 0.5;
+    for (let week = 1; week <= 100; week++) {
+      importance = reinforcedImportance(importance, hoursAgo(24 * 7), NOW, params);
+    }
+    expect(importance).toBeGreaterThan(0.99);
+    expect(importance).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('AccessRecorder', () => {
+  let store: FakeAccessStore;
+  let recorder: AccessRecorder;
+
+  beforeEach(() => {
+    store = new FakeAccessStore();
+    store.rows.memory.set('m1', { id: 'm1', importance: 0.5, lastAccessedAt: hoursAgo(24 * 7) });
+    store.rows.memory.set('m2', { id: 'm2', importance: 0.2, lastAccessedAt: hoursAgo(48) });
+    store.rows.entity.set('e1', { id: 'e1', importance: 0.5, lastAccessedAt: hoursAgo(24) });
+    recorder = new AccessRecorder(store, { ...params, flushIntervalMs: 60_000 });
+  });
+
+  it('writes nothing until flushed, then one batch per kind', async () => {
+    recorder.record('memory', ['m1'], NOW);
+    recorder.record('memory', ['m1', 'm2'], NOW);
+    recorder.record('entity', ['e1'], NOW);
+    expect(store.saves).toBe(0);
+
+    await recorder.flush();
+
+    expect(store.saves).toBe(2);
+    expect(store.rows.memory.get('m1')).toEqual({ id: 'm1', importance: expect.closeTo(0.55, 3), lastAccessedAt: NOW });
+    expect(store.rows.memory.get('m2')!.importance).toBeGreaterThan(0.2);
+    expect(store.rows.entity.get('e1')!.lastAccessedAt).toEqual(NOW);
+  });
+
+  it('flushes on its own after the interval', async () => {
+    jest.useFakeTimers();
+    try {
+      recorder.record('memory', ['m1'], NOW);
+      await jest.advanceTimersByTimeAsync(60_000);
+      expect(store.rows.memory.get('m1')!.lastAccessedAt).toEqual(NOW);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('ignores unknown ids and accesses older than the stored one', async () => {
+    recorder.record('memory', ['missing'], NOW);
+    recorder.record('memory', ['m2'], hoursAgo(72));
+
+    await recorder.flush();
+
+    expect(store.rows.memory.has('missing')).toBe(false);
+    expect(store.rows.memory.get('m2')).toEqual({ id: 'm2', importance: 0.2, lastAccessedAt: hoursAgo(48) });
+  });
+
+  it('swallows store failures so retrieval never fails on them', async () => {
+    store.load = () => Promise.reject(new Error('db down'));
+    recorder.record('memory', ['m1'], NOW);
+
+    await expect(recorder.flush()).resolves.toBeUndefined();
+  });
+});
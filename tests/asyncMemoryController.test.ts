@@ -0,0 +1,80 @@
+import { NextFunction, Response } from 'express';
+import { AsyncMemoryController } from '../src/controllers/asyncMemoryController';
+import { AuthenticatedRequest } from '../src/middleware/hybridAuth';
+import { ApiError } from '../src/types/errors';
+
+jest.mock('../src/config/prisma', () => ({ prisma: {} }));
+
+const mockAddBulk = jest.fn();
+const mockCheckAccess = jest.fn();
+const mockCreateBatch = jest.fn();
+
+jest.mock('../src/config/queue', () => ({
+  memoryProcessingQueue: { addBulk: (...args: unknown[]) => mockAddBulk(...args) }
+}));
+
+// Skip Redis-backed billing and batch counters
+jest.mock('../src/services/hybridCostGuard', () => ({
+  CostGuard: {
+    calculateEstimatedCost: () => 0.3,
+    checkAccess: (...args: unknown[]) => mockCheckAccess(...args)
+  }
+}));
+
+jest.mock('../src/services/ingestionBatchService', () => ({
+  IngestionBatchService: { createBatch: (...args: unknown[]) => mockCreateBatch(...args) }
+}));
+
+const userId = 'batch-user';
+
+describe('AsyncMemoryController.addMemoryBatch', () => {
+  const controller = new AsyncMemoryController();
+
+  const call = async (body: Record<string, unknown>) => {
+    const res = { json: jest.fn(), status: jest.fn() };
+    res.status.mockReturnValue(res);
+    const next = jest.fn();
+    const req = { body, userContext: { userId, source: 'DIRECT', tier: 'PRO', balance: 1000 } };
+    await controller.addMemoryBatch(req as unknown as AuthenticatedRequest, res as unknown as Response, next as NextFunction);
+    return { res, next };
+  };
+
+  beforeEach(() => {
+    mockAddBulk.mockImplementation(async (jobs: Array<{ opts: { jobId: string } }>) =>
+      jobs.map((job) => ({ id: job.opts.jobId }))
+    );
+  });
+
+  it('checks the summed estimate and forwards each importanceHint', async () => {
+    const { res, next } = await call({
+      userId,
+      items: [{ text: 'Alice joined Acme.', importanceHint: 'high' }, { text: 'Bob likes tea.' }]
+    });
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(202);
+    expect(mockCheckAccess).toHaveBeenCalledWith(userId, expect.objectContaining({ userId }), 0.6);
+    expect(mockAddBulk.mock.calls[0][0].map((job: { data: { importanceHint?: string } }) => job.data.importanceHint)).toEqual([
+      'high',
+      undefined
+    ]);
+  });
+
+  it('enqueues nothing when the balance cannot cover the batch', async () => {
+    const error = new ApiError({ code: 'INSUFFICIENT_BALANCE', status: 402, message: 'Insufficient balance' });
+    mockCheckAccess.mockRejectedValueOnce(error);
+
+    const { next } = await call({ userId, items: [{ text: 'Alice joined Acme.' }] });
+
+    expect(next).toHaveBeenCalledWith(error);
+    expect(mockCreateBatch).not.toHaveBeenCalled();
+    expect(mockAddBulk).not.toHaveBeenCalled();
+  });
+
+  it('rejects an unknown importanceHint', async () => {
+    const { next } = await call({ userId, items: [{ text: 'Alice joined Acme.', importanceHint: 'urgent' }] });
+
+    expect(next).toHaveBeenCalledWith(expect.objectContaining({ code: 'VALIDATION_ERROR', status: 400 }));
+    expect(mockCheckAccess).not.toHaveBeenCalled();
+  });
+});
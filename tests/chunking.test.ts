@@ -0,0 +1,50 @@
+import { chunkText } from '../src/utils/chunking';
+
+describe('chunkText', () => {
+  it('keeps short documents in a single chunk', () => {
+    expect(chunkText('Hello world.\n\nSecond paragraph.')).toEqual(['Hello world.\n\nSecond paragraph.']);
+  });
+
+  it('starts a new chunk at markdown headings', () => {
+    const chunks = chunkText('# Intro\n\nSome text.\n\n## Setup\n\nMore text.');
+    expect(chunks).toEqual(['# Intro\n\nSome text.', '## Setup\n\nMore text.']);
+  });
+
+  it('never exceeds maxChars', () => {
+    const text = Array.from({ length: 50 }, (_, i) => `Paragraph ${i} ${'word '.repeat(20)}`).join('\n\n');
+    const chunks = chunkText(text, { maxChars: 300 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(300));
+  });
+
+  it('returns no chunks for blank input', () => {
+    expect(chunkText('  \n\n ')).toEqual([]);
+  });
+});
+
+describe('chunkText sentence splitting and overlap', () => {
+  const sentences = Array.from({ length: 30 }, (_, i) => `Sentence number ${i} talks about topic ${i}.`).join(' ');
+
+  it('splits long paragraphs at sentence boundaries', () => {
+    const chunks = chunkText(sentences, { maxChars: 200, overlap: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk) => expect(chunk).toMatch(/\.$/));
+  });
+
+  it('repeats the tail of the previous chunk when overlap is set', () => {
+    const chunks = chunkText(sentences, { maxChars: 200, overlap: 60 });
+
+    for (let i = 1; i < chunks.length; i++) {
+      const firstSentence = chunks[i].split('. ')[0];
+      expect(chunks[i - 1]).toContain(firstSentence);
+    }
+    chunks.forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(200));
+  });
+
+  it('does not carry overlap across markdown sections', () => {
+    const chunks = chunkText('# One\n\nFirst section text.\n\n# Two\n\nSecond section.', { overlap: 50 });
+    expect(chunks[1]).toBe('# Two\n\nSecond section.');
+  });
+});
@@ -0,0 +1,105 @@
+import { ContextSection, assembleContext } from '../src/utils/contextBudget';
+import { countTokens, truncateToTokens } from '../src/utils/tokenCounter';
+
+describe('token counter', () => {
+  it('counts cl100k_base tokens', () => {
+    expect(countTokens('hello world')).toBe(2);
+    expect(countTokens('123456')).toBe(2);
+    expect(countTokens('')).toBe(0);
+  });
+
+  it('counts rare short words as several tokens', () => {
+    expect(countTokens('pgvector')).toBe(2);
+    expect(countTokens('Östersund')).toBe(3);
+  });
+
+  it('truncates within the budget and marks the cut', () => {
+    const text = 'one two three four five six seven eight nine ten';
+    const truncated = truncateToTokens(text, 5);
+
+    expect(truncated).toBe('one two three four…');
+    expect(countTokens(truncated)).toBeLessThanOrEqual(5);
+    expect(truncateToTokens(text, 100)).toBe(text);
+    expect(truncateToTokens(text, 1)).toBe('');
+  });
+});
+
+describe('context assembly', () => {
+  const words = (n: number, word = 'fact') => Array.from({ length: n }, () => word).join(' ');
+
+  const sections = (): ContextSection[] => [
+    {
+      key: 'memories',
+      header: '=== MEMORIES ===\n\n',
+      share: 0.5,
+      items: [
+        { id: 'm1', score: 1, text: `[1] ${words(40)}\n\n`, truncatable: true },
+        { id: 'm2', score: 0.5, text: `[2] ${words(40)}\n\n`, truncatable: true }
+      ]
+    },
+    {
+      key: 'entities',
+      header: '=== ENTITIES ===\n\n',
+      share: 0.5,
+      items: [
+        { id: 'e1', score: 0.9, text: `• Alice (PERSON): ${words(30)}\n`, brief: '• Alice (PERSON)\n' },
+        { id: 'e2', score: 0.2, text: `• Bob (PERSON): ${words(30)}\n`, brief: '• Bob (PERSON)\n' }
+      ]
+    }
+  ];
+
+  it('includes everything without a budget', () => {
+    const { text, report } = assembleContext(sections());
+
+    expect(text).toContain('[2]');
+    expect(text).toContain('Bob (PERSON): fact');
+    expect(report.maxTokens).toBeNull();
+    expect(report.dropped).toEqual({ memories: [], entities: [], graphNodes: [] });
+    expect(report.tokens).toBe(countTokens(text));
+  });
+
+  it('stays within the budget, keeping the highest-scoring items', () => {
+    const { text, report } = assembleContext(sections(), 100);
+
+    expect(report.tokens).toBeLessThanOrEqual(100);
+    expect(countTokens(text)).toBe(report.tokens);
+    expect(text).toContain('[1]');
+    expect(text).toContain('Alice');
+    expect(report.dropped.memories).toContain('m2');
+  });
+
+  it('shortens items that only fit briefly or truncated', () => {
+    const { text, report } = assembleContext(sections(), 80);
+
+    expect(report.tokens).toBeLessThanOrEqual(80);
+    expect(report.shortened.entities).toEqual(['e1', 'e2']);
+    expect(text).toContain('• Alice (PERSON)\n• Bob (PERSON)');
+  });
+
+  it('keeps display order and numbering when a higher item is dropped', () => {
+    const input = sections();
+    input[0].items[0].score = 0; // [1] now ranks below [2]
+
+    const { text, report } = assembleContext(input, 90);
+
+    expect(report.dropped.memories).toEqual(['m1']);
+    expect(text).toContain('[2]');
+    expect(text).not.toContain('[1]');
+  });
+
+  it('gives a section\'s unused share to the others', () => {
+    const input = sections();
+    input[1].items = [{ id: 'e1', score: 0.9, text: '• Alice (PERSON)\n' }];
+
+    const { report } = assembleContext(input, 120);
+
+    expect(report.dropped.memories).toEqual([]);
+  });
+
+  it('falls back to a placeholder when nothing fits', () => {
+    const { text, report } = assembleContext(sections(), 5);
+
+    expect(text).toBe('No relevant information found.');
+    expect(report.dropped.memories).toEqual(['m1', 'm2']);
+  });
+});
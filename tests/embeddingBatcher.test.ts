@@ -0,0 +1,54 @@
+import { EmbeddingBatcher } from '../src/services/embeddings/EmbeddingBatcher';
+import { EmbeddingProvider } from '../src/services/embeddings/EmbeddingProvider';
+
+class CountingProvider implements EmbeddingProvider {
+  readonly model = 'counting';
+  calls: string[][] = [];
+  fail = false;
+
+  isEnabled(): boolean {
+    return true;
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    return [text.length];
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    this.calls.push(texts);
+    if (this.fail) throw new Error('provider down');
+    return texts.map((text) => [text.length]);
+  }
+}
+
+describe('EmbeddingBatcher', () => {
+  it('coalesces concurrent requests into one provider call', async () => {
+    const provider = new CountingProvider();
+    const batcher = new EmbeddingBatcher(provider);
+
+    const results = await Promise.all(['a', 'bb', 'ccc'].map((t) => batcher.generateEmbedding(t)));
+
+    expect(provider.calls).toEqual([['a', 'bb', 'ccc']]);
+    expect(results).toEqual([[1], [2], [3]]);
+  });
+
+  it('splits work into batches of at most maxBatchSize', async () => {
+    const provider = new CountingProvider();
+    const batcher = new EmbeddingBatcher(provider, 2);
+
+    const results = await batcher.generateEmbeddings(['a', 'bb', 'ccc', 'dddd', 'eeeee']);
+
+    expect(provider.calls.map((c) => c.length)).toEqual([2, 2, 1]);
+    expect(results).toEqual([[1], [2], [3], [4], [5]]);
+  });
+
+  it('rejects every caller in a failed batch', async () => {
+    const provider = new CountingProvider();
+    provider.fail = true;
+    const batcher = new EmbeddingBatcher(provider);
+
+    const results = await Promise.allSettled([batcher.generateEmbedding('a'), batcher.generateEmbedding('b')]);
+
+    expect(results.every((r) => r.status === 'rejected')).toBe(true);
+  });
+});
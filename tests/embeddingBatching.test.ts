@@ -0,0 +1,22 @@
+import { splitIntoBatches } from '../src/services/embeddings/batching';
+
+describe('splitIntoBatches', () => {
+  it('limits the number of texts per batch', () => {
+    const batches = splitIntoBatches(['a', 'b', 'c', 'd', 'e'], { maxItems: 2, maxChars: 1000 });
+    expect(batches).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+  });
+
+  it('limits the total characters per batch', () => {
+    const batches = splitIntoBatches(['aaaa', 'bbbb', 'cc'], { maxItems: 10, maxChars: 6 });
+    expect(batches).toEqual([['aaaa'], ['bbbb', 'cc']]);
+  });
+
+  it('gives an oversized text a batch of its own', () => {
+    const batches = splitIntoBatches(['a', 'x'.repeat(20), 'b'], { maxItems: 10, maxChars: 5 });
+    expect(batches).toEqual([['a'], ['x'.repeat(20)], ['b']]);
+  });
+
+  it('returns no batches for no texts', () => {
+    expect(splitIntoBatches([], { maxItems: 2, maxChars: 10 })).toEqual([]);
+  });
+});
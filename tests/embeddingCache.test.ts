@@ -0,0 +1,79 @@
+import { CachedEmbeddingProvider, EmbeddingCacheStore } from '../src/services/embeddings/CachedEmbeddingProvider';
+import { FakeEmbeddingProvider } from './fakes';
+
+class MemoryStore implements EmbeddingCacheStore {
+  values = new Map<string, string>();
+  ttls = new Map<string, number>();
+
+  async mget(...keys: string[]): Promise<Array<unknown>> {
+    return keys.map((key) => this.values.get(key) ?? null);
+  }
+
+  async setex(key: string, seconds: number, value: string): Promise<unknown> {
+    this.values.set(key, value);
+    this.ttls.set(key, seconds);
+    return 'OK';
+  }
+
+  async incrby(key: string, increment: number): Promise<unknown> {
+    const next = Number(this.values.get(key) ?? 0) + increment;
+    this.values.set(key, String(next));
+    return next;
+  }
+}
+
+describe('CachedEmbeddingProvider', () => {
+  const setup = () => {
+    const provider = new FakeEmbeddingProvider();
+    const spy = jest.spyOn(provider, 'generateEmbeddings');
+    const store = new MemoryStore();
+    const cached = new CachedEmbeddingProvider(provider, store, 60);
+    return { provider, spy, store, cached };
+  };
+
+  it('serves repeated texts from the cache', async () => {
+    const { provider, spy, cached } = setup();
+
+    const first = await cached.generateEmbedding('John Doe (PERSON): a user');
+    const second = await cached.generateEmbedding('John Doe (PERSON): a user');
+
+    expect(spy).toHaveBeenCalledTimes(1);
+    const expected = await provider.generateEmbedding('John Doe (PERSON): a user');
+    expect(first).toEqual(expected);
+    // Cached vectors round-trip through float32
+    second.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 5));
+  });
+
+  it('only sends cache misses to the provider, preserving order', async () => {
+    const { spy, cached } = setup();
+    await cached.generateEmbedding('b');
+
+    const results = await cached.generateEmbeddings(['a', 'b', 'c', 'a']);
+
+    expect(spy).toHaveBeenLastCalledWith(['a', 'c']);
+    expect(results[0]).toEqual(results[3]);
+    expect(results).toHaveLength(4);
+  });
+
+  it('keys entries by model and applies the TTL', async () => {
+    const { store, cached } = setup();
+    await cached.generateEmbedding('query');
+
+    const [key] = [...store.ttls.keys()];
+    expect(key).toMatch(/^embcache:fake:[0-9a-f]{64}$/);
+    expect(store.ttls.get(key)).toBe(60);
+  });
+
+  it('reports hit/miss metrics', async () => {
+    const { cached } = setup();
+    await cached.generateEmbeddings(['x', 'y']);
+    await cached.generateEmbeddings(['x']);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const stats = await cached.getStats();
+
+    expect(stats.process).toEqual({ hits: 1, misses: 2, hitRate: 1 / 3 });
+    expect(stats.total.hits).toBe(1);
+    expect(stats.total.misses).toBe(2);
+  });
+});
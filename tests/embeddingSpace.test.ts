@@ -0,0 +1,26 @@
+import { cosineSimilarity, inEmbeddingSpace } from '../src/utils/embeddingSpace';
+
+const normalize = (sql: string) => sql.replace(/\s+/g, ' ').trim();
+
+describe('embedding space guards', () => {
+  const space = { model: 'openai/text-embedding-3-small@768', dimensions: 768 };
+
+  it('matches rows of the same model, or legacy rows of the same dimensions', () => {
+    const sql = inEmbeddingSpace(space);
+
+    expect(normalize(sql.text)).toBe(
+      '( "embeddingModel" = $1 OR ("embeddingModel" IS NULL AND "embeddingDimensions" = $2) )'
+    );
+    expect(sql.values).toEqual([space.model, 768]);
+  });
+
+  it('only computes the distance inside the space guard', () => {
+    const sql = cosineSimilarity('[0.1,0.2]', space, 'm');
+
+    expect(normalize(sql.text)).toBe(
+      '(CASE WHEN ( m."embeddingModel" = $1 OR (m."embeddingModel" IS NULL AND m."embeddingDimensions" = $2) ) ' +
+        'THEN 1 - (m."embedding" <=> $3::vector) END)'
+    );
+    expect(sql.values).toEqual([space.model, 768, '[0.1,0.2]']);
+  });
+});
@@ -0,0 +1,199 @@
+import { EntityResolutionService } from '../src/services/entityResolutionService';
+import { TestDatabase } from './testDatabase';
+
+let mockDb: TestDatabase;
+
+// Edge re-pointing is raw SQL and runs for real; the query-builder calls are asserted
+const mockDelegates = {
+  entity: { findFirst: jest.fn(), update: jest.fn() },
+  memory: { updateMany: jest.fn() },
+  entityAlias: { updateMany: jest.fn(), createMany: jest.fn() },
+  entityMergeCandidate: { findFirst: jest.fn(), update: jest.fn(), deleteMany: jest.fn() },
+  $transaction: jest.fn()
+};
+
+jest.mock('../src/config/prisma', () => ({
+  get prisma() {
+    return { ...mockDb.prismaRaw(), ...mockDelegates };
+  }
+}));
+
+const userId = 'merge-user';
+const NOW = new Date('2025-01-01');
+
+const entityRow = (id: string, name: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  userId,
+  vaultId: null as string | null,
+  name,
+  type: 'PERSON',
+  description: null,
+  importance: 0.5,
+  confidence: 1,
+  isManual: false,
+  isDeleted: false,
+  lastAccessedAt: NOW,
+  ...overrides
+});
+
+describe('EntityResolutionService merging', () => {
+  const john = entityRow('john', 'John Doe', { importance: 0.8 });
+  const jdoe = entityRow('jdoe', 'J. Doe', { description: 'Engineer' });
+  const entities: Record<string, ReturnType<typeof entityRow>> = { john, jdoe };
+
+  const edge = async (from: string, predicate: string, to: string, { isDeleted = false, isManual = false } = {}) => {
+    await mockDb.query`
+      INSERT INTO "Relationship" (id, "userId", "fromEntityId", "toEntityId", predicate, "isDeleted", "isManual", "updatedAt")
+      VALUES (${`${from}-${predicate}-${to}`}, ${userId}, ${from}, ${to}, ${predicate}, ${isDeleted}, ${isManual}, NOW())
+    `;
+  };
+
+  const edges = () =>
+    mockDb.query<{ id: string; fromEntityId: string; toEntityId: string; predicate: string; isDeleted: boolean }>`
+      SELECT id, "fromEntityId", "toEntityId", predicate, "isDeleted" FROM "Relationship" ORDER BY id
+    `;
+
+  beforeAll(async () => {
+    mockDb = await TestDatabase.create();
+  });
+
+  afterAll(async () => {
+    await mockDb.close();
+  });
+
+  beforeEach(async () => {
+    mockDelegates.$transaction.mockImplementation((fn: (tx: unknown) => unknown) =>
+      fn({ ...mockDb.prismaRaw(), ...mockDelegates })
+    );
+    mockDelegates.entity.findFirst.mockImplementation(async ({ where }) =>
+      where.userId === userId ? entities[where.id] ?? null : null
+    );
+    mockDelegates.memory.updateMany.mockResolvedValue({ count: 2 });
+
+    await mockDb.reset();
+    await mockDb.query`INSERT INTO "User" (id, email, "updatedAt") VALUES (${userId}, 'merge@example.com', NOW())`;
+    for (const id of ['john', 'jdoe', 'acme', 'paris', 'bob']) {
+      await mockDb.query`
+        INSERT INTO "Entity" (id, "userId", name, type, "updatedAt") VALUES (${id}, ${userId}, ${id}, 'PERSON', NOW())
+      `;
+    }
+  });
+
+  describe('mergeEntities', () => {
+    beforeEach(async () => {
+      await edge('jdoe', 'WORKS_AT', 'acme'); // the target has it already
+      await edge('john', 'WORKS_AT', 'acme');
+      await edge('jdoe', 'LIVES_IN', 'paris'); // the target's copy was soft-deleted by the system
+      await edge('john', 'LIVES_IN', 'paris', { isDeleted: true });
+      await edge('jdoe', 'LIKES', 'bob'); // the user deleted the target's copy
+      await edge('john', 'LIKES', 'bob', { isDeleted: true, isManual: true });
+      await edge('bob', 'KNOWS', 'jdoe'); // only the source has it
+      await edge('john', 'KNOWS', 'jdoe'); // becomes a self-loop
+      await edge('jdoe', 'VISITED', 'paris', { isDeleted: true }); // already gone
+    });
+
+    it('re-points, restores and drops edges without deleting any row', async () => {
+      const result = await EntityResolutionService.mergeEntities(userId, 'john', 'jdoe');
+
+      expect(result).toEqual({
+        targetId: 'john',
+        sourceId: 'jdoe',
+        relationshipsMoved: 2, // bob KNOWS, LIVES_IN restored
+        relationshipsDropped: 3, // WORKS_AT duplicate, LIKES deleted by the user, KNOWS self-loop
+        memoriesRepointed: 2
+      });
+
+      const rows = await edges();
+      expect(rows).toHaveLength(9);
+      expect(rows.filter((r) => !r.isDeleted).map((r) => `${r.fromEntityId} ${r.predicate} ${r.toEntityId}`)).toEqual([
+        'bob KNOWS john',
+        'john LIVES_IN paris',
+        'john WORKS_AT acme'
+      ]);
+      expect(rows.find((r) => r.id === 'john-LIKES-bob')?.isDeleted).toBe(true);
+      expect(rows.find((r) => r.id === 'jdoe-VISITED-paris')).toMatchObject({ fromEntityId: 'jdoe', isDeleted: true });
+    });
+
+    it('soft-deletes the source and keeps its name as an alias of the target', async () => {
+      await EntityResolutionService.mergeEntities(userId, 'john', 'jdoe');
+
+      expect(mockDelegates.entity.update).toHaveBeenCalledWith({ where: { id: 'jdoe' }, data: { isDeleted: true } });
+      expect(mockDelegates.entity.update).toHaveBeenCalledWith({
+        where: { id: 'john' },
+        data: expect.objectContaining({ description: 'Engineer', importance: 0.8 })
+      });
+      expect(mockDelegates.entityAlias.updateMany).toHaveBeenCalledWith({
+        where: { entityId: 'jdoe' },
+        data: { entityId: 'john' }
+      });
+      expect(mockDelegates.entityAlias.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ entityId: 'john', alias: 'J. Doe', normalizedAlias: 'j doe' })],
+        skipDuplicates: true
+      });
+      expect(mockDelegates.entityMergeCandidate.deleteMany).toHaveBeenCalledWith({
+        where: { OR: [{ entityId: 'jdoe' }, { candidateId: 'jdoe' }] }
+      });
+    });
+
+    it('refuses merging across users or vaults, or an entity into itself', async () => {
+      await expect(EntityResolutionService.mergeEntities(userId, 'john', 'john')).rejects.toMatchObject({
+        code: 'INVALID_MERGE'
+      });
+      await expect(EntityResolutionService.mergeEntities('intruder', 'john', 'jdoe')).rejects.toMatchObject({
+        code: 'ENTITY_NOT_FOUND',
+        status: 404
+      });
+
+      entities.jdoe = { ...jdoe, vaultId: 'other-vault' };
+      try {
+        await expect(EntityResolutionService.mergeEntities(userId, 'john', 'jdoe')).rejects.toMatchObject({
+          code: 'INVALID_MERGE',
+          status: 400
+        });
+      } finally {
+        entities.jdoe = jdoe;
+      }
+      expect(mockDelegates.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('merge candidates', () => {
+    const proposal = { id: 'c1', userId, vaultId: null, entityId: 'john', candidateId: 'jdoe', status: 'PENDING' };
+
+    it('accepting merges the candidate into the entity', async () => {
+      await edge('bob', 'KNOWS', 'jdoe');
+      mockDelegates.entityMergeCandidate.findFirst.mockResolvedValueOnce(proposal);
+
+      const result = await EntityResolutionService.acceptCandidate(userId, 'c1');
+
+      expect(result).toMatchObject({ targetId: 'john', sourceId: 'jdoe', relationshipsMoved: 1 });
+      expect(mockDelegates.entityMergeCandidate.findFirst).toHaveBeenCalledWith({ where: { id: 'c1', userId } });
+      expect(mockDelegates.entityMergeCandidate.deleteMany).toHaveBeenCalled();
+    });
+
+    it('rejecting keeps both entities and marks the pair', async () => {
+      mockDelegates.entityMergeCandidate.findFirst.mockResolvedValueOnce(proposal);
+
+      await EntityResolutionService.rejectCandidate(userId, 'c1');
+
+      expect(mockDelegates.entityMergeCandidate.update).toHaveBeenCalledWith({
+        where: { id: 'c1' },
+        data: { status: 'REJECTED' }
+      });
+      expect(mockDelegates.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("hides another user's proposals", async () => {
+      mockDelegates.entityMergeCandidate.findFirst.mockResolvedValue(null);
+
+      await expect(EntityResolutionService.acceptCandidate(userId, 'c1')).rejects.toMatchObject({
+        code: 'MERGE_CANDIDATE_NOT_FOUND',
+        status: 404
+      });
+      await expect(EntityResolutionService.rejectCandidate(userId, 'c1')).rejects.toMatchObject({
+        code: 'MERGE_CANDIDATE_NOT_FOUND'
+      });
+      expect(mockDelegates.entityMergeCandidate.update).not.toHaveBeenCalled();
+    });
+  });
+});
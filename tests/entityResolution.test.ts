@@ -0,0 +1,76 @@
+import {
+  decideMerge,
+  nameSimilarity,
+  normalizeEntityName,
+  pickCanonical,
+  scoreMerge,
+  typesCompatible
+} from '../src/utils/entityResolution';
+
+const entity = (id: string, name: string, type = 'PERSON', importance = 0.5, createdAt = new Date('2025-01-01')) => ({
+  id,
+  name,
+  type,
+  importance,
+  createdAt
+});
+
+describe('entity name similarity', () => {
+  it('treats case, punctuation and diacritics as equal', () => {
+    expect(normalizeEntityName('  José  Díaz. ')).toBe('jose diaz');
+    expect(nameSimilarity('JOHN DOE', 'John Doe')).toBe(1);
+  });
+
+  it('matches initials and partial names, preferring full token coverage', () => {
+    const initials = nameSimilarity('J. Doe', 'John Doe');
+    const partial = nameSimilarity('John', 'John Doe');
+
+    expect(initials).toBeGreaterThanOrEqual(0.85);
+    expect(partial).toBeGreaterThan(0.8);
+    expect(partial).toBeLessThan(initials);
+  });
+
+  it('keeps unrelated names apart', () => {
+    expect(nameSimilarity('John Doe', 'Jane Smith')).toBeLessThan(0.4);
+    expect(nameSimilarity('Paris', 'Paris Hilton')).toBeLessThan(0.9);
+  });
+});
+
+describe('merge decisions', () => {
+  it('auto-merges close names with similar embeddings', () => {
+    expect(decideMerge(scoreMerge('J. Doe', 'John Doe', 0.92))).toBe('merge');
+  });
+
+  it('only proposes when the names are less certain', () => {
+    expect(decideMerge(scoreMerge('John', 'John Doe', 0.9))).toBe('propose');
+  });
+
+  it('ignores different names even with similar embeddings', () => {
+    expect(decideMerge(scoreMerge('iPhone 15', 'Pixel 8', 0.85))).toBe('ignore');
+  });
+
+  it('allows generic types to merge into specific ones', () => {
+    expect(typesCompatible('PERSON', 'PERSON')).toBe(true);
+    expect(typesCompatible('CONCEPT', 'PERSON')).toBe(true);
+    expect(typesCompatible('PERSON', 'PRODUCT')).toBe(false);
+  });
+});
+
+describe('canonical entity selection', () => {
+  it('keeps the fuller name', () => {
+    const { target, source } = pickCanonical(entity('a', 'J. Doe'), entity('b', 'John Doe'));
+    expect(target.id).toBe('b');
+    expect(source.id).toBe('a');
+  });
+
+  it('prefers a specific type over a generic one', () => {
+    const { target } = pickCanonical(entity('a', 'John Doe', 'CONCEPT'), entity('b', 'John', 'PERSON'));
+    expect(target.id).toBe('b');
+  });
+
+  it('falls back to the older entity', () => {
+    const older = entity('b', 'John Doe', 'PERSON', 0.5, new Date('2024-01-01'));
+    const { target } = pickCanonical(entity('a', 'John Doe'), older);
+    expect(target.id).toBe('b');
+  });
+});
@@ -1,8 +1,14 @@
-import { Memory, Prisma, Session } from '@prisma/client';
+import { Memory, Prisma } from '@prisma/client';
 import { randomUUID } from 'crypto';
-import { IMemoryRepository, MemoryCreateInput } from '../src/repositories/memoryRepository';
-import { ISessionRepository } from '../src/repositories/sessionRepository';
+import {
+  IMemoryRepository,
+  MemoryCreateInput,
+  MemoryWithSimilarity,
+  SimilarMemoryQuery
+} from '../src/repositories/memoryRepository';
+import { AccessKind, AccessState, AccessStore, AccessUpdate } from '../src/services/accessRecorder';
 import { EmbeddingProvider } from '../src/services/embeddings/EmbeddingProvider';
+import { LlmCompletion, LlmCompletionRequest, LlmProvider } from '../src/services/llm/LlmProvider';
 
 export class FakeMemoryRepository implements IMemoryRepository {
   private memories: (Memory & { embedding: number[] })[] = [];
@@ -10,16 +16,25 @@ export class FakeMemoryRepository implements IMemoryRepository {
   async create(data: MemoryCreateInput): Promise<Memory> {
     const memory: Memory & { embedding: number[] } = {
       id: randomUUID(),
-      sessionId: data.sessionId,
+      userId: data.userId,
+      vaultId: data.vaultId ?? null,
       text: data.text,
       compressedText: data.compressedText,
       metadata: (data.metadata as Prisma.JsonValue) ?? null,
+      documentId: null,
+      chunkIndex: null,
+      chunkCount: null,
       importanceScore: data.importanceScore,
       recencyScore: data.recencyScore ?? null,
+      confidence: 1,
       embedding: data.embedding ?? [],
+      embeddingModel: data.embedding ? data.embeddingModel ?? null : null,
+      embeddingDimensions: data.embedding ? data.embedding.length : null,
       createdAt: new Date(),
       lastAccessedAt: new Date(),
-      isDeleted: false
+      isDeleted: false,
+      isConsolidated: false,
+      sourceEntityId: null
     };
     this.memories.push(memory);
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -35,46 +50,45 @@ export class FakeMemoryRepository implements IMemoryRepository {
     return Promise.resolve(rest);
   }
 
-  async findSimilarMemories(
-    sessionId: string,
-    embedding: number[],
-    query: string,
-    limit: number,
-    minScore: number
-  ): Promise<(Omit<Memory, 'embedding'> & { similarity: number; score: number })[]> {
-    console.log('Called findSimilarMemories with:', { sessionId, embedding, query, limit, minScore });
+  async findSimilarMemories(query: SimilarMemoryQuery): Promise<MemoryWithSimilarity[]> {
     const similarMems = this.memories
-      .filter((m) => m.sessionId === sessionId && !m.isDeleted)
+      .filter((m) => this.inScope(m, query.userId, query.sessionId) && m.vaultId === (query.vaultId ?? null))
+      .filter((m) => m.embeddingModel === null || m.embeddingModel === query.embeddingModel)
       .sort((a, b) => b.importanceScore - a.importanceScore)
-      .slice(0, limit)
+      .slice(0, query.limit)
       .map((m) => {
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
         const { embedding, ...rest } = m;
-        return { ...rest, similarity: m.importanceScore, score: m.importanceScore };
+        return { ...rest, similarity: m.importanceScore };
       });
 
     return Promise.resolve(similarMems);
   }
 
-  async findDuplicate(sessionId: string, embedding: number[]): Promise<{ id: string } | null> {
-    console.log('Called findDuplicate with:', { sessionId, embedding });
-    return Promise.resolve(null);
+  async findEmbeddings(ids: string[]): Promise<Map<string, number[]>> {
+    return new Map(
+      this.memories.filter((m) => ids.includes(m.id) && m.embedding.length > 0).map((m) => [m.id, m.embedding])
+    );
   }
 
-  async listActiveBySession(sessionId: string, take = 200): Promise<Memory[]> {
-    const activeMemories = this.memories
-      .filter((m) => m.sessionId === sessionId && !m.isDeleted)
-      .sort((a, b) => b.importanceScore - a.importanceScore || b.createdAt.getTime() - a.createdAt.getTime())
-      .slice(0, take);
-    
-    return activeMemories.map(m => {
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { embedding, ...rest } = m;
-      return rest;
-    });
+  // Same vector in the same scope; the real repository uses a similarity threshold
+  async findDuplicate(
+    userId: string,
+    vaultId: string | null,
+    embedding: number[],
+    embeddingModel: string,
+    sessionId?: string
+  ): Promise<{ id: string } | null> {
+    const duplicate = this.memories.find(
+      (m) =>
+        this.inScope(m, userId, sessionId) &&
+        m.vaultId === vaultId &&
+        m.embeddingModel === embeddingModel &&
+        m.embedding.join(',') === embedding.join(',')
+    );
+    return duplicate ? { id: duplicate.id } : null;
   }
 
-
   async updateLastAccessed(ids: string[] | string, timestamp: Date): Promise<void> {
     const idList = Array.isArray(ids) ? ids : [ids];
     this.memories = this.memories.map((m) =>
@@ -82,11 +96,13 @@ export class FakeMemoryRepository implements IMemoryRepository {
     );
   }
 
-  async softDelete(sessionId: string, memoryIds?: string[]): Promise<number> {
+  async softDelete(userId: string, vaultId: string | null, memoryIds?: string[], sessionId?: string): Promise<number> {
     let count = 0;
     this.memories = this.memories.map((m) => {
       const shouldDelete =
-        m.sessionId === sessionId && !m.isDeleted && (!memoryIds || memoryIds.includes(m.id));
+        this.inScope(m, userId, sessionId) &&
+        m.vaultId === vaultId &&
+        (!memoryIds || memoryIds.includes(m.id));
       if (shouldDelete) {
         count += 1;
         return { ...m, isDeleted: true };
@@ -137,17 +153,23 @@ export class FakeMemoryRepository implements IMemoryRepository {
     });
   }
 
-  async countActive(sessionId: string): Promise<number> {
-    return this.memories.filter((m) => m.sessionId === sessionId && !m.isDeleted).length;
+  async countActive(userId: string, vaultId: string | null, sessionId?: string): Promise<number> {
+    return this.memories.filter((m) => this.inScope(m, userId, sessionId) && m.vaultId === vaultId).length;
   }
 
-  async latestAccessed(sessionId: string): Promise<Date | null> {
+  async latestAccessed(userId: string, vaultId: string | null, sessionId?: string): Promise<Date | null> {
     const latest = this.memories
-      .filter((m) => m.sessionId === sessionId && !m.isDeleted)
+      .filter((m) => this.inScope(m, userId, sessionId) && m.vaultId === vaultId)
       .sort((a, b) => b.lastAccessedAt.getTime() - a.lastAccessedAt.getTime())[0];
     return latest?.lastAccessedAt ?? null;
   }
 
+  private inScope(m: Memory, userId: string, sessionId?: string): boolean {
+    if (m.userId !== userId || m.isDeleted) return false;
+    if (!sessionId) return true;
+    return (m.metadata as Record<string, unknown> | null)?.sessionId === sessionId;
+  }
+
   // Test helper to mutate timestamps
   setTimestamps(id: string, createdAt: Date, lastAccessedAt: Date) {
     this.memories = this.memories.map((m) =>
@@ -156,50 +178,66 @@ export class FakeMemoryRepository implements IMemoryRepository {
   }
 }
 
-export class FakeSessionRepository implements ISessionRepository {
-  private sessions: Session[] = [];
+export class FakeEmbeddingProvider implements EmbeddingProvider {
+  readonly model = 'fake';
 
-  async findById(id: string): Promise<Session | null> {
-    return this.sessions.find((s) => s.id === id) || null;
-  }
+  constructor(private vectorValue = 0.5, private enabled = true) {}
 
-  async upsert(id: string, externalId?: string | null): Promise<Session> {
-    const existing = await this.findById(id);
-    if (existing) {
-      const updated = { ...existing, externalId: externalId ?? existing.externalId, updatedAt: new Date() };
-      this.sessions = this.sessions.map((s) => (s.id === id ? updated : s));
-      return updated;
-    }
-    const session: Session = {
-      id,
-      externalId: externalId ?? null,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
-    this.sessions.push(session);
-    return session;
+  isEnabled(): boolean {
+    return this.enabled;
   }
 
-  async countMemories(id: string): Promise<number> {
-    // No-op here; callers in tests rely on MemoryRepository instead.
-    return 0;
+  async generateEmbedding(text: string): Promise<number[]> {
+    const seed = text.split('').reduce((sum, char) => sum + char.charCodeAt(0), 0) * this.vectorValue;
+    return Array.from({ length: 8 }, (_v, idx) => ((seed + idx * 7) % 1000) / 1000);
   }
 
-  async summary(id: string) {
-    const session = await this.findById(id);
-    return { session, memoryCount: 0, lastAccessedAt: null };
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map((text) => this.generateEmbedding(text)));
   }
 }
 
-export class FakeEmbeddingProvider implements EmbeddingProvider {
-  constructor(private vectorValue = 0.5, private enabled = true) {}
+/**
+ * Replays canned completions in order and records every request it receives
+ */
+export class ScriptedLlmProvider implements LlmProvider {
+  readonly model = 'scripted';
+  readonly requests: LlmCompletionRequest[] = [];
+
+  constructor(private script: Array<string | LlmCompletion>, private enabled = true) {}
 
   isEnabled(): boolean {
     return this.enabled;
   }
 
-  async generateEmbedding(text: string): Promise<number[]> {
-    const seed = text.split('').reduce((sum, char) => sum + char.charCodeAt(0), 0) * this.vectorValue;
-    return Array.from({ length: 8 }, (_v, idx) => ((seed + idx * 7) % 1000) / 1000);
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    this.requests.push(request);
+    const next = this.script.shift();
+    if (next === undefined) {
+      throw new Error('ScriptedLlmProvider: script exhausted');
+    }
+    return typeof next === 'string' ? { content: next, usage: null } : next;
+  }
+}
+
+/**
+ * Access state held in maps, one per kind; counts saves so batching can be asserted
+ */
+export class FakeAccessStore implements AccessStore {
+  readonly rows: Record<AccessKind, Map<string, AccessState>> = { memory: new Map(), entity: new Map() };
+  saves = 0;
+
+  async load(kind: AccessKind, ids: string[]): Promise<AccessState[]> {
+    return ids.flatMap((id) => {
+      const row = this.rows[kind].get(id);
+      return row ? [{ ...row }] : [];
+    });
+  }
+
+  async save(kind: AccessKind, updates: AccessUpdate[]): Promise<void> {
+    this.saves += 1;
+    for (const { id, importance, accessedAt } of updates) {
+      this.rows[kind].set(id, { id, importance, lastAccessedAt: accessedAt });
+    }
   }
 }
@@ -0,0 +1,30 @@
+import { reciprocalRankFusion } from '../src/utils/fusion';
+
+describe('reciprocal rank fusion', () => {
+  const byId = (item: { id: string }) => item.id;
+
+  it('ranks items found by both retrievers above single-list items', () => {
+    const vector = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+    const keyword = [{ id: 'c' }, { id: 'd' }];
+
+    const fused = reciprocalRankFusion([vector, keyword], byId);
+
+    expect(fused[0].item.id).toBe('c');
+    expect(fused.map((r) => r.item.id)).toEqual(['c', 'a', 'b', 'd']);
+  });
+
+  it('keeps the first occurrence of duplicated items', () => {
+    const fused = reciprocalRankFusion(
+      [[{ id: 'a', source: 'vector' }], [{ id: 'a', source: 'keyword' }]],
+      byId
+    );
+
+    expect(fused).toHaveLength(1);
+    expect(fused[0].item.source).toBe('vector');
+    expect(fused[0].score).toBeCloseTo(2 / 61);
+  });
+
+  it('returns an empty list for empty rankings', () => {
+    expect(reciprocalRankFusion([[], []], byId)).toEqual([]);
+  });
+});
@@ -0,0 +1,235 @@
+import request from 'supertest';
+import { createApp } from '../src/app';
+import { GraphBrowserService } from '../src/services/graphBrowserService';
+import { MemoryService } from '../src/services/memoryService';
+import { FakeEmbeddingProvider, FakeMemoryRepository } from './fakes';
+
+const mockPrisma = {
+  entity: { findFirst: jest.fn(), findMany: jest.fn(), count: jest.fn() },
+  relationship: { findMany: jest.fn(), count: jest.fn() },
+  memory: { findMany: jest.fn(), count: jest.fn() },
+  vault: { findFirst: jest.fn() }
+};
+
+jest.mock('../src/config/prisma', () => ({
+  get prisma() {
+    return mockPrisma;
+  }
+}));
+
+// Authenticate every request as a Direct test user
+jest.mock('../src/middleware/hybridAuth', () => ({
+  ...jest.requireActual('../src/middleware/hybridAuth'),
+  hybridAuth: (req: any, _res: unknown, next: () => void) => {
+    req.userContext = { userId: 'route-user', source: 'DIRECT', tier: 'PRO', balance: 1000 };
+    next();
+  }
+}));
+
+const userId = 'browse-user';
+const NOW = new Date('2025-01-01');
+
+const entityRow = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  vaultId: null,
+  name: id,
+  type: 'PERSON',
+  description: null,
+  importance: 0.5,
+  confidence: 1,
+  createdAt: NOW,
+  updatedAt: NOW,
+  lastAccessedAt: NOW,
+  ...overrides
+});
+
+const edgeRow = (fromEntityId: string, toEntityId: string, predicate = 'KNOWS') => ({
+  id: `${fromEntityId}-${toEntityId}`,
+  fromEntityId,
+  toEntityId,
+  predicate,
+  confidence: 1,
+  weight: 1,
+  metadata: null,
+  createdAt: NOW,
+  updatedAt: NOW
+});
+
+describe('GraphBrowserService', () => {
+  describe('listEntities', () => {
+    it('scopes to the user and vault and pages through the results', async () => {
+      mockPrisma.entity.findMany.mockResolvedValueOnce([
+        { ...entityRow('alice'), _count: { outgoingEdges: 2, incomingEdges: 1, mentions: 4 } }
+      ]);
+      mockPrisma.entity.count.mockResolvedValueOnce(3);
+
+      const page = await GraphBrowserService.listEntities(userId, 'v1', { limit: 1, offset: 1, type: 'person' });
+
+      expect(mockPrisma.entity.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId, vaultId: 'v1', isDeleted: false, type: 'PERSON' },
+          skip: 1,
+          take: 1
+        })
+      );
+      expect(page.items).toEqual([
+        expect.objectContaining({ id: 'alice', outgoingCount: 2, incomingCount: 1, mentionCount: 4 })
+      ]);
+      expect(page.pagination).toEqual({ limit: 1, offset: 1, total: 3, hasMore: true });
+    });
+
+    it('keeps the default space apart from vaults and searches aliases too', async () => {
+      mockPrisma.entity.findMany.mockResolvedValueOnce([]);
+      mockPrisma.entity.count.mockResolvedValueOnce(0);
+
+      const page = await GraphBrowserService.listEntities(userId, null, { limit: 25, offset: 0, q: ' doe ' });
+
+      const { where } = mockPrisma.entity.findMany.mock.calls[0][0];
+      expect(where).toMatchObject({ userId, vaultId: null, isDeleted: false });
+      expect(where.OR).toEqual([
+        { name: { contains: 'doe', mode: 'insensitive' } },
+        { aliases: { some: { alias: { contains: 'doe', mode: 'insensitive' } } } }
+      ]);
+      expect(page.pagination.hasMore).toBe(false);
+    });
+  });
+
+  it('lists relationships of one vault touching an entity', async () => {
+    mockPrisma.relationship.findMany.mockResolvedValueOnce([edgeRow('alice', 'bob')]);
+    mockPrisma.relationship.count.mockResolvedValueOnce(1);
+
+    await GraphBrowserService.listRelationships(userId, 'v1', { limit: 10, offset: 0, entityId: 'alice' });
+
+    expect(mockPrisma.relationship.findMany.mock.calls[0][0].where).toMatchObject({
+      userId,
+      vaultId: 'v1',
+      isDeleted: false,
+      OR: [{ fromEntityId: 'alice' }, { toEntityId: 'alice' }]
+    });
+  });
+
+  describe('getEntity', () => {
+    it('labels edge direction and pages edges and memories separately', async () => {
+      mockPrisma.entity.findFirst.mockResolvedValueOnce(entityRow('alice'));
+      mockPrisma.relationship.findMany.mockResolvedValueOnce([edgeRow('alice', 'acme'), edgeRow('bob', 'alice')]);
+      mockPrisma.relationship.count.mockResolvedValueOnce(5);
+      mockPrisma.memory.findMany.mockResolvedValueOnce([{ id: 'm1' }]);
+      mockPrisma.memory.count.mockResolvedValueOnce(1);
+
+      const result = await GraphBrowserService.getEntity(userId, 'alice', { limit: 2, offset: 0 });
+
+      expect(result.relationships.items.map((e) => e.direction)).toEqual(['outgoing', 'incoming']);
+      expect(result.relationships.pagination).toEqual({ limit: 2, offset: 0, total: 5, hasMore: true });
+      expect(result.memories.pagination).toEqual({ limit: 2, offset: 0, total: 1, hasMore: false });
+    });
+
+    it("hides another user's entity", async () => {
+      mockPrisma.entity.findFirst.mockResolvedValueOnce(null);
+
+      await expect(GraphBrowserService.getEntity(userId, 'alice', { limit: 2, offset: 0 })).rejects.toMatchObject({
+        code: 'ENTITY_NOT_FOUND',
+        status: 404
+      });
+      expect(mockPrisma.entity.findFirst.mock.calls[0][0].where).toEqual({ id: 'alice', userId, isDeleted: false });
+    });
+  });
+
+  describe('getNeighborhood', () => {
+    // alice - bob - carol - dave, plus alice - erin
+    const edges = [edgeRow('alice', 'bob'), edgeRow('carol', 'bob'), edgeRow('carol', 'dave'), edgeRow('erin', 'alice')];
+
+    beforeEach(() => {
+      mockPrisma.entity.findFirst.mockResolvedValue(entityRow('alice', { vaultId: 'v1' }));
+      mockPrisma.relationship.findMany.mockImplementation(async ({ where }) => {
+        const frontier: string[] = where.OR[0].fromEntityId.in;
+        return edges.filter((e) => frontier.includes(e.fromEntityId) || frontier.includes(e.toEntityId));
+      });
+      mockPrisma.entity.findMany.mockImplementation(async ({ where }) =>
+        (where.id.in as string[]).map((id) => entityRow(id, { vaultId: 'v1' }))
+      );
+    });
+
+    it('stops at the requested depth, following edges both ways', async () => {
+      const one = await GraphBrowserService.getNeighborhood(userId, 'alice', 1, { limit: 10, offset: 0 });
+      const two = await GraphBrowserService.getNeighborhood(userId, 'alice', 2, { limit: 10, offset: 0 });
+
+      expect(one.nodes.items.map((n) => [n.id, n.depth])).toEqual([['bob', 1], ['erin', 1]]);
+      expect(two.nodes.items.map((n) => [n.id, n.depth])).toEqual([['bob', 1], ['erin', 1], ['carol', 2]]);
+      expect(two.truncated).toBe(false);
+    });
+
+    it("stays inside the center's vault", async () => {
+      await GraphBrowserService.getNeighborhood(userId, 'alice', 1, { limit: 10, offset: 0 });
+
+      expect(mockPrisma.relationship.findMany.mock.calls[0][0].where).toMatchObject({ userId, vaultId: 'v1' });
+    });
+
+    it('pages nodes by distance and returns the edges touching the page', async () => {
+      const page = await GraphBrowserService.getNeighborhood(userId, 'alice', 3, { limit: 2, offset: 2 });
+
+      expect(page.nodes.items.map((n) => n.id)).toEqual(['carol', 'dave']);
+      expect(page.nodes.pagination).toEqual({ limit: 2, offset: 2, total: 4, hasMore: false });
+      expect(page.edges.map((e) => e.id).sort()).toEqual(['carol-bob', 'carol-dave']);
+    });
+  });
+});
+
+describe('Graph browser routes', () => {
+  const app = createApp({
+    memoryService: new MemoryService(new FakeMemoryRepository(), new FakeEmbeddingProvider()),
+    embeddingProvider: new FakeEmbeddingProvider()
+  });
+
+  it('lists entities with pagination metadata', async () => {
+    mockPrisma.entity.findMany.mockResolvedValueOnce([
+      { ...entityRow('alice'), _count: { outgoingEdges: 0, incomingEdges: 0, mentions: 1 } }
+    ]);
+    mockPrisma.entity.count.mockResolvedValueOnce(30);
+
+    const response = await request(app).get('/api/graph/entities?limit=1&offset=5');
+
+    expect(response.status).toBe(200);
+    expect(response.body.pagination).toEqual({ limit: 1, offset: 5, total: 30, hasMore: true });
+    expect(mockPrisma.entity.findMany.mock.calls[0][0].where).toMatchObject({ userId: 'route-user', vaultId: null });
+  });
+
+  it("refuses to list another user's vault", async () => {
+    mockPrisma.vault.findFirst.mockResolvedValueOnce(null);
+
+    const response = await request(app).get('/api/graph/entities?vaultId=someone-elses');
+
+    expect(response.status).toBe(404);
+    expect(response.body.error.code).toBe('VAULT_NOT_FOUND');
+    expect(mockPrisma.vault.findFirst).toHaveBeenCalledWith({
+      where: { id: 'someone-elses', userId: 'route-user', isDeleted: false }
+    });
+    expect(mockPrisma.entity.findMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects out-of-range page sizes and depths', async () => {
+    const bigPage = await request(app).get('/api/graph/relationships?limit=500');
+    const deep = await request(app).get('/api/graph/entities/alice/neighborhood?depth=4');
+
+    expect(bigPage.status).toBe(400);
+    expect(deep.status).toBe(400);
+    expect(mockPrisma.relationship.findMany).not.toHaveBeenCalled();
+  });
+
+  it('walks the neighborhood at the requested depth', async () => {
+    mockPrisma.entity.findFirst.mockResolvedValueOnce(entityRow('alice'));
+    mockPrisma.relationship.findMany
+      .mockResolvedValueOnce([edgeRow('alice', 'bob')])
+      .mockResolvedValueOnce([edgeRow('alice', 'bob'), edgeRow('bob', 'carol')]);
+    mockPrisma.entity.findMany.mockResolvedValueOnce([entityRow('bob'), entityRow('carol')]);
+
+    const response = await request(app).get('/api/graph/entities/alice/neighborhood?depth=2');
+
+    expect(response.status).toBe(200);
+    expect(response.body.depth).toBe(2);
+    expect(response.body.nodes.items.map((n: { id: string; depth: number }) => [n.id, n.depth])).toEqual([
+      ['bob', 1],
+      ['carol', 2]
+    ]);
+    expect(mockPrisma.relationship.findMany).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,372 @@
+import request from 'supertest';
+import { createApp } from '../src/app';
+import { GraphEditService } from '../src/services/graphEditService';
+import { MemoryService } from '../src/services/memoryService';
+import { ApiError } from '../src/types/errors';
+import { FakeEmbeddingProvider, FakeMemoryRepository } from './fakes';
+
+const mockPrisma = {
+  entity: { findFirst: jest.fn(), create: jest.fn(), update: jest.fn(), delete: jest.fn() },
+  entityAlias: { createMany: jest.fn() },
+  relationship: {
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    upsert: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn()
+  },
+  $transaction: jest.fn(),
+  $executeRaw: jest.fn()
+};
+
+jest.mock('../src/config/prisma', () => ({
+  get prisma() {
+    return mockPrisma;
+  }
+}));
+
+jest.mock('../src/services/embeddings', () => ({
+  ...jest.requireActual('../src/services/embeddings'),
+  getEmbeddingProvider: () => new (jest.requireActual('./fakes').FakeEmbeddingProvider)()
+}));
+
+const mockCheckAccess = jest.fn();
+const mockDeduct = jest.fn();
+
+// Skip Redis-backed billing
+jest.mock('../src/services/hybridCostGuard', () => ({
+  CostGuard: {
+    calculateApiCallCost: () => 0.3,
+    checkAccess: (...args: unknown[]) => mockCheckAccess(...args),
+    deduct: (...args: unknown[]) => mockDeduct(...args)
+  }
+}));
+
+// Authenticate every request as a test user (Direct unless a test says otherwise)
+let mockSource = 'DIRECT';
+jest.mock('../src/middleware/hybridAuth', () => ({
+  ...jest.requireActual('../src/middleware/hybridAuth'),
+  hybridAuth: (req: any, _res: unknown, next: () => void) => {
+    req.userContext = { userId: 'route-user', source: mockSource, tier: 'PRO', balance: 1000 };
+    next();
+  }
+}));
+
+const userId = 'edit-user';
+const NOW = new Date('2025-01-01');
+
+const entityRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'e1',
+  vaultId: null,
+  name: 'Alice',
+  type: 'PERSON',
+  description: null,
+  importance: 0.5,
+  confidence: 1,
+  isManual: false,
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides
+});
+
+const relationshipRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'r1',
+  vaultId: null,
+  fromEntityId: 'e1',
+  toEntityId: 'e2',
+  predicate: 'WORKS_AT',
+  confidence: 1,
+  weight: 1,
+  metadata: null,
+  isManual: false,
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides
+});
+
+beforeEach(() => {
+  // Interactive transactions run against the same client, batches resolve in order
+  mockPrisma.$transaction.mockImplementation((arg: unknown) =>
+    typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg as Promise<unknown>[])
+  );
+  mockPrisma.$executeRaw.mockResolvedValue(1);
+  mockPrisma.entity.update.mockImplementation(async ({ where, data }) => entityRow({ id: where.id, ...data }));
+  mockPrisma.relationship.update.mockImplementation(async ({ where, data }) =>
+    relationshipRow({ id: where.id, ...data })
+  );
+});
+
+describe('GraphEditService', () => {
+  describe('entities', () => {
+    it('brings back a deleted entity instead of creating a duplicate', async () => {
+      mockPrisma.entity.findFirst.mockResolvedValueOnce({ id: 'e1', isDeleted: true });
+
+      const entity = await GraphEditService.createEntity(userId, { name: ' Alice ', type: 'person' });
+
+      expect(entity.id).toBe('e1');
+      expect(mockPrisma.entity.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId, vaultId: null, name: 'Alice', type: 'PERSON' } })
+      );
+      expect(mockPrisma.entity.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'e1' }, data: expect.objectContaining({ isDeleted: false, isManual: true }) })
+      );
+      expect(mockPrisma.entity.create).not.toHaveBeenCalled();
+      expect(mockPrisma.$executeRaw).toHaveBeenCalled(); // re-embedded
+    });
+
+    it('rejects a second active entity with the same name and type', async () => {
+      mockPrisma.entity.findFirst.mockResolvedValueOnce({ id: 'e1', isDeleted: false });
+
+      await expect(GraphEditService.createEntity(userId, { name: 'Alice', type: 'PERSON' })).rejects.toMatchObject({
+        code: 'ENTITY_EXISTS',
+        status: 409
+      });
+    });
+
+    it('keeps the old name as an alias when renaming', async () => {
+      mockPrisma.entity.findFirst.mockResolvedValueOnce(entityRow()).mockResolvedValueOnce(null);
+
+      const entity = await GraphEditService.updateEntity(userId, 'e1', { name: 'Alicia' });
+
+      expect(entity).toMatchObject({ id: 'e1', name: 'Alicia', type: 'PERSON', isManual: true });
+      expect(mockPrisma.entityAlias.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ entityId: 'e1', alias: 'Alice', normalizedAlias: 'alice', type: 'PERSON' })],
+        skipDuplicates: true
+      });
+      expect(mockPrisma.$executeRaw).toHaveBeenCalled();
+    });
+
+    it('refuses to rename onto another active entity', async () => {
+      mockPrisma.entity.findFirst
+        .mockResolvedValueOnce(entityRow())
+        .mockResolvedValueOnce({ id: 'e2', isDeleted: false });
+
+      await expect(GraphEditService.updateEntity(userId, 'e1', { name: 'Bob' })).rejects.toMatchObject({
+        code: 'ENTITY_EXISTS'
+      });
+      expect(mockPrisma.entity.update).not.toHaveBeenCalled();
+    });
+
+    it('takes over the name of a deleted entity', async () => {
+      mockPrisma.entity.findFirst
+        .mockResolvedValueOnce(entityRow())
+        .mockResolvedValueOnce({ id: 'e2', isDeleted: true });
+
+      const entity = await GraphEditService.updateEntity(userId, 'e1', { name: 'Bob' });
+
+      expect(mockPrisma.entity.delete).toHaveBeenCalledWith({ where: { id: 'e2' } });
+      expect(entity).toMatchObject({ id: 'e1', name: 'Bob' });
+    });
+
+    it('does not look for clashes or re-embed when only the confidence changes', async () => {
+      mockPrisma.entity.findFirst.mockResolvedValueOnce(entityRow());
+
+      await GraphEditService.updateEntity(userId, 'e1', { confidence: 0.4 });
+
+      expect(mockPrisma.entity.findFirst).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.entityAlias.createMany).not.toHaveBeenCalled();
+      expect(mockPrisma.$executeRaw).not.toHaveBeenCalled();
+    });
+
+    it('soft-deletes an entity together with its edges', async () => {
+      mockPrisma.entity.findFirst.mockResolvedValueOnce(entityRow());
+      mockPrisma.relationship.updateMany.mockResolvedValueOnce({ count: 2 });
+
+      const result = await GraphEditService.deleteEntity(userId, 'e1');
+
+      expect(result).toEqual({ entityId: 'e1', relationshipsDeleted: 2 });
+      expect(mockPrisma.relationship.updateMany).toHaveBeenCalledWith({
+        where: { userId, isDeleted: false, OR: [{ fromEntityId: 'e1' }, { toEntityId: 'e1' }] },
+        data: { isDeleted: true, isManual: true }
+      });
+      expect(mockPrisma.entity.update).toHaveBeenCalledWith({
+        where: { id: 'e1' },
+        data: { isDeleted: true, isManual: true }
+      });
+      expect(mockPrisma.entity.delete).not.toHaveBeenCalled();
+    });
+
+    it("returns 404 for another user's or a deleted entity", async () => {
+      mockPrisma.entity.findFirst.mockResolvedValueOnce(null);
+
+      await expect(GraphEditService.deleteEntity(userId, 'e1')).rejects.toMatchObject({
+        code: 'ENTITY_NOT_FOUND',
+        status: 404
+      });
+      expect(mockPrisma.entity.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'e1', userId, isDeleted: false } })
+      );
+    });
+  });
+
+  describe('relationships', () => {
+    it('normalizes the predicate and revives a deleted edge', async () => {
+      mockPrisma.entity.findFirst
+        .mockResolvedValueOnce(entityRow())
+        .mockResolvedValueOnce(entityRow({ id: 'e2', name: 'Acme', type: 'ORGANIZATION' }));
+      mockPrisma.relationship.findUnique.mockResolvedValueOnce({ isDeleted: true });
+      mockPrisma.relationship.upsert.mockResolvedValueOnce(relationshipRow({ isManual: true, weight: 3 }));
+
+      await GraphEditService.createRelationship(userId, {
+        fromEntityId: 'e1',
+        toEntityId: 'e2',
+        predicate: 'works at',
+        weight: 3
+      });
+
+      const key = { userId, fromEntityId: 'e1', toEntityId: 'e2', predicate: 'WORKS_AT' };
+      expect(mockPrisma.relationship.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId_fromEntityId_toEntityId_predicate: key },
+          update: expect.objectContaining({ weight: 3, isManual: true, isDeleted: false })
+        })
+      );
+    });
+
+    it('rejects an active duplicate edge', async () => {
+      mockPrisma.entity.findFirst.mockResolvedValueOnce(entityRow()).mockResolvedValueOnce(entityRow({ id: 'e2' }));
+      mockPrisma.relationship.findUnique.mockResolvedValueOnce({ isDeleted: false });
+
+      await expect(
+        GraphEditService.createRelationship(userId, { fromEntityId: 'e1', toEntityId: 'e2', predicate: 'KNOWS' })
+      ).rejects.toMatchObject({ code: 'RELATIONSHIP_EXISTS', status: 409 });
+    });
+
+    it('refuses to connect entities in different vaults', async () => {
+      mockPrisma.entity.findFirst
+        .mockResolvedValueOnce(entityRow({ vaultId: 'v1' }))
+        .mockResolvedValueOnce(entityRow({ id: 'e2', vaultId: 'v2' }));
+
+      await expect(
+        GraphEditService.createRelationship(userId, { fromEntityId: 'e1', toEntityId: 'e2', predicate: 'KNOWS' })
+      ).rejects.toMatchObject({ code: 'INVALID_RELATIONSHIP', status: 400 });
+      expect(mockPrisma.relationship.upsert).not.toHaveBeenCalled();
+    });
+
+    it('refuses to change the predicate onto an existing edge', async () => {
+      mockPrisma.relationship.findFirst.mockResolvedValueOnce(relationshipRow());
+      mockPrisma.relationship.findUnique.mockResolvedValueOnce({ id: 'r2' });
+
+      await expect(GraphEditService.updateRelationship(userId, 'r1', { predicate: 'knows' })).rejects.toMatchObject({
+        code: 'RELATIONSHIP_EXISTS'
+      });
+      expect(mockPrisma.relationship.update).not.toHaveBeenCalled();
+    });
+
+    it('soft-deletes an edge and flags it manual', async () => {
+      mockPrisma.relationship.findFirst.mockResolvedValueOnce(relationshipRow());
+
+      await expect(GraphEditService.deleteRelationship(userId, 'r1')).resolves.toEqual({ relationshipId: 'r1' });
+      expect(mockPrisma.relationship.update).toHaveBeenCalledWith({
+        where: { id: 'r1' },
+        data: { isDeleted: true, isManual: true }
+      });
+    });
+  });
+});
+
+describe('Graph edit routes', () => {
+  const app = createApp({
+    memoryService: new MemoryService(new FakeMemoryRepository(), new FakeEmbeddingProvider()),
+    embeddingProvider: new FakeEmbeddingProvider()
+  });
+
+  beforeEach(() => {
+    mockSource = 'DIRECT';
+  });
+
+  it('creates an entity for the authenticated user', async () => {
+    mockPrisma.entity.findFirst.mockResolvedValueOnce(null);
+    mockPrisma.entity.create.mockImplementationOnce(async ({ data }) => entityRow({ id: 'e9', ...data }));
+
+    const response = await request(app).post('/api/graph/entities').send({ name: 'Acme', type: 'organization' });
+
+    expect(response.status).toBe(201);
+    expect(response.body).toMatchObject({ id: 'e9', name: 'Acme', type: 'ORGANIZATION', isManual: true });
+    expect(mockPrisma.entity.create).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ userId: 'route-user', vaultId: null }) })
+    );
+    expect(mockCheckAccess).toHaveBeenCalledWith('route-user', expect.objectContaining({ source: 'DIRECT' }), 0.3);
+    expect(mockDeduct).toHaveBeenCalledWith('route-user', expect.anything(), 0.3);
+  });
+
+  it('creates nothing when the balance cannot cover the embedding', async () => {
+    mockCheckAccess.mockRejectedValueOnce(
+      new ApiError({ code: 'INSUFFICIENT_BALANCE', status: 402, message: 'Insufficient balance' })
+    );
+
+    const response = await request(app).post('/api/graph/entities').send({ name: 'Acme', type: 'organization' });
+
+    expect(response.status).toBe(402);
+    expect(mockPrisma.entity.create).not.toHaveBeenCalled();
+    expect(mockDeduct).not.toHaveBeenCalled();
+  });
+
+  it('validates bodies before touching the graph', async () => {
+    const missingName = await request(app).post('/api/graph/entities').send({ type: 'PERSON' });
+    const emptyUpdate = await request(app).put('/api/graph/entities/e1').send({});
+    const heavyEdge = await request(app)
+      .post('/api/graph/relationships')
+      .send({ fromEntityId: 'e1', toEntityId: 'e2', predicate: 'KNOWS', weight: 11 });
+
+    for (const response of [missingName, emptyUpdate, heavyEdge]) {
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    }
+    expect(mockPrisma.entity.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('renames an entity', async () => {
+    mockPrisma.entity.findFirst.mockResolvedValueOnce(entityRow()).mockResolvedValueOnce(null);
+
+    const response = await request(app).put('/api/graph/entities/e1').send({ name: 'Alicia' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ id: 'e1', name: 'Alicia' });
+    expect(mockDeduct).toHaveBeenCalledWith('route-user', expect.anything(), 0.3);
+  });
+
+  it('does not bill an edit that keeps the embedding', async () => {
+    mockPrisma.entity.findFirst.mockResolvedValueOnce(entityRow());
+
+    const response = await request(app).put('/api/graph/entities/e1').send({ confidence: 0.4 });
+
+    expect(response.status).toBe(200);
+    expect(mockCheckAccess).not.toHaveBeenCalled();
+    expect(mockDeduct).not.toHaveBeenCalled();
+  });
+
+  it('blocks RapidAPI users', async () => {
+    mockSource = 'RAPIDAPI';
+
+    const list = await request(app).get('/api/graph/entities');
+    const create = await request(app).post('/api/graph/entities').send({ name: 'Acme', type: 'organization' });
+
+    for (const response of [list, create]) {
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('FEATURE_NOT_AVAILABLE');
+    }
+    expect(mockPrisma.entity.create).not.toHaveBeenCalled();
+  });
+
+  it('answers 404 when deleting an unknown entity', async () => {
+    mockPrisma.entity.findFirst.mockResolvedValueOnce(null);
+
+    const response = await request(app).delete('/api/graph/entities/missing');
+
+    expect(response.status).toBe(404);
+    expect(response.body.error.code).toBe('ENTITY_NOT_FOUND');
+    expect(mockPrisma.entity.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'missing', userId: 'route-user', isDeleted: false } })
+    );
+  });
+
+  it('deletes a relationship', async () => {
+    mockPrisma.relationship.findFirst.mockResolvedValueOnce(relationshipRow());
+
+    const response = await request(app).delete('/api/graph/relationships/r1');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ message: 'Relationship deleted', relationshipId: 'r1' });
+  });
+});
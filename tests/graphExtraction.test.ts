@@ -0,0 +1,111 @@
+import { GraphExtractionService } from '../src/services/graphExtractionService';
+import { DEFAULT_ONTOLOGY, Ontology, applyOntology, normalizeLabel } from '../src/utils/ontology';
+import { ScriptedLlmProvider } from './fakes';
+
+const strictOntology: Ontology = {
+  entityTypes: [{ name: 'PERSON' }, { name: 'PRODUCT', synonyms: ['DEVICE'] }],
+  predicates: [{ name: 'BOUGHT', synonyms: ['PURCHASED', 'acquired'] }],
+  strict: true
+};
+
+describe('ontology normalization', () => {
+  it('normalizes labels to upper snake case', () => {
+    expect(normalizeLabel(' works at ')).toBe('WORKS_AT');
+    expect(normalizeLabel('located-in')).toBe('LOCATED_IN');
+  });
+
+  it('maps synonyms onto canonical labels and drops off-ontology items in strict mode', () => {
+    const graph = applyOntology(
+      [
+        { name: 'John', type: 'person' },
+        { name: 'iPhone 15', type: 'Device' },
+        { name: 'Berlin', type: 'LOCATION' }
+      ],
+      [
+        { from: 'John', to: 'iPhone 15', predicate: 'purchased' },
+        { from: 'John', to: 'iPhone 15', predicate: 'BOUGHT' }, // Duplicate after normalization
+        { from: 'John', to: 'Berlin', predicate: 'LIVES_IN' }, // Entity dropped
+        { from: 'John', to: 'iPhone 15', predicate: 'LIKES' } // Predicate not allowed
+      ],
+      strictOntology
+    );
+
+    expect(graph.entities).toEqual([
+      { name: 'John', type: 'PERSON' },
+      { name: 'iPhone 15', type: 'PRODUCT' }
+    ]);
+    expect(graph.relationships).toEqual([{ from: 'John', to: 'iPhone 15', predicate: 'BOUGHT' }]);
+    expect(graph.dropped).toEqual({ entities: 1, relationships: 3 });
+  });
+
+  it('keeps unknown labels with the non-strict default ontology', () => {
+    const graph = applyOntology(
+      [{ name: 'Ada', type: 'Person' }, { name: 'Analytical Engine', type: 'Machine' }],
+      [{ from: 'Ada', to: 'Analytical Engine', predicate: 'programmed' }],
+      DEFAULT_ONTOLOGY
+    );
+
+    expect(graph.entities.map((e) => e.type)).toEqual(['PERSON', 'MACHINE']);
+    expect(graph.relationships[0].predicate).toBe('PROGRAMMED');
+  });
+});
+
+describe('GraphExtractionService validation', () => {
+  it('repairs malformed JSON with a second request', async () => {
+    const llm = new ScriptedLlmProvider([
+      {
+        content: '{"entities": [{"name": "John", "type": "PERSON"}',
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+      },
+      {
+        content: '{"entities": [{"name": "John", "type": "PERSON"}], "relationships": []}',
+        usage: { prompt_tokens: 20, completion_tokens: 5, total_tokens: 25 }
+      }
+    ]);
+
+    const result = await new GraphExtractionService(llm).extractGraph('John', strictOntology);
+
+    expect(result.entities).toEqual([{ name: 'John', type: 'PERSON' }]);
+    expect(result.usage?.total_tokens).toBe(40);
+    expect(llm.requests[1].messages.map((m) => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    expect(llm.requests[1].messages[3].content).toContain('not valid JSON');
+  });
+
+  it('drops invalid items without failing the extraction', async () => {
+    const llm = new ScriptedLlmProvider([
+      JSON.stringify({
+        entities: [{ name: 'John', type: 'PERSON' }, { name: '', type: 'PERSON' }, { type: 'PRODUCT' }],
+        relationships: [{ from: 'John', predicate: 'BOUGHT' }]
+      })
+    ]);
+
+    const result = await new GraphExtractionService(llm).extractGraph('John', strictOntology);
+
+    expect(result.entities).toEqual([{ name: 'John', type: 'PERSON' }]);
+    expect(result.relationships).toEqual([]);
+    expect(result.dropped).toEqual({ entities: 2, relationships: 1 });
+    expect(llm.requests).toHaveLength(1);
+  });
+
+  it('returns the importance rating and ignores an invalid one', async () => {
+    const llm = new ScriptedLlmProvider([
+      '{"entities": [], "relationships": [], "importance": 0.8}',
+      '{"entities": [], "relationships": [], "importance": "very"}'
+    ]);
+    const service = new GraphExtractionService(llm);
+
+    expect((await service.extractGraph('John signed the contract')).importance).toBe(0.8);
+    expect((await service.extractGraph('hi')).importance).toBeNull();
+  });
+
+  it('lists the ontology labels in the prompt', async () => {
+    const llm = new ScriptedLlmProvider(['{"entities": [], "relationships": []}']);
+
+    await new GraphExtractionService(llm).extractGraph('text', strictOntology);
+
+    const systemPrompt = llm.requests[0].messages[0].content;
+    expect(systemPrompt).toContain('Entity types: PERSON, PRODUCT');
+    expect(systemPrompt).toContain('Predicates: BOUGHT');
+    expect(systemPrompt).toContain('Use ONLY these labels');
+  });
+});
@@ -0,0 +1,117 @@
+import { AccessRecorder } from '../src/services/accessRecorder';
+import { GraphRAGService } from '../src/services/graphRAGService';
+import { FakeAccessStore, FakeEmbeddingProvider, ScriptedLlmProvider } from './fakes';
+import { TestDatabase } from './testDatabase';
+
+let mockDb: TestDatabase;
+
+jest.mock('../src/config/prisma', () => ({
+  get prisma() {
+    return mockDb.prismaRaw();
+  }
+}));
+
+const userId = 'ask-user';
+const QUESTION = 'Where does Alice work?';
+const usage = (total: number) => ({ prompt_tokens: total - 5, completion_tokens: 5, total_tokens: total });
+
+describe('GraphRAGService.ask', () => {
+  const embeddingProvider = new FakeEmbeddingProvider();
+
+  const serviceWith = (llm: ScriptedLlmProvider) =>
+    new GraphRAGService(embeddingProvider, llm, new AccessRecorder(new FakeAccessStore()));
+
+  const entity = async (id: string, type: string, embedding: number[] | null) => {
+    await mockDb.query`
+      INSERT INTO "Entity" (id, "userId", name, type, embedding, "embeddingModel", "embeddingDimensions", "updatedAt")
+      VALUES (
+        ${id}, ${userId}, ${id}, ${type}, ${embedding ? `[${embedding.join(',')}]` : null}::vector,
+        ${embedding ? 'fake' : null}, ${embedding ? 8 : null}, NOW()
+      )
+    `;
+  };
+
+  beforeAll(async () => {
+    mockDb = await TestDatabase.create();
+  });
+
+  afterAll(async () => {
+    await mockDb.close();
+  });
+
+  beforeEach(async () => {
+    await mockDb.reset();
+    await mockDb.query`INSERT INTO "User" (id, email, "updatedAt") VALUES (${userId}, 'ask@example.com', NOW())`;
+  });
+
+  describe('with context', () => {
+    beforeEach(async () => {
+      // Alice matches the question exactly; Acme is reached over WORKS_AT
+      await entity('Alice', 'PERSON', await embeddingProvider.generateEmbedding(QUESTION));
+      await entity('Acme', 'ORGANIZATION', null);
+      await mockDb.query`
+        INSERT INTO "Relationship" (id, "userId", "fromEntityId", "toEntityId", predicate, "updatedAt")
+        VALUES ('alice-acme', ${userId}, 'Alice', 'Acme', 'WORKS_AT', NOW())
+      `;
+    });
+
+    it('maps cited names back to entities and explains the path', async () => {
+      const llm = new ScriptedLlmProvider([
+        { content: '{"answer": "Alice works at Acme.", "entityNames": ["acme"], "confidence": 1.4}', usage: usage(50) }
+      ]);
+
+      const result = await serviceWith(llm).ask({ userId, question: QUESTION });
+
+      expect(result.answer).toBe('Alice works at Acme.');
+      expect(result.confidence).toBe(1);
+      expect(result.citedEntityIds).toEqual(['Acme']);
+      expect(result.citedMemoryIds).toEqual([]);
+      expect(result.reasoningPath).toHaveLength(1);
+      expect(result.reasoningPath[0]).toContain('WORKS_AT');
+      expect(llm.requests[0].messages[1].content).toContain(`Question: ${QUESTION}`);
+      expect(result.usage?.total_tokens).toBe(50);
+    });
+
+    it('repairs malformed JSON with a second request and bills both', async () => {
+      const llm = new ScriptedLlmProvider([
+        { content: 'Alice works at Acme.', usage: usage(40) },
+        { content: '{"answer": "Alice works at Acme.", "confidence": 0.8}', usage: usage(30) }
+      ]);
+
+      const result = await serviceWith(llm).ask({ userId, question: QUESTION });
+
+      expect(result).toMatchObject({ answer: 'Alice works at Acme.', confidence: 0.8, citedEntityIds: [] });
+      expect(llm.requests).toHaveLength(2);
+      expect(llm.requests[1].messages.at(-1)?.content).toContain('not valid JSON');
+      expect(result.usage?.total_tokens).toBe(70);
+    });
+
+    it('fails with 502 when the repair is unusable too, reporting the tokens spent', async () => {
+      const llm = new ScriptedLlmProvider([
+        { content: 'nope', usage: usage(40) },
+        { content: '{"answer": 42}', usage: usage(30) }
+      ]);
+
+      await expect(serviceWith(llm).ask({ userId, question: QUESTION })).rejects.toMatchObject({
+        code: 'LLM_INVALID_RESPONSE',
+        status: 502,
+        details: { usage: expect.objectContaining({ total_tokens: 70 }) }
+      });
+    });
+
+    it('requires an LLM', async () => {
+      await expect(
+        serviceWith(new ScriptedLlmProvider([], false)).ask({ userId, question: QUESTION })
+      ).rejects.toMatchObject({ code: 'LLM_NOT_CONFIGURED', status: 503 });
+    });
+  });
+
+  it('answers without an LLM call when nothing was found', async () => {
+    const llm = new ScriptedLlmProvider([]);
+
+    const result = await serviceWith(llm).ask({ userId, question: QUESTION });
+
+    expect(result).toMatchObject({ confidence: 0, citedMemoryIds: [], citedEntityIds: [], usage: null });
+    expect(llm.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,205 @@
+import { NextFunction, Response } from 'express';
+import request from 'supertest';
+import { createApp } from '../src/app';
+import { GraphRAGController } from '../src/controllers/graphRAGController';
+import { AuthenticatedRequest } from '../src/middleware/hybridAuth';
+import { AskResult, GraphRAGResult, GraphRAGService } from '../src/services/graphRAGService';
+import { MemoryService } from '../src/services/memoryService';
+import { ApiError } from '../src/types/errors';
+import { FakeEmbeddingProvider, FakeMemoryRepository } from './fakes';
+
+// Retrieval is stubbed; nothing here reaches the database
+jest.mock('../src/config/prisma', () => ({ prisma: {} }));
+
+const mockDeduct = jest.fn();
+const mockCheckAccess = jest.fn();
+
+// Skip Redis-backed billing
+jest.mock('../src/services/hybridCostGuard', () => ({
+  CostGuard: {
+    calculateEstimatedCost: (tokens: number) => tokens / 1000,
+    checkAccess: (...args: unknown[]) => mockCheckAccess(...args),
+    deduct: (...args: unknown[]) => mockDeduct(...args)
+  }
+}));
+
+// Authenticate every request as a Direct test user
+jest.mock('../src/middleware/hybridAuth', () => ({
+  ...jest.requireActual('../src/middleware/hybridAuth'),
+  hybridAuth: (req: any, _res: unknown, next: () => void) => {
+    req.userContext = { userId: 'rag-user', source: 'DIRECT', tier: 'PRO', balance: 1000 };
+    next();
+  }
+}));
+
+const userId = 'rag-user';
+const QUESTION = 'Where does Alice work?';
+
+const retrieval: GraphRAGResult = {
+  memories: [
+    {
+      id: 'm1',
+      text: 'Alice joined Acme in 2021.',
+      similarity: 0.9,
+      importanceScore: 0.5,
+      createdAt: new Date('2025-01-01'),
+      documentId: null,
+      chunkIndex: null
+    },
+    {
+      id: 'm2',
+      text: 'Bob likes tea.',
+      similarity: 0.4,
+      importanceScore: 0.5,
+      createdAt: new Date('2025-01-01'),
+      documentId: null,
+      chunkIndex: null
+    }
+  ],
+  entities: [{ id: 'alice', name: 'Alice', type: 'PERSON', description: null, similarity: 0.9, importance: 0.5 }],
+  graphNodes: [],
+  contextSummary: '[1] Alice joined Acme in 2021.',
+  totalTokens: 12,
+  contextReport: {
+    maxTokens: null,
+    tokens: 12,
+    dropped: { memories: [], entities: [], graphNodes: [] },
+    shortened: { memories: [], entities: [], graphNodes: [] }
+  },
+  usage: null
+};
+
+const answer: AskResult = {
+  answer: 'Alice works at Acme.',
+  confidence: 0.9,
+  citedMemoryIds: ['m1'],
+  citedEntityIds: ['alice'],
+  reasoningPath: ['Alice -[WORKS_AT]-> Acme'],
+  retrieval,
+  usage: { prompt_tokens: 1500, completion_tokens: 500, total_tokens: 2000 }
+};
+
+describe('GraphRAGController', () => {
+  const service = { retrieve: jest.fn(), ask: jest.fn() };
+  const controller = new GraphRAGController(service as unknown as GraphRAGService);
+
+  const call = async (method: 'retrieve' | 'ask', body: Record<string, unknown>) => {
+    const res = { json: jest.fn(), status: jest.fn() };
+    res.status.mockReturnValue(res);
+    const next = jest.fn();
+    const req = { body, userContext: { userId, source: 'DIRECT', tier: 'PRO', balance: 1000 } };
+    await controller[method](req as unknown as AuthenticatedRequest, res as unknown as Response, next as NextFunction);
+    return { res, next };
+  };
+
+  it('rejects predicate and type filters without a letter or digit', async () => {
+    const { next } = await call('retrieve', { userId, query: 'Where does Alice work?', includePredicates: ['!!!'] });
+    const { next: askNext } = await call('ask', { userId, question: 'Where does Alice work?', entityTypes: ['--'] });
+
+    expect(next).toHaveBeenCalledWith(expect.objectContaining({ code: 'VALIDATION_ERROR', status: 400 }));
+    expect(askNext).toHaveBeenCalledWith(expect.objectContaining({ code: 'VALIDATION_ERROR', status: 400 }));
+    expect(service.retrieve).not.toHaveBeenCalled();
+    expect(service.ask).not.toHaveBeenCalled();
+  });
+
+  describe('ask', () => {
+    it('returns only the cited sources and bills the LLM tokens', async () => {
+      service.ask.mockResolvedValueOnce(answer);
+
+      const { res, next } = await call('ask', { userId, question: QUESTION });
+
+      expect(next).not.toHaveBeenCalled();
+      expect(mockCheckAccess).toHaveBeenCalledWith(userId, expect.objectContaining({ userId }), expect.any(Number));
+      expect(mockDeduct).toHaveBeenCalledWith(userId, expect.objectContaining({ userId }), 2);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          answer: 'Alice works at Acme.',
+          citations: { memoryIds: ['m1'], entityIds: ['alice'] },
+          sources: [retrieval.memories[0]],
+          entities: retrieval.entities,
+          reasoning: 'Alice -[WORKS_AT]-> Acme',
+          stats: expect.objectContaining({ memoriesFound: 2, llmTokens: 2000, cost: 2 })
+        })
+      );
+    });
+
+    it("refuses another user's memories before spending anything", async () => {
+      const { next } = await call('ask', { userId: 'someone-else', question: QUESTION });
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ code: 'FORBIDDEN', status: 403 }));
+      expect(mockCheckAccess).not.toHaveBeenCalled();
+      expect(service.ask).not.toHaveBeenCalled();
+    });
+
+    it('estimates an extra LLM call for LLM reranking', async () => {
+      service.ask.mockResolvedValue(answer);
+
+      await call('ask', { userId, question: QUESTION });
+      await call('ask', { userId, question: QUESTION, rerank: 'llm' });
+
+      const [plain, reranked] = mockCheckAccess.mock.calls.map((args) => args[2]);
+      expect(reranked).toBeCloseTo(2 * plain);
+    });
+
+    it('bills the tokens spent before an unusable answer', async () => {
+      const error = new ApiError({
+        code: 'LLM_INVALID_RESPONSE',
+        status: 502,
+        message: 'unusable answer',
+        details: { error: 'answer: Required', usage: { prompt_tokens: 2500, completion_tokens: 500, total_tokens: 3000 } }
+      });
+      service.ask.mockRejectedValueOnce(error);
+
+      const { next } = await call('ask', { userId, question: QUESTION });
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(mockDeduct).toHaveBeenCalledWith(userId, expect.objectContaining({ userId }), 3);
+    });
+
+    it('passes errors without spent tokens on without billing', async () => {
+      const error = new ApiError({ code: 'LLM_NOT_CONFIGURED', status: 503, message: 'no LLM' });
+      service.ask.mockRejectedValueOnce(error);
+
+      const { next } = await call('ask', { userId, question: QUESTION });
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(mockDeduct).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('POST /api/graphrag/ask', () => {
+  const app = createApp({
+    memoryService: new MemoryService(new FakeMemoryRepository(), new FakeEmbeddingProvider()),
+    embeddingProvider: new FakeEmbeddingProvider()
+  });
+
+  it('answers with citations', async () => {
+    const ask = jest.spyOn(GraphRAGService.prototype, 'ask').mockResolvedValueOnce(answer);
+
+    const response = await request(app).post('/api/graphrag/ask').send({ userId, question: QUESTION, graphDepth: 2 });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ question: QUESTION, answer: 'Alice works at Acme.', confidence: 0.9 });
+    expect(response.body.sources.map((m: { id: string }) => m.id)).toEqual(['m1']);
+    expect(ask).toHaveBeenCalledWith(expect.objectContaining({ userId, question: QUESTION, graphDepth: 2 }));
+  });
+
+  it('validates the question', async () => {
+    const response = await request(app).post('/api/graphrag/ask').send({ userId, question: '' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('reports an unusable LLM answer as 502', async () => {
+    jest
+      .spyOn(GraphRAGService.prototype, 'ask')
+      .mockRejectedValueOnce(new ApiError({ code: 'LLM_INVALID_RESPONSE', status: 502, message: 'unusable answer' }));
+
+    const response = await request(app).post('/api/graphrag/ask').send({ userId, question: QUESTION });
+
+    expect(response.status).toBe(502);
+    expect(response.body.error.code).toBe('LLM_INVALID_RESPONSE');
+  });
+});
@@ -0,0 +1,136 @@
+import { AccessRecorder } from '../src/services/accessRecorder';
+import { GraphRAGService, RetrieveOptions } from '../src/services/graphRAGService';
+import { FakeAccessStore, FakeEmbeddingProvider, ScriptedLlmProvider } from './fakes';
+import { TestDatabase } from './testDatabase';
+
+let mockDb: TestDatabase;
+
+jest.mock('../src/config/prisma', () => ({
+  get prisma() {
+    return mockDb.prismaRaw();
+  }
+}));
+
+const userId = 'graph-user';
+const QUERY = 'Who is Alice?';
+
+describe('GraphRAG traversal', () => {
+  const embeddingProvider = new FakeEmbeddingProvider();
+  const service = new GraphRAGService(
+    embeddingProvider,
+    new ScriptedLlmProvider([]),
+    new AccessRecorder(new FakeAccessStore())
+  );
+
+  const entity = async (id: string, type = 'PERSON', anchor = false) => {
+    const embedding = anchor ? `[${(await embeddingProvider.generateEmbedding(QUERY)).join(',')}]` : null;
+    await mockDb.query`
+      INSERT INTO "Entity" (id, "userId", name, type, embedding, "embeddingModel", "embeddingDimensions", "updatedAt")
+      VALUES (${id}, ${userId}, ${id}, ${type}, ${embedding}::vector, ${anchor ? 'fake' : null}, ${anchor ? 8 : null}, NOW())
+    `;
+  };
+
+  const edge = async (from: string, predicate: string, to: string, weight = 1) => {
+    await mockDb.query`
+      INSERT INTO "Relationship" (id, "userId", "fromEntityId", "toEntityId", predicate, weight, "updatedAt")
+      VALUES (${`${from}-${predicate}-${to}`}, ${userId}, ${from}, ${to}, ${predicate}, ${weight}, NOW())
+    `;
+  };
+
+  const traverse = async (options: Partial<RetrieveOptions> = {}) =>
+    (await service.retrieve({ userId, query: QUERY, graphDepth: 3, ...options })).graphNodes;
+
+  beforeAll(async () => {
+    mockDb = await TestDatabase.create();
+  });
+
+  afterAll(async () => {
+    await mockDb.close();
+  });
+
+  beforeEach(async () => {
+    await mockDb.reset();
+    await mockDb.query`INSERT INTO "User" (id, email, "updatedAt") VALUES (${userId}, 'graph@example.com', NOW())`;
+
+    // alice -WORKS_AT-> acme -LOCATED_IN-> berlin -HOME_OF-> alice (a cycle), bob -KNOWS-> alice
+    await entity('alice', 'PERSON', true);
+    await entity('acme', 'ORGANIZATION');
+    await entity('berlin', 'LOCATION');
+    await entity('bob');
+    await entity('carol');
+    await edge('alice', 'WORKS_AT', 'acme', 3);
+    await edge('alice', 'LIKES', 'carol');
+    await edge('acme', 'LOCATED_IN', 'berlin');
+    await edge('berlin', 'HOME_OF', 'alice');
+    await edge('bob', 'KNOWS', 'alice');
+  });
+
+  it('follows outgoing edges only when asked to', async () => {
+    const nodes = await traverse({ graphDirection: 'outgoing' });
+
+    expect(nodes.map((n) => n.entityId).sort()).toEqual(['acme', 'berlin', 'carol']);
+  });
+
+  it('reads incoming edges backwards', async () => {
+    const nodes = await traverse({ graphDirection: 'incoming' });
+
+    expect(nodes.map((n) => [n.entityId, n.relationshipChain])).toEqual([
+      ['berlin', '<-HOME_OF'],
+      ['bob', '<-KNOWS'],
+      ['acme', '<-HOME_OF -> <-LOCATED_IN']
+    ]);
+  });
+
+  it('reports each entity once and never walks back to the anchor', async () => {
+    const nodes = await traverse({ graphDepth: 5 });
+    const ids = nodes.map((n) => n.entityId);
+
+    expect(ids).not.toContain('alice');
+    expect(new Set(ids).size).toBe(ids.length);
+    // berlin is one hop away backwards, which beats two hops forwards
+    expect(nodes.find((n) => n.entityId === 'berlin')).toMatchObject({ depth: 1, relationshipChain: '<-HOME_OF' });
+  });
+
+  it('ranks nodes by path score, heavier edges first', async () => {
+    const nodes = await traverse({ graphDirection: 'outgoing' });
+
+    expect(nodes.map((n) => n.entityId)).toEqual(['acme', 'carol', 'berlin']);
+    // similarity 1 x weight 3 / (3 + 1) x confidence 1 x hopDecay 0.7
+    expect(nodes[0].score).toBeCloseTo(0.525);
+    expect(nodes[1].score).toBeCloseTo(0.35);
+    expect(nodes[2].score).toBeCloseTo(0.525 * 0.35);
+  });
+
+  it('prunes branches below minPathScore and caps the node count', async () => {
+    expect((await traverse({ graphDirection: 'outgoing', minPathScore: 0.3 })).map((n) => n.entityId)).toEqual([
+      'acme',
+      'carol'
+    ]);
+    expect(await traverse({ maxGraphNodes: 1 })).toHaveLength(1);
+  });
+
+  describe('filters', () => {
+    const ids = async (options: Partial<RetrieveOptions>) =>
+      (await traverse({ graphDirection: 'outgoing', ...options })).map((n) => n.entityId).sort();
+
+    it('follows only included predicates, on every hop', async () => {
+      // WORKS_AT reaches acme, but acme -LOCATED_IN-> berlin is not followed
+      expect(await ids({ includePredicates: ['works at'] })).toEqual(['acme']);
+      expect(await ids({ includePredicates: ['WORKS_AT', 'located_in'] })).toEqual(['acme', 'berlin']);
+    });
+
+    it('skips excluded predicates', async () => {
+      expect(await ids({ excludePredicates: ['likes'] })).toEqual(['acme', 'berlin']);
+    });
+
+    it('only passes through entities of the requested types', async () => {
+      expect(await ids({ entityTypes: ['organization', 'location'] })).toEqual(['acme', 'berlin']);
+      // berlin hangs off an ORGANIZATION, which is filtered out
+      expect(await ids({ entityTypes: ['location'] })).toEqual([]);
+    });
+
+    it('ignores labels that normalize to nothing instead of matching nothing', async () => {
+      expect(await ids({ includePredicates: ['!!!'], entityTypes: [' - '] })).toEqual(['acme', 'berlin', 'carol']);
+    });
+  });
+});
@@ -21,6 +21,15 @@ describe('importance scoring', () => {
     expect(boosted).toBeGreaterThan(base);
   });
 
+  it('blends in an LLM judgement as a third signal', () => {
+    const text = 'User mentioned the weather.';
+    const heuristic = computeImportanceScore(text);
+
+    expect(computeImportanceScore(text, undefined, 1)).toBeGreaterThan(heuristic);
+    expect(computeImportanceScore(text, undefined, 0)).toBeLessThan(heuristic);
+    expect(computeImportanceScore(text, 'high', 5)).toBe(computeImportanceScore(text, 'high', 1));
+  });
+
   it('normalizes whitespace before scoring', () => {
     const text = normalizeText('User   bought   an iPhone    yesterday');
     const score = computeImportanceScore(text);
@@ -0,0 +1,92 @@
+import { env } from '../src/config';
+import { GraphExtractionService } from '../src/services/graphExtractionService';
+import { OllamaLlmProvider } from '../src/services/llm/OllamaLlmProvider';
+import { ScriptedLlmProvider } from './fakes';
+
+describe('GraphExtractionService with an LlmProvider', () => {
+  it('sends a JSON-mode extraction request and parses the graph', async () => {
+    const llm = new ScriptedLlmProvider([
+      {
+        content: JSON.stringify({
+          entities: [{ name: 'John', type: 'PERSON' }, { name: 'iPhone 15', type: 'PRODUCT' }],
+          relationships: [{ from: 'John', to: 'iPhone 15', predicate: 'BOUGHT' }]
+        }),
+        usage: { prompt_tokens: 40, completion_tokens: 20, total_tokens: 60 }
+      }
+    ]);
+
+    const result = await new GraphExtractionService(llm).extractGraph('John bought an iPhone 15');
+
+    expect(result.entities.map((e) => e.name)).toEqual(['John', 'iPhone 15']);
+    expect(result.relationships).toEqual([{ from: 'John', to: 'iPhone 15', predicate: 'BOUGHT' }]);
+    expect((result as { usage?: { total_tokens: number } }).usage?.total_tokens).toBe(60);
+
+    expect(llm.requests).toHaveLength(1);
+    expect(llm.requests[0].json).toBe(true);
+    expect(llm.requests[0].messages.map((m) => m.role)).toEqual(['system', 'user']);
+    expect(llm.requests[0].messages[1].content).toBe('John bought an iPhone 15');
+  });
+
+  it('rejects output that is still malformed after the repair attempt', async () => {
+    const llm = new ScriptedLlmProvider(['{"entities": "nope"}', 'still not json']);
+    await expect(new GraphExtractionService(llm).extractGraph('text')).rejects.toThrow(
+      'Invalid graph extraction response format'
+    );
+    expect(llm.requests).toHaveLength(2);
+  });
+
+  it('requires an enabled provider', () => {
+    expect(() => new GraphExtractionService(new ScriptedLlmProvider([], false))).toThrow();
+  });
+});
+
+describe('OllamaLlmProvider', () => {
+  const originalFetch = global.fetch;
+  const originalProvider = env.llmProvider;
+
+  beforeEach(() => {
+    env.llmProvider = 'ollama';
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    env.llmProvider = originalProvider;
+  });
+
+  it('calls /api/chat without streaming and maps token counts', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ message: { role: 'assistant', content: '{"ok":true}' }, prompt_eval_count: 12, eval_count: 5 })
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const completion = await new OllamaLlmProvider().complete({
+      messages: [{ role: 'user', content: 'hi' }],
+      temperature: 0.2,
+      json: true
+    });
+
+    expect(completion).toEqual({
+      content: '{"ok":true}',
+      usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 }
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`${env.ollamaUrl}/api/chat`);
+    expect(JSON.parse(init.body)).toEqual({
+      model: env.llmModel,
+      messages: [{ role: 'user', content: 'hi' }],
+      stream: false,
+      format: 'json',
+      options: { temperature: 0.2 }
+    });
+  });
+
+  it('surfaces HTTP failures', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 404 }) as unknown as typeof fetch;
+
+    await expect(
+      new OllamaLlmProvider().complete({ messages: [{ role: 'user', content: 'hi' }] })
+    ).rejects.toThrow('status 404');
+  });
+});
@@ -0,0 +1,31 @@
+import { LOCAL_EMBEDDING_DIMENSIONS, LocalEmbeddingProvider } from '../src/services/embeddings/LocalEmbeddingProvider';
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+describe('LocalEmbeddingProvider', () => {
+  const provider = new LocalEmbeddingProvider();
+
+  it('produces stable unit vectors of the column dimension', async () => {
+    const first = await provider.generateEmbedding('John bought an iPhone 15');
+    const second = await provider.generateEmbedding('John bought an iPhone 15');
+
+    expect(first).toHaveLength(LOCAL_EMBEDDING_DIMENSIONS);
+    expect(second).toEqual(first);
+    expect(cosine(first, first)).toBeCloseTo(1, 6);
+  });
+
+  it('places texts with shared words closer than unrelated texts', async () => {
+    const [query, related, unrelated] = await provider.generateEmbeddings([
+      'Which phone did John buy?',
+      'John bought a new phone last week',
+      'The quarterly tax report is due in April'
+    ]);
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it('returns a non-zero vector for text without words', async () => {
+    const embedding = await provider.generateEmbedding('!!!');
+    expect(cosine(embedding, embedding)).toBeCloseTo(1, 6);
+  });
+});
@@ -1,7 +1,7 @@
 import request from 'supertest';
 import { createApp } from '../src/app';
 import { MemoryService } from '../src/services/memoryService';
-import { FakeMemoryRepository, FakeSessionRepository } from './fakes';
+import { FakeMemoryRepository } from './fakes';
 import { OpenAIEmbeddingProvider } from '../src/services/embeddings/OpenAIEmbeddingProvider';
 import axios from 'axios';
 
@@ -9,12 +9,29 @@ import axios from 'axios';
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
+// Authenticate every request as a Direct test user
+jest.mock('../src/middleware/hybridAuth', () => ({
+  ...jest.requireActual('../src/middleware/hybridAuth'),
+  hybridAuth: (req: any, _res: unknown, next: () => void) => {
+    req.userContext = { userId: 'route-user', source: 'DIRECT', tier: 'PRO', balance: 1000 };
+    next();
+  }
+}));
+
+// Skip Redis-backed billing
+jest.mock('../src/services/hybridCostGuard', () => ({
+  CostGuard: {
+    calculateApiCallCost: () => 0.3,
+    checkAccess: async () => ({ allowed: true, allowBackgroundJobs: true, estimatedCost: 0.3 }),
+    deduct: async () => undefined
+  }
+}));
+
 describe('Memory routes', () => {
   const sessionId = 'route-session';
   const memoryRepository = new FakeMemoryRepository();
-  const sessionRepository = new FakeSessionRepository();
   const embeddingProvider = new OpenAIEmbeddingProvider(); // Use OpenAI provider
-  const memoryService = new MemoryService(memoryRepository, sessionRepository, embeddingProvider);
+  const memoryService = new MemoryService(memoryRepository, embeddingProvider);
   const app = createApp({ memoryService, embeddingProvider });
 
   beforeEach(() => {
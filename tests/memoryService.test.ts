@@ -1,46 +1,46 @@
 import { MemoryService } from '../src/services/memoryService';
-import { FakeEmbeddingProvider, FakeMemoryRepository, FakeSessionRepository } from './fakes';
+import { FakeEmbeddingProvider, FakeMemoryRepository } from './fakes';
 
 describe('MemoryService', () => {
+  const userId = 'user-1';
   const sessionId = 'session-1';
   let memoryRepository: FakeMemoryRepository;
-  let sessionRepository: FakeSessionRepository;
   let embeddingProvider: FakeEmbeddingProvider;
   let service: MemoryService;
 
   beforeEach(() => {
     memoryRepository = new FakeMemoryRepository();
-    sessionRepository = new FakeSessionRepository();
     embeddingProvider = new FakeEmbeddingProvider(0.8, true);
-    service = new MemoryService(memoryRepository, sessionRepository, embeddingProvider);
+    service = new MemoryService(memoryRepository, embeddingProvider);
   });
 
   it('stores memory with importance score', async () => {
-    const response = await service.storeMemory({
+    const response = await service.storeMemory(userId, {
       sessionId,
       text: 'User bought an iPhone 15 yesterday.',
       metadata: { source: 'chat' },
       importanceHint: 'high'
     });
 
+    expect(response.userId).toBe(userId);
     expect(response.sessionId).toBe(sessionId);
     expect(response.id).toBeDefined();
     expect(response.importanceScore).toBeGreaterThan(0.5);
   });
 
   it('retrieves the most relevant memory', async () => {
-    await service.storeMemory({
+    await service.storeMemory(userId, {
       sessionId,
       text: 'User bought an iPhone 15 yesterday.',
       metadata: { source: 'chat' }
     });
-    await service.storeMemory({
+    await service.storeMemory(userId, {
       sessionId,
       text: 'User mentioned liking pizza.',
       metadata: { source: 'chat' }
     });
 
-    const result = await service.retrieveMemories({
+    const result = await service.retrieveMemories(userId, {
       sessionId,
       query: 'What products has the user bought?',
       limit: 1
@@ -49,4 +49,72 @@ describe('MemoryService', () => {
     expect(result.results).toHaveLength(1);
     expect(result.results[0].text).toContain('iPhone');
   });
+
+  it('scopes retrieval to the user and session', async () => {
+    await service.storeMemory(userId, { sessionId, text: 'User bought an iPhone 15 yesterday.' });
+    await service.storeMemory(userId, { sessionId: 'other-session', text: 'User bought a Pixel 8.' });
+    await service.storeMemory('user-2', { sessionId, text: 'User bought a MacBook.' });
+
+    const result = await service.retrieveMemories(userId, {
+      sessionId,
+      query: 'What did the user buy?'
+    });
+
+    expect(result.results).toHaveLength(1);
+    expect(result.results[0].text).toContain('iPhone');
+  });
+
+  it('diversifies results with mmrLambda so a repeated fact is returned once', async () => {
+    // Fake vectors are nearly parallel; embed by topic so the facts are told apart.
+    // The reworded iPhone fact is close to the first, but below the duplicate threshold.
+    class TopicEmbeddingProvider extends FakeEmbeddingProvider {
+      async generateEmbedding(text: string): Promise<number[]> {
+        if (text.includes('pizza')) return [0, 1, 0, 0, 0, 0, 0, 0];
+        if (text.startsWith('Yesterday')) return [0.8, 0, 0.6, 0, 0, 0, 0, 0];
+        return [1, 0, 0, 0, 0, 0, 0, 0];
+      }
+    }
+    service = new MemoryService(memoryRepository, new TopicEmbeddingProvider());
+
+    const store = (text: string, importanceHint?: 'high') => service.storeMemory(userId, { sessionId, text, importanceHint });
+    const first = await store('User bought an iPhone 15 yesterday.', 'high');
+    const reworded = await store('Yesterday the user bought an iPhone 15.', 'high');
+    const pizza = await store('User mentioned liking pizza.');
+
+    const query = { sessionId, query: 'What did the user buy?', limit: 2, minScore: 0 };
+    const plain = await service.retrieveMemories(userId, query);
+    const diverse = await service.retrieveMemories(userId, { ...query, mmrLambda: 0.3 });
+
+    expect(plain.results.map((r) => r.id).sort()).toEqual([first.id, reworded.id].sort());
+    expect(diverse.results).toHaveLength(2);
+    expect(diverse.results[1].id).toBe(pizza.id);
+  });
+
+  it('stores the same text again under a new session', async () => {
+    const first = await service.storeMemory(userId, { sessionId, text: 'User bought an iPhone 15 yesterday.' });
+    const repeated = await service.storeMemory(userId, { sessionId, text: 'User bought an iPhone 15 yesterday.' });
+    const second = await service.storeMemory(userId, {
+      sessionId: 'other-session',
+      text: 'User bought an iPhone 15 yesterday.'
+    });
+
+    const result = await service.retrieveMemories(userId, {
+      sessionId: 'other-session',
+      query: 'What did the user buy?'
+    });
+
+    expect(repeated.id).toBe(first.id);
+    expect(second.id).not.toBe(first.id);
+    expect(result.results.map((r) => r.id)).toEqual([second.id]);
+  });
+
+  it('clears only the requested session', async () => {
+    await service.storeMemory(userId, { sessionId, text: 'User bought an iPhone 15 yesterday.' });
+    await service.storeMemory(userId, { sessionId: 'other-session', text: 'User bought a Pixel 8.' });
+
+    const result = await service.clearMemories(userId, { sessionId });
+
+    expect(result.cleared).toBe(1);
+    expect(await memoryRepository.countActive(userId, null)).toBe(1);
+  });
 });
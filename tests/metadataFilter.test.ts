@@ -0,0 +1,42 @@
+import { Prisma } from '@prisma/client';
+import { compileMetadataFilter, metadataFilterSchema } from '../src/utils/metadataFilter';
+
+describe('metadata filter', () => {
+  it('compiles equality on nested keys to jsonb containment', () => {
+    const sql = compileMetadataFilter({ 'repo.name': 'memvault' });
+
+    expect(sql.sql).toContain('metadata @> ?::jsonb');
+    expect(sql.values).toEqual([JSON.stringify({ repo: { name: 'memvault' } })]);
+  });
+
+  it('compiles $in, $exists and numeric ranges', () => {
+    const sql = compileMetadataFilter({
+      source: { $in: ['github', 'sdk'] },
+      conversationId: { $exists: true },
+      priority: { $gte: 2 }
+    });
+
+    expect(sql.sql).toContain('= ANY(?::jsonb[])');
+    expect(sql.sql).toContain('IS NOT NULL');
+    expect(sql.sql).toContain('::numeric >=');
+    expect(sql.values).toContainEqual(['"github"', '"sdk"']);
+    expect(sql.values).toContain(2);
+  });
+
+  it('applies createdAt bounds to the column and honours the alias', () => {
+    const sql = compileMetadataFilter({ createdAt: { $lt: '2025-01-01T00:00:00Z' } }, 'm');
+
+    expect(sql.sql).toContain('m."createdAt" < ?');
+    expect(sql.values[0]).toEqual(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  it('returns an empty fragment without a filter', () => {
+    expect(compileMetadataFilter(undefined)).toBe(Prisma.empty);
+  });
+
+  it('rejects unknown operators and malformed keys', () => {
+    expect(metadataFilterSchema.safeParse({ source: { $regex: 'x' } }).success).toBe(false);
+    expect(metadataFilterSchema.safeParse({ "a'; DROP": 'x' }).success).toBe(false);
+    expect(metadataFilterSchema.safeParse({ createdAt: { $gte: 'yesterday' } }).success).toBe(false);
+  });
+});
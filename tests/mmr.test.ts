@@ -0,0 +1,41 @@
+import { cosine, maximalMarginalRelevance } from '../src/utils/mmr';
+
+describe('cosine', () => {
+  it('compares direction, not length', () => {
+    expect(cosine([1, 0], [3, 0])).toBeCloseTo(1);
+    expect(cosine([1, 0], [0, 2])).toBeCloseTo(0);
+  });
+
+  it('treats missing, zero or mismatched vectors as unrelated', () => {
+    expect(cosine(null, [1, 0])).toBe(0);
+    expect(cosine([0, 0], [1, 0])).toBe(0);
+    expect(cosine([1, 0], [1, 0, 0])).toBe(0);
+  });
+});
+
+describe('maximal marginal relevance', () => {
+  // Two copies of the same fact outrank a distinct one on relevance alone
+  const candidates = [
+    { relevance: 0.9, embedding: [1, 0, 0] },
+    { relevance: 0.88, embedding: [0.99, 0.01, 0] },
+    { relevance: 0.7, embedding: [0, 1, 0] }
+  ];
+
+  it('keeps relevance order at lambda 1', () => {
+    expect(maximalMarginalRelevance(candidates, 3, 1)).toEqual([0, 1, 2]);
+  });
+
+  it('prefers a distinct fact over a near-duplicate', () => {
+    expect(maximalMarginalRelevance(candidates, 2, 0.5)).toEqual([0, 2]);
+  });
+
+  it('returns at most k picks and handles an empty pool', () => {
+    expect(maximalMarginalRelevance(candidates, 1, 0.5)).toEqual([0]);
+    expect(maximalMarginalRelevance([], 3, 0.5)).toEqual([]);
+  });
+
+  it('never penalises candidates without an embedding', () => {
+    const pool = [candidates[0], { relevance: 0.5, embedding: null }, candidates[1]];
+    expect(maximalMarginalRelevance(pool, 2, 0.5)).toEqual([0, 1]);
+  });
+});
@@ -1,22 +1,20 @@
 import { MemoryService } from '../src/services/memoryService';
-import { FakeEmbeddingProvider, FakeMemoryRepository, FakeSessionRepository } from './fakes';
+import { FakeEmbeddingProvider, FakeMemoryRepository } from './fakes';
 
 describe('pruning old memories', () => {
-  const sessionId = 'prune-session';
+  const userId = 'prune-user';
   let memoryRepo: FakeMemoryRepository;
-  let sessionRepo: FakeSessionRepository;
   let service: MemoryService;
 
   beforeEach(() => {
     memoryRepo = new FakeMemoryRepository();
-    sessionRepo = new FakeSessionRepository();
-    service = new MemoryService(memoryRepo, sessionRepo, new FakeEmbeddingProvider(0.1, false));
+    service = new MemoryService(memoryRepo, new FakeEmbeddingProvider(0.1, false));
   });
 
   it('prunes stale, low-importance memories and keeps recent ones', async () => {
     // Low-importance, stale memory
     const oldMemory = await memoryRepo.create({
-      sessionId,
+      userId,
       text: 'old log entry',
       compressedText: 'old log entry',
       importanceScore: 0.1
@@ -27,7 +25,7 @@ describe('pruning old memories', () => {
 
     // Recent, important memory
     await memoryRepo.create({
-      sessionId,
+      userId,
       text: 'recent purchase of a laptop for $2200',
       compressedText: 'recent purchase of a laptop',
       importanceScore: 0.8
@@ -0,0 +1,159 @@
+import { chunkFile, planRepoSync, RepoSyncService, StoredChunk } from '../src/services/repoSyncService';
+import { UserContext } from '../src/types/billing';
+import { TestDatabase } from './testDatabase';
+
+let mockDb: TestDatabase;
+
+// Graph pruning is raw SQL and runs for real; the query-builder calls are stubbed
+const mockDelegates = {
+  memory: { findMany: jest.fn(), updateMany: jest.fn() },
+  $transaction: jest.fn()
+};
+
+jest.mock('../src/config/prisma', () => ({
+  get prisma() {
+    return { ...mockDb.prismaRaw(), ...mockDelegates };
+  }
+}));
+
+jest.mock('../src/config/queue', () => ({
+  memoryProcessingQueue: { addBulk: async (jobs: unknown[]) => jobs.map((_job, i) => ({ id: `job-${i}` })) }
+}));
+
+describe('repository sync planning', () => {
+  const stored = (id: string, path: string, text: string): StoredChunk => ({
+    id,
+    path,
+    contentHash: chunkFile(path, text)[0].contentHash
+  });
+
+  it('queues new files and skips unchanged ones', () => {
+    const plan = planRepoSync(
+      [stored('m1', 'README.md', 'Unchanged readme')],
+      [...chunkFile('README.md', 'Unchanged readme'), ...chunkFile('docs/new.md', 'Brand new doc')]
+    );
+
+    expect(plan.toEnqueue.map((c) => c.path)).toEqual(['docs/new.md']);
+    expect(plan.unchangedChunks).toBe(1);
+    expect(plan.staleMemoryIds).toEqual([]);
+    expect(plan.files).toEqual({ added: 1, changed: 0, unchanged: 1, removed: 0 });
+  });
+
+  it('replaces chunks of edited files and deletes removed files', () => {
+    const plan = planRepoSync(
+      [stored('m1', 'README.md', 'Old readme'), stored('m2', 'docs/gone.md', 'Deleted doc')],
+      chunkFile('README.md', 'New readme')
+    );
+
+    expect(plan.toEnqueue.map((c) => c.text)).toEqual(['New readme']);
+    expect(plan.staleMemoryIds.sort()).toEqual(['m1', 'm2']);
+    expect(plan.files).toEqual({ added: 0, changed: 1, unchanged: 0, removed: 1 });
+  });
+
+  it('is idempotent once the queued chunks are stored', () => {
+    const incoming = chunkFile('README.md', '# Title\n\nBody');
+    const afterFirstRun = incoming.map((c, i) => ({ id: `m${i}`, path: c.path, contentHash: c.contentHash }));
+
+    const plan = planRepoSync(afterFirstRun, incoming);
+
+    expect(plan.toEnqueue).toEqual([]);
+    expect(plan.staleMemoryIds).toEqual([]);
+    expect(plan.files.unchanged).toBe(1);
+  });
+});
+
+describe('RepoSyncService.sync', () => {
+  const userId = 'sync-user';
+  const userContext: UserContext = { userId, source: 'DIRECT', tier: 'PRO', balance: 1000 };
+  const repo = { owner: 'acme', name: 'docs', branch: 'main', commit: 'c2' };
+
+  const memory = async (id: string, path: string, text: string) => {
+    const { contentHash } = chunkFile(path, text)[0];
+    await mockDb.query`
+      INSERT INTO "Memory" (id, "userId", text, "compressedText", "importanceScore", metadata)
+      VALUES (${id}, ${userId}, ${text}, ${text}, 0.5, ${JSON.stringify({ path, contentHash })}::jsonb)
+    `;
+  };
+
+  const entity = async (id: string, mentionedIn: string[], { isManual = false } = {}) => {
+    await mockDb.query`
+      INSERT INTO "Entity" (id, "userId", name, type, "isManual", "updatedAt")
+      VALUES (${id}, ${userId}, ${id}, 'CONCEPT', ${isManual}, NOW())
+    `;
+    for (const memoryId of mentionedIn) {
+      await mockDb.query`INSERT INTO "EntityMention" ("memoryId", "entityId") VALUES (${memoryId}, ${id})`;
+    }
+  };
+
+  const edge = async (from: string, to: string, { isManual = false } = {}) => {
+    await mockDb.query`
+      INSERT INTO "Relationship" (id, "userId", "fromEntityId", "toEntityId", predicate, "isManual", "updatedAt")
+      VALUES (${`${from}-${to}`}, ${userId}, ${from}, ${to}, 'RELATED_TO', ${isManual}, NOW())
+    `;
+  };
+
+  const deletedEntities = async () =>
+    (await mockDb.query<{ id: string }>`SELECT id FROM "Entity" WHERE "isDeleted" ORDER BY id`).map((e) => e.id);
+
+  const deletedEdges = async () =>
+    (await mockDb.query<{ id: string }>`SELECT id FROM "Relationship" WHERE "isDeleted" ORDER BY id`).map((r) => r.id);
+
+  beforeAll(async () => {
+    mockDb = await TestDatabase.create();
+  });
+
+  afterAll(async () => {
+    await mockDb.close();
+  });
+
+  beforeEach(async () => {
+    mockDelegates.$transaction.mockImplementation((fn: (tx: unknown) => unknown) =>
+      fn({ ...mockDb.prismaRaw(), ...mockDelegates })
+    );
+    mockDelegates.memory.findMany.mockImplementation(async () =>
+      mockDb.query`SELECT id, metadata FROM "Memory" WHERE "isDeleted" = false`
+    );
+    mockDelegates.memory.updateMany.mockImplementation(async ({ where }) => ({
+      count: await mockDb.prismaRaw().$executeRaw`
+        UPDATE "Memory" SET "isDeleted" = true WHERE id = ANY(${where.id.in}::text[]) AND "isDeleted" = false
+      `
+    }));
+
+    await mockDb.reset();
+    await mockDb.query`INSERT INTO "User" (id, email, "updatedAt") VALUES (${userId}, 'sync@example.com', NOW())`;
+    await memory('kept', 'README.md', 'Readme');
+    await memory('gone', 'docs/gone.md', 'Deleted doc');
+  });
+
+  it('soft-deletes entities and edges only the removed file mentioned', async () => {
+    await entity('only-gone', ['gone']);
+    await entity('both', ['gone', 'kept']);
+    await entity('edited', ['gone'], { isManual: true });
+    await entity('asserted', ['gone']);
+    await entity('other', ['kept']);
+    await edge('only-gone', 'both');
+    await edge('both', 'other');
+    await edge('asserted', 'other', { isManual: true });
+
+    const result = await RepoSyncService.sync(userContext, { repo, files: [{ path: 'README.md', content: 'Readme' }] });
+
+    expect(result).toMatchObject({ memoriesDeleted: 1, entitiesDeleted: 1, relationshipsDeleted: 1 });
+    expect(await deletedEntities()).toEqual(['only-gone']);
+    expect(await deletedEdges()).toEqual(['only-gone-both']);
+  });
+
+  it('leaves the graph alone when no file went away', async () => {
+    await entity('only-gone', ['gone']);
+
+    const result = await RepoSyncService.sync(userContext, {
+      repo,
+      files: [
+        { path: 'README.md', content: 'Readme' },
+        { path: 'docs/gone.md', content: 'Deleted doc' }
+      ]
+    });
+
+    expect(result).toMatchObject({ memoriesDeleted: 0, entitiesDeleted: 0, relationshipsDeleted: 0 });
+    expect(mockDelegates.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,80 @@
+import { env } from '../src/config';
+import { createReranker } from '../src/services/rerank';
+import { LlmReranker } from '../src/services/rerank/LlmReranker';
+import { ScoreBlendReranker } from '../src/services/rerank/ScoreBlendReranker';
+import { ScriptedLlmProvider } from './fakes';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 10);
+
+const candidate = (id: string, similarity: number, importanceScore: number, ageHours: number) => ({
+  id,
+  text: `memory ${id}`,
+  similarity,
+  importanceScore,
+  createdAt: new Date(NOW - ageHours * HOUR)
+});
+
+describe('rerankers', () => {
+  const originalWeights = env.scoringWeights;
+
+  beforeEach(() => {
+    env.scoringWeights = { similarity: 0.5, recency: 0.2, importance: 0.3 };
+  });
+
+  afterEach(() => {
+    env.scoringWeights = originalWeights;
+  });
+
+  it('none keeps the retrieval order and cuts to the limit', async () => {
+    const candidates = [candidate('a', 0.9, 0.1, 100), candidate('b', 0.8, 0.9, 0), candidate('c', 0.7, 0.5, 1)];
+
+    const { items, usage } = await createReranker('none').rerank('q', candidates, 2);
+
+    expect(items.map((i) => i.id)).toEqual(['a', 'b']);
+    expect(items[0].rerankScore).toBe(0.9);
+    expect(usage).toBeNull();
+  });
+
+  it('blend favours recent, important memories over slightly more similar ones', async () => {
+    const candidates = [candidate('old', 0.9, 0.1, 24 * 30), candidate('fresh', 0.8, 0.9, 1)];
+
+    const { items } = await new ScoreBlendReranker(undefined, () => NOW).rerank('q', candidates, 2);
+
+    expect(items.map((i) => i.id)).toEqual(['fresh', 'old']);
+    expect(items[0].rerankScore).toBeGreaterThan(items[1].rerankScore);
+  });
+
+  it('llm orders candidates by the grades it returns', async () => {
+    const llm = new ScriptedLlmProvider([
+      {
+        content: JSON.stringify({ scores: [{ index: 1, score: 2 }, { index: 2, score: 9 }, { index: 3, score: 5 }] }),
+        usage: { prompt_tokens: 90, completion_tokens: 10, total_tokens: 100 }
+      }
+    ]);
+    const candidates = [candidate('a', 0.9, 0.5, 1), candidate('b', 0.8, 0.5, 1), candidate('c', 0.7, 0.5, 1)];
+
+    const { items, usage } = await new LlmReranker(llm).rerank('where did John work?', candidates, 2);
+
+    expect(items.map((i) => i.id)).toEqual(['b', 'c']);
+    expect(items[0].rerankScore).toBeCloseTo(0.9);
+    expect(usage?.total_tokens).toBe(100);
+    expect(llm.requests[0].json).toBe(true);
+    expect(llm.requests[0].messages[1].content).toContain('[3] memory c');
+  });
+
+  it('llm keeps the retrieval order when the reply has no usable grades', async () => {
+    const llm = new ScriptedLlmProvider(['{"scores": [{"index": 42, "score": 3}]}']);
+    const candidates = [candidate('a', 0.9, 0.5, 1), candidate('b', 0.8, 0.5, 1)];
+
+    const { items } = await new LlmReranker(llm).rerank('q', candidates, 2);
+
+    expect(items.map((i) => i.id)).toEqual(['a', 'b']);
+  });
+
+  it('llm skips the call when there is nothing to rerank', async () => {
+    const llm = new ScriptedLlmProvider([]);
+    await expect(new LlmReranker(llm).rerank('q', [], 5)).resolves.toEqual({ items: [], usage: null });
+    expect(llm.requests).toHaveLength(0);
+  });
+});
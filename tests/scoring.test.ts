@@ -1,4 +1,9 @@
-import { computeFinalScore, computeRecencyScore } from '../src/utils/scoring';
+import {
+  computeFinalScore,
+  computeRecencyScore,
+  getScoringProfile,
+  resolveScoringProfile
+} from '../src/utils/scoring';
 
 describe('scoring utils', () => {
   it('weights similarity, recency, and importance', () => {
@@ -19,4 +24,42 @@ describe('scoring utils', () => {
     expect(nowScore).toBeGreaterThan(futureScore);
     expect(nowScore).toBeLessThanOrEqual(1);
   });
+
+  it('uses the profile half-life for recency', () => {
+    const dayOld = { similarity: 0.5, recencyMs: 1000 * 60 * 60 * 24, importanceScore: 0.5 };
+
+    const chat = computeFinalScore(dayOld, getScoringProfile('chat-recent'));
+    const knowledge = computeFinalScore(dayOld, getScoringProfile('knowledge-base'));
+
+    expect(chat.recencyScore).toBeCloseTo(1 / 16); // Four 6h half-lives
+    expect(knowledge.recencyScore).toBeGreaterThan(0.97);
+  });
+});
+
+describe('scoring profile resolution', () => {
+  it('falls back to the default profile', () => {
+    expect(resolveScoringProfile(null)).toEqual(getScoringProfile('default'));
+  });
+
+  it('applies stored adjustments to the stored profile', () => {
+    const profile = resolveScoringProfile({ profile: 'chat-recent', halfLifeHours: 2, weights: { importance: 0.3 } });
+
+    expect(profile.halfLifeHours).toBe(2);
+    expect(profile.weights).toEqual({ similarity: 0.4, recency: 0.45, importance: 0.3 });
+  });
+
+  it('ignores stored adjustments when a request picks another profile', () => {
+    const stored = { profile: 'chat-recent' as const, halfLifeHours: 2 };
+
+    expect(resolveScoringProfile(stored, { profile: 'long-horizon' })).toEqual(getScoringProfile('long-horizon'));
+  });
+
+  it('layers request adjustments on top', () => {
+    const profile = resolveScoringProfile(
+      { profile: 'knowledge-base', weights: { recency: 0.1 } },
+      { weights: { similarity: 0.6 }, halfLifeHours: 48 }
+    );
+
+    expect(profile).toEqual({ weights: { similarity: 0.6, recency: 0.1, importance: 0.25 }, halfLifeHours: 48 });
+  });
 });
@@ -1,2 +1,5 @@
 process.env.ENABLE_EMBEDDINGS = 'true';
-process.env.OPENAI_API_KEY = 'test-key';
\ No newline at end of file
+process.env.OPENAI_API_KEY = 'test-key';
+process.env.SUPABASE_URL = process.env.SUPABASE_URL || 'postgresql://localhost:5432/test';
+process.env.REDIS_HOST = process.env.REDIS_HOST || 'localhost';
+process.env.STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY || 'sk_test_dummy';
@@ -0,0 +1,225 @@
+import request from 'supertest';
+import { createApp } from '../src/app';
+import { MemoryService } from '../src/services/memoryService';
+import { VaultService } from '../src/services/vaultService';
+import { FakeEmbeddingProvider, FakeMemoryRepository } from './fakes';
+
+const mockPrisma = {
+  vault: { findFirst: jest.fn(), findMany: jest.fn(), create: jest.fn(), update: jest.fn() },
+  memory: { updateMany: jest.fn() },
+  relationship: { updateMany: jest.fn() },
+  entity: { updateMany: jest.fn() },
+  $transaction: jest.fn()
+};
+
+jest.mock('../src/config/prisma', () => ({
+  get prisma() {
+    return mockPrisma;
+  }
+}));
+
+// Skip Redis-backed billing
+jest.mock('../src/services/hybridCostGuard', () => ({
+  CostGuard: {
+    calculateApiCallCost: () => 0.3,
+    checkAccess: jest.fn(),
+    deduct: jest.fn()
+  }
+}));
+
+// Authenticate every request as a Direct test user
+jest.mock('../src/middleware/hybridAuth', () => ({
+  ...jest.requireActual('../src/middleware/hybridAuth'),
+  hybridAuth: (req: any, _res: unknown, next: () => void) => {
+    req.userContext = { userId: 'route-user', source: 'DIRECT', tier: 'PRO', balance: 1000 };
+    next();
+  }
+}));
+
+const userId = 'vault-user';
+const NOW = new Date('2025-01-01');
+
+const vaultRow = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  userId,
+  name: id,
+  description: null,
+  isDeleted: false,
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides
+});
+
+describe('VaultService', () => {
+  beforeEach(() => {
+    mockPrisma.$transaction.mockImplementation((operations: Promise<unknown>[]) => Promise.all(operations));
+  });
+
+  it('lists active vaults of the user with their memory counts', async () => {
+    mockPrisma.vault.findMany.mockResolvedValueOnce([{ ...vaultRow('work'), _count: { memories: 3 } }]);
+
+    const vaults = await VaultService.listVaults(userId);
+
+    expect(mockPrisma.vault.findMany.mock.calls[0][0].where).toEqual({ userId, isDeleted: false });
+    expect(vaults).toEqual([expect.objectContaining({ id: 'work', memoryCount: 3 })]);
+    expect(vaults[0]).not.toHaveProperty('_count');
+  });
+
+  it("hides another user's vault and deleted vaults", async () => {
+    mockPrisma.vault.findFirst.mockResolvedValueOnce(null);
+
+    await expect(VaultService.getVault(userId, 'theirs')).rejects.toMatchObject({
+      code: 'VAULT_NOT_FOUND',
+      status: 404
+    });
+    expect(mockPrisma.vault.findFirst).toHaveBeenCalledWith({ where: { id: 'theirs', userId, isDeleted: false } });
+  });
+
+  it('refuses a name the user already has', async () => {
+    mockPrisma.vault.findFirst.mockResolvedValueOnce({ id: 'work' });
+
+    await expect(VaultService.createVault(userId, { name: 'work' })).rejects.toMatchObject({
+      code: 'VAULT_NAME_TAKEN',
+      status: 409
+    });
+    expect(mockPrisma.vault.create).not.toHaveBeenCalled();
+  });
+
+  it('creates a vault for the user', async () => {
+    mockPrisma.vault.findFirst.mockResolvedValueOnce(null);
+    mockPrisma.vault.create.mockResolvedValueOnce(vaultRow('work'));
+
+    await VaultService.createVault(userId, { name: 'work' });
+
+    expect(mockPrisma.vault.create).toHaveBeenCalledWith({ data: { userId, name: 'work', description: null } });
+  });
+
+  describe('updateVault', () => {
+    it('checks a new name but not an unchanged one', async () => {
+      mockPrisma.vault.findFirst.mockResolvedValueOnce(vaultRow('work')).mockResolvedValueOnce({ id: 'home' });
+
+      await expect(VaultService.updateVault(userId, 'work', { name: 'home' })).rejects.toMatchObject({
+        code: 'VAULT_NAME_TAKEN'
+      });
+
+      mockPrisma.vault.findFirst.mockResolvedValueOnce(vaultRow('work'));
+      await VaultService.updateVault(userId, 'work', { name: 'work', description: 'Job notes' });
+
+      expect(mockPrisma.vault.findFirst).toHaveBeenCalledTimes(3);
+      expect(mockPrisma.vault.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.vault.update).toHaveBeenCalledWith({
+        where: { id: 'work' },
+        data: { name: 'work', description: 'Job notes' }
+      });
+    });
+
+    it("can't touch another user's vault", async () => {
+      mockPrisma.vault.findFirst.mockResolvedValueOnce(null);
+
+      await expect(VaultService.updateVault(userId, 'theirs', { name: 'mine' })).rejects.toMatchObject({
+        code: 'VAULT_NOT_FOUND'
+      });
+      expect(mockPrisma.vault.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteVault', () => {
+    it('soft-deletes the vault with its memories and graph', async () => {
+      mockPrisma.vault.findFirst.mockResolvedValueOnce(vaultRow('work'));
+      mockPrisma.memory.updateMany.mockResolvedValueOnce({ count: 4 });
+      mockPrisma.relationship.updateMany.mockResolvedValueOnce({ count: 2 });
+      mockPrisma.entity.updateMany.mockResolvedValueOnce({ count: 3 });
+
+      const result = await VaultService.deleteVault(userId, 'work');
+
+      expect(result).toEqual({ vaultId: 'work', memoriesDeleted: 4, entitiesDeleted: 3, relationshipsDeleted: 2 });
+      const scope = { where: { userId, vaultId: 'work', isDeleted: false }, data: { isDeleted: true } };
+      expect(mockPrisma.memory.updateMany).toHaveBeenCalledWith(scope);
+      expect(mockPrisma.relationship.updateMany).toHaveBeenCalledWith(scope);
+      expect(mockPrisma.entity.updateMany).toHaveBeenCalledWith(scope);
+      expect(mockPrisma.vault.update).toHaveBeenCalledWith({ where: { id: 'work' }, data: { isDeleted: true } });
+    });
+
+    it("leaves another user's vault alone", async () => {
+      mockPrisma.vault.findFirst.mockResolvedValueOnce(null);
+
+      await expect(VaultService.deleteVault(userId, 'theirs')).rejects.toMatchObject({ code: 'VAULT_NOT_FOUND' });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+      expect(mockPrisma.memory.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('Vault routes', () => {
+  const memoryRepository = new FakeMemoryRepository();
+  const app = createApp({
+    memoryService: new MemoryService(memoryRepository, new FakeEmbeddingProvider()),
+    embeddingProvider: new FakeEmbeddingProvider()
+  });
+
+  it('creates a vault for the caller', async () => {
+    mockPrisma.vault.findFirst.mockResolvedValueOnce(null);
+    mockPrisma.vault.create.mockResolvedValueOnce(vaultRow('work', { userId: 'route-user' }));
+
+    const response = await request(app).post('/api/vaults').send({ name: '  work ' });
+
+    expect(response.status).toBe(201);
+    expect(mockPrisma.vault.create).toHaveBeenCalledWith({
+      data: { userId: 'route-user', name: 'work', description: null }
+    });
+  });
+
+  it('validates names and updates', async () => {
+    const unnamed = await request(app).post('/api/vaults').send({ name: ' ' });
+    const empty = await request(app).put('/api/vaults/work').send({});
+
+    expect(unnamed.status).toBe(400);
+    expect(empty.status).toBe(400);
+    expect(unnamed.body.error.code).toBe('VALIDATION_ERROR');
+    expect(mockPrisma.vault.findFirst).not.toHaveBeenCalled();
+  });
+
+  it("answers 404 for another user's vault", async () => {
+    mockPrisma.vault.findFirst.mockResolvedValue(null);
+
+    const get = await request(app).get('/api/vaults/theirs');
+    const remove = await request(app).delete('/api/vaults/theirs');
+
+    expect(get.status).toBe(404);
+    expect(remove.status).toBe(404);
+    expect(mockPrisma.vault.findFirst).toHaveBeenCalledWith({
+      where: { id: 'theirs', userId: 'route-user', isDeleted: false }
+    });
+  });
+
+  it('summarizes a session within the requested vault only', async () => {
+    const store = (vaultId: string | null, text: string) =>
+      memoryRepository.create({
+        userId: 'route-user',
+        vaultId,
+        text,
+        compressedText: text,
+        importanceScore: 0.5,
+        metadata: { sessionId: 's1' }
+      });
+    await store(null, 'Default space');
+    await store('work', 'Work 1');
+    await store('work', 'Work 2');
+    mockPrisma.vault.findFirst.mockResolvedValue(vaultRow('work', { userId: 'route-user' }));
+
+    const inVault = await request(app).get('/api/session/sessions/s1?vaultId=work');
+    const inDefault = await request(app).get('/api/session/sessions/s1');
+
+    expect(inVault.body).toMatchObject({ id: 's1', vaultId: 'work', memoryCount: 2 });
+    expect(inDefault.body).toMatchObject({ id: 's1', vaultId: null, memoryCount: 1 });
+  });
+
+  it("refuses a session summary in another user's vault", async () => {
+    mockPrisma.vault.findFirst.mockResolvedValueOnce(null);
+
+    const response = await request(app).get('/api/session/sessions/s1?vaultId=theirs');
+
+    expect(response.status).toBe(404);
+    expect(response.body.error.code).toBe('VAULT_NOT_FOUND');
+  });
+});